@@ -1,39 +1,62 @@
 #!/usr/bin/env node
 
-import { Zodirectus, ZodirectusConfig } from './index';
+import { Zodirectus, ZodirectusConfig, SchemaSource, DirectusClient, SnapshotClient } from './index';
+import { SchemaDiffUtils, ConfigUtils } from './lib';
 import * as fs from 'fs';
 import * as path from 'path';
 
+type CLICommand = 'generate' | 'check' | 'diff' | 'watch';
+
+const COMMANDS: CLICommand[] = ['generate', 'check', 'diff', 'watch'];
+
 interface CLIOptions {
-  url: string;
+  command: CLICommand;
+  config?: string;
+  envFile?: string;
+  url?: string;
   token?: string;
   email?: string;
   password?: string;
+  snapshot?: string;
+  from?: string;
+  to?: string;
+  interval?: number;
   collections?: string[];
   output?: string;
   schemas?: boolean;
   types?: boolean;
   system?: boolean;
+  flattenM2m?: boolean;
+  relationMode?: string;
+  outputLayout?: string;
+  singularize?: boolean;
+  roles?: string[];
+  omitHiddenFields?: boolean;
+  formLayouts?: boolean;
   help?: boolean;
   version?: boolean;
 }
 
 /**
- * Parse command line arguments
+ * Parse command line arguments. Only flags that were passed are set, so they can
+ * be merged on top of the config file.
  */
 function parseArgs(): CLIOptions {
   const args = process.argv.slice(2);
   const options: CLIOptions = {
-    url: '',
-    schemas: true,
-    types: true,
-    system: false,
+    command: 'generate',
   };
 
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
     
     switch (arg) {
+      case '--config':
+        options.config = args[++i];
+        break;
+      case '--env-file':
+        options.envFile = args[++i];
+        break;
       case '--url':
       case '-u':
         options.url = args[++i];
@@ -50,6 +73,19 @@ function parseArgs(): CLIOptions {
       case '-p':
         options.password = args[++i];
         break;
+      case '--snapshot':
+      case '-s':
+        options.snapshot = args[++i];
+        break;
+      case '--from':
+        options.from = args[++i];
+        break;
+      case '--to':
+        options.to = args[++i];
+        break;
+      case '--interval':
+        options.interval = Number(args[++i]);
+        break;
       case '--collections':
       case '-c':
         options.collections = args[++i].split(',').map(c => c.trim());
@@ -73,6 +109,27 @@ function parseArgs(): CLIOptions {
       case '--system':
         options.system = true;
         break;
+      case '--flatten-m2m':
+        options.flattenM2m = true;
+        break;
+      case '--relation-mode':
+        options.relationMode = args[++i];
+        break;
+      case '--output-layout':
+        options.outputLayout = args[++i];
+        break;
+      case '--no-singularize':
+        options.singularize = false;
+        break;
+      case '--omit-hidden-fields':
+        options.omitHiddenFields = true;
+        break;
+      case '--form-layouts':
+        options.formLayouts = true;
+        break;
+      case '--roles':
+        options.roles = args[++i].split(',').map(r => r.trim());
+        break;
       case '--help':
       case '-h':
         options.help = true;
@@ -86,6 +143,12 @@ function parseArgs(): CLIOptions {
           console.error(`Unknown option: ${arg}`);
           process.exit(1);
         }
+        if (i === 0 && COMMANDS.includes(arg as CLICommand)) {
+          options.command = arg as CLICommand;
+        } else {
+          console.error(`Unknown command: ${arg}`);
+          process.exit(1);
+        }
         break;
     }
   }
@@ -100,13 +163,28 @@ function showHelp(): void {
   console.log(`
 Zodirectus - Generate Zod schemas and TypeScript types from Directus collections
 
-Usage: zodirectus [options]
+Usage: zodirectus [command] [options]
+
+Commands:
+  generate                     Generate schemas and types into the output directory (default)
+  check                        Exit with a non-zero code and print a diff when the generated
+                               files in the output directory are out of date
+  diff                         Compare two schema states (--from and --to snapshots, or one
+                               snapshot and the live instance) and report breaking changes
+  watch                        Generate, then poll the live instance and regenerate the
+                               affected files whenever the schema changes
 
 Options:
-  -u, --url <url>              Directus instance URL (required)
-  -t, --token <token>          Authentication token
-  -e, --email <email>          Email for authentication
-  -p, --password <password>    Password for authentication
+  --config <file>              Config file (default: zodirectus.config.{ts,js,json} if present)
+  --env-file <file>            Load environment variables from this file (default: .env if present)
+  -u, --url <url>              Directus instance URL (default: DIRECTUS_URL)
+  -t, --token <token>          Authentication token (default: DIRECTUS_TOKEN)
+  -e, --email <email>          Email for authentication (default: DIRECTUS_EMAIL)
+  -p, --password <password>    Password for authentication (default: DIRECTUS_PASSWORD)
+  -s, --snapshot <file>        Read the schema from a Directus schema snapshot file (JSON or YAML)
+  --from <file>                Snapshot with the old schema for diff (default: live instance)
+  --to <file>                  Snapshot with the new schema for diff (default: live instance)
+  --interval <seconds>         Polling interval for watch (default: 5)
   -c, --collections <list>     Comma-separated list of collections to generate
   -o, --output <dir>           Output directory (default: ./generated)
   --schemas                    Generate Zod schemas (default: true)
@@ -114,13 +192,32 @@ Options:
   --types                      Generate TypeScript types (default: true)
   --no-types                   Skip TypeScript type generation
   --system                     Include system collections
+  --flatten-m2m                Type M2M fields as arrays of related items instead of junction rows
+  --relation-mode <mode>       Type relation fields as id-only, expanded or either (default: either)
+  --output-layout <layout>     Write per-collection files, a single-file or schemas-and-types-split
+                               (default: per-collection)
+  --no-singularize             Name schemas and types after the collection name as is
+  --omit-hidden-fields         Leave hidden fields out of Create and Update schemas and types
+  --form-layouts               Write form-layouts.ts with the field groups, order and widths of each form
+  --roles <list>               Comma-separated roles to generate per-role variants for, e.g. Editor,Public
   -h, --help                   Show this help message
   -v, --version                Show version information
 
+Environment variables:
+  DIRECTUS_URL, DIRECTUS_TOKEN, DIRECTUS_EMAIL and DIRECTUS_PASSWORD are used when the
+  matching option is not given on the command line or in the config file.
+
 Examples:
   zodirectus --url https://api.example.com --token your-token
+  DIRECTUS_URL=https://api.example.com DIRECTUS_TOKEN=your-token zodirectus
   zodirectus --url https://api.example.com --email user@example.com --password pass123
   zodirectus --url https://api.example.com --collections users,posts --output ./types
+  zodirectus --snapshot ./snapshot.yaml --output ./types
+  zodirectus check --snapshot ./snapshot.yaml --output ./types
+  zodirectus diff --from ./snapshot.yaml --to ./snapshot-next.yaml
+  zodirectus diff --from ./snapshot.yaml --url https://api.example.com --token your-token
+  zodirectus watch --url https://api.example.com --token your-token --interval 10
+  zodirectus --config ./zodirectus.config.ts --output ./types
 `);
 }
 
@@ -132,6 +229,76 @@ function showVersion(): void {
   console.log(`zodirectus v${packageJson.version}`);
 }
 
+/**
+ * Compare freshly generated output with the files on disk and exit non-zero when they differ
+ */
+async function runCheck(config: ZodirectusConfig): Promise<void> {
+  console.log('🔍 Checking generated files...');
+
+  const zodirectus = new Zodirectus(config);
+  const staleFiles = await zodirectus.check();
+
+  if (staleFiles.length === 0) {
+    console.log(`✅ Generated files in ${config.outputDir} are up to date`);
+    return;
+  }
+
+  console.error(`❌ ${staleFiles.length} generated file(s) are out of date:`);
+  staleFiles.forEach(file => {
+    console.error(`   - ${file.filePath} (${file.status})`);
+  });
+  staleFiles.forEach(file => {
+    console.error(`\n${file.diff}`);
+  });
+  console.error('Run zodirectus without the check command to regenerate them.');
+  process.exit(1);
+}
+
+/**
+ * Compare two schema states and exit non-zero when there are breaking changes
+ */
+async function runDiff(options: CLIOptions, config: ZodirectusConfig): Promise<void> {
+  const createSource = (snapshotPath?: string): SchemaSource => snapshotPath
+    ? new SnapshotClient({ ...config, snapshotPath })
+    : new DirectusClient(config);
+
+  console.log(`🔍 Comparing ${options.from ?? config.directusUrl} with ${options.to ?? config.directusUrl}...`);
+
+  const before = await SchemaDiffUtils.loadState(createSource(options.from), config);
+  const after = await SchemaDiffUtils.loadState(createSource(options.to), config);
+  const changes = SchemaDiffUtils.compare(before, after);
+
+  console.log(SchemaDiffUtils.formatReport(changes));
+
+  if (changes.some(change => change.breaking)) {
+    process.exit(1);
+  }
+}
+
+/**
+ * Keep the output directory in sync with the live instance until interrupted
+ */
+async function runWatch(options: CLIOptions, config: ZodirectusConfig): Promise<void> {
+  console.log(`👀 Watching ${config.directusUrl} for schema changes...`);
+
+  const zodirectus = new Zodirectus(config);
+  const watcher = await zodirectus.watch({
+    interval: (options.interval ?? 5) * 1000,
+    onGenerate: (results, changedCollections) => {
+      console.log(`✅ Generated ${results.length} collections (changed: ${changedCollections.join(', ')})`);
+    },
+    onError: error => {
+      console.error('❌ Error:', error.message);
+    },
+  });
+
+  process.on('SIGINT', () => {
+    watcher.stop();
+    console.log('\n👋 Stopped watching');
+    process.exit(0);
+  });
+}
+
 /**
  * Main CLI function
  */
@@ -148,33 +315,122 @@ async function main(): Promise<void> {
     return;
   }
 
-  if (!options.url) {
-    console.error('Error: Directus URL is required. Use --url or -u option.');
+  // Flags passed on the command line win over the config file, which wins over
+  // DIRECTUS_* environment variables
+  let config: ZodirectusConfig;
+  try {
+    if (options.envFile && !fs.existsSync(options.envFile)) {
+      throw new Error(`Env file not found: ${options.envFile}`);
+    }
+    ConfigUtils.loadEnvFile(options.envFile ?? '.env');
+
+    const configPath = options.config ?? ConfigUtils.findConfigFile();
+    if (configPath) {
+      console.log(`⚙️  Using config file: ${configPath}`);
+    }
+
+    const fileConfig = configPath ? ConfigUtils.loadConfigFile(configPath) : undefined;
+    config = ConfigUtils.applyEnvDefaults(ConfigUtils.mergeConfig(
+      { outputDir: './generated' },
+      fileConfig,
+      {
+        directusUrl: options.url,
+        token: options.token,
+        email: options.email,
+        password: options.password,
+        snapshotPath: options.snapshot,
+        collections: options.collections,
+        outputDir: options.output,
+        generateTypes: options.types,
+        generateSchemas: options.schemas,
+        includeSystemCollections: options.system,
+        m2mMode: options.flattenM2m ? 'flatten' : undefined,
+        relationMode: options.relationMode as ZodirectusConfig['relationMode'],
+        outputLayout: options.outputLayout as ZodirectusConfig['outputLayout'],
+        roles: options.roles,
+        omitHiddenFields: options.omitHiddenFields,
+        generateFormLayouts: options.formLayouts,
+        // The rest of the naming strategy comes from the config file
+        naming: options.singularize === false ? { ...fileConfig?.naming, singularize: false } : undefined,
+      }
+    ));
+  } catch (error) {
+    console.error('❌ Error:', error instanceof Error ? error.message : 'Unknown error');
+    process.exit(1);
+  }
+
+  if (options.command === 'diff' && !options.from && !options.to) {
+    console.error('Error: diff needs at least one snapshot. Use --from and/or --to.');
     console.error('Use --help for more information.');
     process.exit(1);
   }
 
-  if (!options.token && (!options.email || !options.password)) {
-    console.error('Error: Authentication is required. Provide either --token or --email/--password.');
+  if (options.command === 'watch' && config.snapshotPath) {
+    console.error('Error: watch polls a live Directus instance and cannot be used with --snapshot.');
+    console.error('Use --help for more information.');
+    process.exit(1);
+  }
+
+  if (options.command !== 'diff' && config.roles && config.roles.length > 0 && config.snapshotPath) {
+    console.error('Error: --roles reads roles and permissions from a live Directus instance and cannot be used with --snapshot.');
+    console.error('Use --help for more information.');
+    process.exit(1);
+  }
+
+  if (options.interval !== undefined && (!Number.isFinite(options.interval) || options.interval <= 0)) {
+    console.error('Error: --interval must be a positive number of seconds.');
+    process.exit(1);
+  }
+
+  if (config.relationMode && !['id-only', 'expanded', 'either'].includes(config.relationMode)) {
+    console.error('Error: relationMode must be one of id-only, expanded or either.');
+    process.exit(1);
+  }
+
+  if (config.outputLayout && !['per-collection', 'single-file', 'schemas-and-types-split'].includes(config.outputLayout)) {
+    console.error('Error: outputLayout must be one of per-collection, single-file or schemas-and-types-split.');
+    process.exit(1);
+  }
+
+  // The live instance is only needed when no snapshot stands in for it
+  const needsInstance = options.command === 'diff'
+    ? !options.from || !options.to
+    : !config.snapshotPath;
+
+  if (needsInstance && !config.directusUrl) {
+    console.error('Error: Directus URL is required. Use --url, DIRECTUS_URL or directusUrl in the config file, or --snapshot to read a schema snapshot.');
+    console.error('Use --help for more information.');
+    process.exit(1);
+  }
+
+  if (needsInstance && !config.token && (!config.email || !config.password)) {
+    console.error('Error: Authentication is required. Provide either --token or --email/--password, or set DIRECTUS_TOKEN or DIRECTUS_EMAIL/DIRECTUS_PASSWORD.');
     console.error('Use --help for more information.');
     process.exit(1);
   }
 
   try {
-    const config: ZodirectusConfig = {
-      directusUrl: options.url,
-      token: options.token,
-      email: options.email,
-      password: options.password,
-      collections: options.collections,
-      outputDir: options.output,
-      generateTypes: options.types,
-      generateSchemas: options.schemas,
-      includeSystemCollections: options.system,
-    };
+    if (options.command === 'check') {
+      await runCheck(config);
+      return;
+    }
+
+    if (options.command === 'diff') {
+      await runDiff(options, config);
+      return;
+    }
+
+    if (options.command === 'watch') {
+      await runWatch(options, config);
+      return;
+    }
 
     console.log('🚀 Starting Zodirectus generation...');
-    console.log(`📡 Connecting to: ${config.directusUrl}`);
+    if (config.snapshotPath) {
+      console.log(`📄 Reading snapshot: ${config.snapshotPath}`);
+    } else {
+      console.log(`📡 Connecting to: ${config.directusUrl}`);
+    }
     
     const zodirectus = new Zodirectus(config);
     const results = await zodirectus.generate();
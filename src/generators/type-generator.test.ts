@@ -1,5 +1,6 @@
 import { TypeGenerator } from './type-generator';
-import { DirectusCollectionWithFields, ZodirectusConfig } from '../types';
+import { DirectusCollectionWithFields, DirectusField, DirectusRelation, ZodirectusConfig } from '../types';
+import { MemoryClient } from '../utils/memory-client';
 
 describe('TypeGenerator', () => {
   let generator: TypeGenerator;
@@ -282,6 +283,708 @@ describe('TypeGenerator', () => {
       expect(result).toContain('export type DrsUserUpdate = Partial<DrsUser> & Required<Pick<DrsUser, "id">>');
       expect(result).toContain('export type DrsUserGet = DrsUser');
     });
+
+    it('should make fields with database defaults optional in the Create type', () => {
+      const collection: DirectusCollectionWithFields = {
+        collection: 'articles',
+        fields: [
+          {
+            field: 'id',
+            type: 'integer',
+            schema: { name: 'id', table: 'articles', data_type: 'integer', is_nullable: false, is_unique: true, is_primary_key: true, has_auto_increment: true },
+            meta: { id: 1, collection: 'articles', field: 'id', required: false, readonly: true, hidden: true },
+          },
+          {
+            field: 'status',
+            type: 'string',
+            schema: { name: 'status', table: 'articles', data_type: 'varchar', default_value: 'draft', is_nullable: false, is_unique: false, is_primary_key: false, has_auto_increment: false },
+            meta: { id: 2, collection: 'articles', field: 'status', required: true, readonly: false, hidden: false },
+          },
+          {
+            field: 'published_at',
+            type: 'timestamp',
+            schema: { name: 'published_at', table: 'articles', data_type: 'timestamp', default_value: 'CURRENT_TIMESTAMP', is_nullable: false, is_unique: false, is_primary_key: false, has_auto_increment: false },
+            meta: { id: 3, collection: 'articles', field: 'published_at', required: true, readonly: false, hidden: false },
+          },
+          {
+            field: 'title',
+            type: 'string',
+            schema: { name: 'title', table: 'articles', data_type: 'varchar', is_nullable: false, is_unique: false, is_primary_key: false, has_auto_increment: false },
+            meta: { id: 4, collection: 'articles', field: 'title', required: true, readonly: false, hidden: false },
+          },
+        ],
+      };
+
+      const result = generator.generateType(collection);
+
+      expect(result).toContain('export type DrsArticleCreate = Omit<DrsArticle, "id" | "status" | "published_at"> & Partial<Pick<DrsArticle, "status" | "published_at">>;');
+    });
+
+    it('should type JSON fields by their interface or the config', () => {
+      const jsonField = (field: string, meta: Partial<NonNullable<DirectusField['meta']>>): DirectusField => ({
+        field,
+        type: 'json',
+        meta: { id: 1, collection: 'articles', field, special: ['cast-json'], required: true, readonly: false, hidden: false, ...meta },
+      });
+      const collection: DirectusCollectionWithFields = {
+        collection: 'articles',
+        fields: [
+          jsonField('payload', { interface: 'input-code', options: { language: 'json' } }),
+          jsonField('headers', {}),
+          jsonField('channels', { interface: 'select-multiple-checkbox', options: { choices: [{ text: 'Email', value: 'email' }] } }),
+          jsonField('settings', {}),
+          jsonField('extra', {}),
+        ],
+      };
+      generator = new TypeGenerator({
+        ...config,
+        fieldSchemas: {
+          'articles.settings': { schema: 'z.object({ theme: z.string() })', type: '{ theme: string }' },
+          'articles.extra': 'z.object({ theme: z.string() })',
+        },
+      });
+
+      const result = generator.generateType(collection);
+
+      expect(result).toContain('payload: string | number | boolean | null | unknown[] | Record<string, unknown>');
+      expect(result).toContain('headers: any');
+      expect(result).toContain('channels: ("email")[]');
+      expect(result).toContain('settings: { theme: string }');
+      expect(result).toContain('extra: any');
+    });
+
+    it('should drop presentation fields but keep relational alias fields', () => {
+      const collection: DirectusCollectionWithFields = {
+        collection: 'articles',
+        fields: [
+          { field: 'title', type: 'string' },
+          { field: 'notice', type: 'alias', meta: { id: 2, collection: 'articles', field: 'notice', special: ['alias', 'no-data'], interface: 'presentation-notice', required: false, readonly: false, hidden: false } },
+          { field: 'seo', type: 'alias', meta: { id: 3, collection: 'articles', field: 'seo', special: ['alias', 'no-data', 'group'], interface: 'group-detail', required: false, readonly: false, hidden: false } },
+          { field: 'comments', type: 'alias', meta: { id: 4, collection: 'articles', field: 'comments', special: ['o2m'], interface: 'list-o2m', required: false, readonly: false, hidden: false } },
+        ],
+      };
+
+      const result = generator.generateType(collection);
+
+      expect(result).toContain('title?:');
+      expect(result).toContain('comments?:');
+      expect(result).not.toContain('notice');
+      expect(result).not.toContain('seo');
+    });
+
+    it('should leave readonly fields, and hidden ones if configured, out of the Create and Update types', () => {
+      const collection: DirectusCollectionWithFields = {
+        collection: 'articles',
+        fields: [
+          { field: 'id', type: 'integer', meta: { id: 1, collection: 'articles', field: 'id', required: false, readonly: true, hidden: true } },
+          { field: 'title', type: 'string', meta: { id: 2, collection: 'articles', field: 'title', required: true, readonly: false, hidden: false } },
+          { field: 'slug', type: 'string', meta: { id: 3, collection: 'articles', field: 'slug', required: false, readonly: true, hidden: false } },
+          { field: 'legacy_id', type: 'string', meta: { id: 4, collection: 'articles', field: 'legacy_id', required: false, readonly: false, hidden: true } },
+        ],
+      };
+
+      const result = generator.generateType(collection);
+
+      expect(result).toContain('export type DrsArticleCreate = Omit<DrsArticle, "id" | "slug">;');
+      expect(result).toContain('export type DrsArticleUpdate = Partial<Omit<DrsArticle, "slug">> & Required<Pick<DrsArticle, "id">>;');
+
+      const withoutHidden = new TypeGenerator({ ...config, omitHiddenFields: true }).generateType(collection);
+
+      expect(withoutHidden).toContain('export type DrsArticleCreate = Omit<DrsArticle, "id" | "slug" | "legacy_id">;');
+      expect(withoutHidden).toContain('export type DrsArticleUpdate = Partial<Omit<DrsArticle, "slug" | "legacy_id">> & Required<Pick<DrsArticle, "id">>;');
+    });
+
+    it('should generate a union of junction rows for M2A fields', async () => {
+      const m2aRelations: DirectusRelation[] = [
+        {
+          collection: 'pages_blocks',
+          field: 'pages_id',
+          related_collection: 'pages',
+          meta: { many_collection: 'pages_blocks', many_field: 'pages_id', one_collection: 'pages', one_field: 'blocks', one_collection_field: null, one_allowed_collections: null, junction_field: 'item', sort_field: null },
+        },
+        {
+          collection: 'pages_blocks',
+          field: 'item',
+          related_collection: null,
+          meta: { many_collection: 'pages_blocks', many_field: 'item', one_collection: null, one_field: null, one_collection_field: 'collection', one_allowed_collections: ['block_hero', 'block_text'], junction_field: 'pages_id', sort_field: null },
+        },
+      ];
+      const collection: DirectusCollectionWithFields = {
+        collection: 'pages',
+        fields: [
+          {
+            field: 'blocks',
+            type: 'alias',
+            meta: { id: 1, collection: 'pages', field: 'blocks', special: ['m2a'], interface: 'list-m2a', required: false, readonly: false, hidden: false },
+          },
+        ],
+      };
+      generator = new TypeGenerator({ ...config, relationMode: 'expanded' }, new MemoryClient({ collections: [], relations: m2aRelations }));
+      await generator.setRelationships();
+
+      const result = generator.generateType(collection);
+
+      expect(result).toContain('blocks?: Array<{ collection: "block_hero"; item: DrsBlockHero } | { collection: "block_text"; item: DrsBlockText }>');
+    });
+
+    it('should generate junction rows holding the related item for M2M fields', async () => {
+      const m2mRelations: DirectusRelation[] = [
+        {
+          collection: 'articles_tags',
+          field: 'articles_id',
+          related_collection: 'articles',
+          meta: { many_collection: 'articles_tags', many_field: 'articles_id', one_collection: 'articles', one_field: 'tags', one_collection_field: null, one_allowed_collections: null, junction_field: 'tags_id', sort_field: null },
+        },
+        {
+          collection: 'articles_tags',
+          field: 'tags_id',
+          related_collection: 'tags',
+          meta: { many_collection: 'articles_tags', many_field: 'tags_id', one_collection: 'tags', one_field: null, one_collection_field: null, one_allowed_collections: null, junction_field: 'articles_id', sort_field: null },
+        },
+      ];
+      const collection: DirectusCollectionWithFields = {
+        collection: 'articles',
+        fields: [
+          {
+            field: 'tags',
+            type: 'alias',
+            meta: { id: 1, collection: 'articles', field: 'tags', special: ['m2m'], interface: 'list-m2m', required: false, readonly: false, hidden: false },
+          },
+        ],
+      };
+      generator = new TypeGenerator({ ...config, relationMode: 'expanded' }, new MemoryClient({ collections: [], relations: m2mRelations }));
+      await generator.setRelationships();
+
+      const result = generator.generateType(collection);
+
+      expect(result).toContain('tags?: Array<{ tags_id: DrsTag }>');
+    });
+
+    it('should flatten M2M fields to the related items when m2mMode is flatten', async () => {
+      const m2mRelations: DirectusRelation[] = [
+        {
+          collection: 'articles_tags',
+          field: 'articles_id',
+          related_collection: 'articles',
+          meta: { many_collection: 'articles_tags', many_field: 'articles_id', one_collection: 'articles', one_field: 'tags', one_collection_field: null, one_allowed_collections: null, junction_field: 'tags_id', sort_field: null },
+        },
+        {
+          collection: 'articles_tags',
+          field: 'tags_id',
+          related_collection: 'tags',
+          meta: { many_collection: 'articles_tags', many_field: 'tags_id', one_collection: 'tags', one_field: null, one_collection_field: null, one_allowed_collections: null, junction_field: 'articles_id', sort_field: null },
+        },
+      ];
+      const collection: DirectusCollectionWithFields = {
+        collection: 'articles',
+        fields: [
+          {
+            field: 'tags',
+            type: 'alias',
+            meta: { id: 1, collection: 'articles', field: 'tags', special: ['m2m'], interface: 'list-m2m', required: false, readonly: false, hidden: false },
+          },
+        ],
+      };
+      generator = new TypeGenerator({ ...config, m2mMode: 'flatten', relationMode: 'expanded' }, new MemoryClient({ collections: [], relations: m2mRelations }));
+      await generator.setRelationships();
+
+      const result = generator.generateType(collection);
+
+      expect(result).toContain('tags?: DrsTag[]');
+    });
+
+    it('should accept a primary key or the expanded item for relation fields by default', async () => {
+      const relations: DirectusRelation[] = [
+        {
+          collection: 'comments',
+          field: 'article',
+          related_collection: 'articles',
+          meta: { many_collection: 'comments', many_field: 'article', one_collection: 'articles', one_field: 'comments', one_collection_field: null, one_allowed_collections: null, junction_field: null, sort_field: null },
+        },
+      ];
+      const collection: DirectusCollectionWithFields = {
+        collection: 'articles',
+        fields: [
+          {
+            field: 'author',
+            type: 'integer',
+            schema: { name: 'author', table: 'articles', data_type: 'integer', is_nullable: true, is_unique: false, is_primary_key: false, has_auto_increment: false, foreign_key_table: 'authors' },
+            meta: { id: 1, collection: 'articles', field: 'author', special: ['m2o'], interface: 'select-dropdown-m2o', required: false, readonly: false, hidden: false },
+          },
+          {
+            field: 'comments',
+            type: 'alias',
+            meta: { id: 2, collection: 'articles', field: 'comments', special: ['o2m'], interface: 'list-o2m', required: false, readonly: false, hidden: false },
+          },
+        ],
+      };
+      const comments: DirectusCollectionWithFields = {
+        collection: 'comments',
+        fields: [
+          {
+            field: 'id',
+            type: 'uuid',
+            schema: { name: 'id', table: 'comments', data_type: 'uuid', is_nullable: false, is_unique: true, is_primary_key: true, has_auto_increment: false },
+            meta: { id: 3, collection: 'comments', field: 'id', required: false, readonly: true, hidden: true },
+          },
+        ],
+      };
+      const client = new MemoryClient({ collections: [comments], relations });
+      generator = new TypeGenerator(config, client);
+      await generator.setRelationships();
+
+      const result = generator.generateType(collection);
+
+      expect(result).toContain('author?: number | DrsAuthor');
+      expect(result).toContain('comments?: Array<string | DrsComment>');
+    });
+
+    it('should type relation fields as primary keys when relationMode is id-only', async () => {
+      const relations: DirectusRelation[] = [
+        {
+          collection: 'comments',
+          field: 'article',
+          related_collection: 'articles',
+          meta: { many_collection: 'comments', many_field: 'article', one_collection: 'articles', one_field: 'comments', one_collection_field: null, one_allowed_collections: null, junction_field: null, sort_field: null },
+        },
+      ];
+      const collection: DirectusCollectionWithFields = {
+        collection: 'articles',
+        fields: [
+          {
+            field: 'author',
+            type: 'integer',
+            schema: { name: 'author', table: 'articles', data_type: 'integer', is_nullable: true, is_unique: false, is_primary_key: false, has_auto_increment: false, foreign_key_table: 'authors' },
+            meta: { id: 1, collection: 'articles', field: 'author', special: ['m2o'], interface: 'select-dropdown-m2o', required: false, readonly: false, hidden: false },
+          },
+          {
+            field: 'comments',
+            type: 'alias',
+            meta: { id: 2, collection: 'articles', field: 'comments', special: ['o2m'], interface: 'list-o2m', required: false, readonly: false, hidden: false },
+          },
+        ],
+      };
+      const comments: DirectusCollectionWithFields = {
+        collection: 'comments',
+        fields: [
+          {
+            field: 'id',
+            type: 'uuid',
+            schema: { name: 'id', table: 'comments', data_type: 'uuid', is_nullable: false, is_unique: true, is_primary_key: true, has_auto_increment: false },
+            meta: { id: 3, collection: 'comments', field: 'id', required: false, readonly: true, hidden: true },
+          },
+        ],
+      };
+      const client = new MemoryClient({ collections: [comments], relations });
+      generator = new TypeGenerator({ ...config, relationMode: 'id-only' }, client);
+      await generator.setRelationships();
+
+      const result = generator.generateType(collection);
+
+      expect(result).toContain('author?: number;');
+      expect(result).toContain('comments?: string[]');      expect(generator.getReferences('articles')).toEqual({ collections: [], files: false });
+    });
+
+    it('should type relation fields as expanded items when relationMode is expanded', async () => {
+      const relations: DirectusRelation[] = [
+        {
+          collection: 'comments',
+          field: 'article',
+          related_collection: 'articles',
+          meta: { many_collection: 'comments', many_field: 'article', one_collection: 'articles', one_field: 'comments', one_collection_field: null, one_allowed_collections: null, junction_field: null, sort_field: null },
+        },
+      ];
+      const collection: DirectusCollectionWithFields = {
+        collection: 'articles',
+        fields: [
+          {
+            field: 'author',
+            type: 'integer',
+            schema: { name: 'author', table: 'articles', data_type: 'integer', is_nullable: true, is_unique: false, is_primary_key: false, has_auto_increment: false, foreign_key_table: 'authors' },
+            meta: { id: 1, collection: 'articles', field: 'author', special: ['m2o'], interface: 'select-dropdown-m2o', required: false, readonly: false, hidden: false },
+          },
+          {
+            field: 'comments',
+            type: 'alias',
+            meta: { id: 2, collection: 'articles', field: 'comments', special: ['o2m'], interface: 'list-o2m', required: false, readonly: false, hidden: false },
+          },
+        ],
+      };
+      const comments: DirectusCollectionWithFields = {
+        collection: 'comments',
+        fields: [
+          {
+            field: 'id',
+            type: 'uuid',
+            schema: { name: 'id', table: 'comments', data_type: 'uuid', is_nullable: false, is_unique: true, is_primary_key: true, has_auto_increment: false },
+            meta: { id: 3, collection: 'comments', field: 'id', required: false, readonly: true, hidden: true },
+          },
+        ],
+      };
+      const client = new MemoryClient({ collections: [comments], relations });
+      generator = new TypeGenerator({ ...config, relationMode: 'expanded' }, client);
+      await generator.setRelationships();
+
+      const result = generator.generateType(collection);
+
+      expect(result).toContain('author?: DrsAuthor;');
+      expect(result).toContain('comments?: DrsComment[]');
+      expect(generator.getReferences('articles')).toEqual({ collections: ['authors', 'comments'], files: false });
+    });
+
+    it('should name types and related types after the naming strategy', () => {
+      const collection: DirectusCollectionWithFields = {
+        collection: 'blog_posts',
+        fields: [
+          {
+            field: 'id',
+            type: 'integer',
+            schema: { name: 'id', table: 'blog_posts', data_type: 'integer', is_nullable: false, is_unique: true, is_primary_key: true, has_auto_increment: true },
+            meta: { id: 1, collection: 'blog_posts', field: 'id', required: false, readonly: true, hidden: true },
+          },
+          {
+            field: 'author',
+            type: 'integer',
+            schema: { name: 'author', table: 'blog_posts', data_type: 'integer', is_nullable: true, is_unique: false, is_primary_key: false, has_auto_increment: false, foreign_key_table: 'people' },
+            meta: { id: 2, collection: 'blog_posts', field: 'author', special: ['m2o'], interface: 'select-dropdown-m2o', required: false, readonly: false, hidden: false },
+          },
+          {
+            field: 'cover',
+            type: 'uuid',
+            schema: { name: 'cover', table: 'blog_posts', data_type: 'uuid', is_nullable: true, is_unique: false, is_primary_key: false, has_auto_increment: false, foreign_key_table: 'directus_files' },
+            meta: { id: 3, collection: 'blog_posts', field: 'cover', special: ['file'], interface: 'file-image', required: false, readonly: false, hidden: false },
+          },
+        ],
+      };
+      generator = new TypeGenerator({
+        ...config,
+        relationMode: 'expanded',
+        naming: { typePrefix: 'I', updateSuffix: 'Patch', overrides: { blog_posts: 'Post', people: 'Person' } },
+      });
+
+      const result = generator.generateType(collection);
+
+      expect(result).toContain('export interface IPost {');
+      expect(result).toContain('author?: IPerson;');
+      expect(result).toContain('cover?: IImageFile;');
+      expect(result).toContain('export type IPostCreate = Omit<IPost, "id">;');
+      expect(result).toContain('export type IPostPatch = Partial<IPost> & Required<Pick<IPost, "id">>;');
+      expect(result).toContain('export type IPostGet = IPost;');
+      expect(generator.getReferences('blog_posts')).toEqual({ collections: ['people'], files: true });
+    });
+  });
+
+
+  describe('generateRoleTypes', () => {
+    it('should pick the fields each role may read, create and update', () => {
+      const collection: DirectusCollectionWithFields = {
+        collection: 'articles',
+        fields: [
+          { field: 'title', type: 'string' },
+          { field: 'status', type: 'string' },
+          { field: 'user_created', type: 'uuid' },
+        ],
+      };
+
+      const result = generator.generateRoleTypes(collection, [
+        { role: 'Editor', read: ['*'], create: ['title', 'user_created'], update: [] },
+        { role: 'Public', read: ['title'] },
+      ]);
+
+      expect(result).toBe([
+        'export type DrsArticle_Editor = Pick<DrsArticle, "id" | "title" | "status" | "user_created">;',
+        'export type DrsArticleCreate_Editor = Pick<DrsArticleCreate, "title">;',
+        'export type DrsArticleUpdate_Editor = Pick<DrsArticleUpdate, "id">;',
+        'export type DrsArticle_Public = Pick<DrsArticle, "title">;',
+      ].join('\n\n'));
+    });
+  });
+
+  describe('generateQueryTypes', () => {
+    const relations: DirectusRelation[] = [
+      {
+        collection: 'articles',
+        field: 'author',
+        related_collection: 'directus_users',
+        meta: { many_collection: 'articles', many_field: 'author', one_collection: 'directus_users', one_field: null, one_collection_field: null, one_allowed_collections: null, junction_field: null, sort_field: null },
+      },
+      {
+        collection: 'articles_tags',
+        field: 'articles_id',
+        related_collection: 'articles',
+        meta: { many_collection: 'articles_tags', many_field: 'articles_id', one_collection: 'articles', one_field: 'tags', one_collection_field: null, one_allowed_collections: null, junction_field: 'tags_id', sort_field: null },
+      },
+      {
+        collection: 'articles_tags',
+        field: 'tags_id',
+        related_collection: 'tags',
+        meta: { many_collection: 'articles_tags', many_field: 'tags_id', one_collection: 'tags', one_field: null, one_collection_field: null, one_allowed_collections: null, junction_field: 'articles_id', sort_field: null },
+      },
+    ];
+    const articles: DirectusCollectionWithFields = {
+      collection: 'articles',
+      fields: [
+        {
+          field: 'title',
+          type: 'string',
+          schema: { name: 'title', table: 'articles', data_type: 'character varying', is_nullable: true, is_unique: false, is_primary_key: false, has_auto_increment: false },
+          meta: { id: 1, collection: 'articles', field: 'title', required: false, readonly: false, hidden: false },
+        },
+        {
+          field: 'author',
+          type: 'uuid',
+          schema: { name: 'author', table: 'articles', data_type: 'uuid', is_nullable: true, is_unique: false, is_primary_key: false, has_auto_increment: false, foreign_key_table: 'directus_users' },
+          meta: { id: 2, collection: 'articles', field: 'author', special: ['m2o'], interface: 'select-dropdown-m2o', required: false, readonly: false, hidden: false },
+        },
+        {
+          field: 'tags',
+          type: 'alias',
+          meta: { id: 3, collection: 'articles', field: 'tags', special: ['m2m'], interface: 'list-m2m', required: false, readonly: false, hidden: false },
+        },
+      ],
+    };
+    const articlesTags: DirectusCollectionWithFields = {
+      collection: 'articles_tags',
+      fields: [
+        {
+          field: 'id',
+          type: 'integer',
+          schema: { name: 'id', table: 'articles_tags', data_type: 'integer', is_nullable: false, is_unique: true, is_primary_key: true, has_auto_increment: true },
+          meta: { id: 4, collection: 'articles_tags', field: 'id', required: false, readonly: true, hidden: true },
+        },
+      ],
+    };
+
+    it('should map collection names to the generated interfaces', async () => {
+      generator = new TypeGenerator(config, new MemoryClient({ collections: [articlesTags], relations }));
+      await generator.setRelationships();
+
+      const result = generator.generateQueryTypes([articles, articlesTags]);
+
+      expect(result).toContain("import type { DrsArticle } from './articles';");
+      expect(result).toContain("import type { DrsArticlesTag } from './articles-tags';");
+      expect(result).toContain('  articles: DrsArticle;\n  articles_tags: DrsArticlesTag;');
+      expect(result).toContain('export type DrsQueryResult<C extends keyof DrsCollections, F extends readonly string[] = [\'*\']> = DrsSelect<C, F[number]>;');
+    });
+
+    it('should import the interfaces from the types file in the split layout', async () => {
+      generator = new TypeGenerator({ ...config, outputLayout: 'schemas-and-types-split' }, new MemoryClient({ collections: [articlesTags], relations }));
+      await generator.setRelationships();
+
+      const result = generator.generateQueryTypes([articles, articlesTags]);
+
+      expect(result).toContain("import type { DrsArticle, DrsArticlesTag } from './types';");
+    });
+
+    it('should describe relations the way the API returns them', async () => {
+      generator = new TypeGenerator(config, new MemoryClient({ collections: [articlesTags], relations }));
+      await generator.setRelationships();
+
+      const result = generator.generateQueryTypes([articles, articlesTags]);
+
+      expect(result).toContain('    author: { collection: "directus_users"; key: string; many: false };');
+      expect(result).toContain('    tags: { collection: "articles_tags"; key: number; many: true };');
+      expect(result).not.toContain('    title:');
+      expect(result).toContain('  articles_tags: {};');
+    });
+
+    it('should describe junction foreign keys without the m2o special as relations', async () => {
+      const foreignKey = (field: string): DirectusField => ({
+        field,
+        type: 'integer',
+        schema: { name: field, table: 'articles_tags', data_type: 'integer', is_nullable: true, is_unique: false, is_primary_key: false, has_auto_increment: false },
+        meta: { id: 5, collection: 'articles_tags', field, required: false, readonly: false, hidden: true },
+      });
+      const junction = { ...articlesTags, fields: [...articlesTags.fields, foreignKey('articles_id'), foreignKey('tags_id')] };
+      generator = new TypeGenerator(config, new MemoryClient({ collections: [junction], relations }));
+      await generator.setRelationships();
+
+      const result = generator.generateQueryTypes([articles, junction]);
+
+      expect(result).toContain('    articles_id: { collection: "articles"; key: number; many: false };');
+      expect(result).toContain('    tags_id: { collection: "tags"; key: number; many: false };');
+    });
+
+    it('should name the helper types with the naming strategy', async () => {
+      generator = new TypeGenerator({ ...config, naming: { typePrefix: 'T' } }, new MemoryClient({ collections: [articlesTags], relations }));
+      await generator.setRelationships();
+
+      const result = generator.generateQueryTypes([articles, articlesTags]);
+
+      expect(result).toContain('type TSelect<C extends keyof TCollections, P extends string> = {');
+      expect(result).toContain('export type TQueryResult<C extends keyof TCollections, F extends readonly string[] = [\'*\']> = TSelect<C, F[number]>;');
+      expect(result).not.toContain('Drs');
+    });
+  });
+
+  describe('generateFilterTypes', () => {
+    const relations: DirectusRelation[] = [
+      {
+        collection: 'comments',
+        field: 'article',
+        related_collection: 'articles',
+        meta: { many_collection: 'comments', many_field: 'article', one_collection: 'articles', one_field: 'comments', one_collection_field: null, one_allowed_collections: null, junction_field: null, sort_field: null },
+      },
+    ];
+    const articles: DirectusCollectionWithFields = {
+      collection: 'articles',
+      fields: [
+        {
+          field: 'title',
+          type: 'string',
+          schema: { name: 'title', table: 'articles', data_type: 'character varying', is_nullable: true, is_unique: false, is_primary_key: false, has_auto_increment: false },
+          meta: { id: 1, collection: 'articles', field: 'title', required: false, readonly: false, hidden: false },
+        },
+        {
+          field: 'published_at',
+          type: 'timestamp',
+          schema: { name: 'published_at', table: 'articles', data_type: 'timestamp', is_nullable: true, is_unique: false, is_primary_key: false, has_auto_increment: false },
+          meta: { id: 2, collection: 'articles', field: 'published_at', required: false, readonly: false, hidden: false },
+        },
+        {
+          field: 'author',
+          type: 'integer',
+          schema: { name: 'author', table: 'articles', data_type: 'integer', is_nullable: true, is_unique: false, is_primary_key: false, has_auto_increment: false, foreign_key_table: 'authors' },
+          meta: { id: 3, collection: 'articles', field: 'author', special: ['m2o'], interface: 'select-dropdown-m2o', required: false, readonly: false, hidden: false },
+        },
+        {
+          field: 'comments',
+          type: 'alias',
+          meta: { id: 4, collection: 'articles', field: 'comments', special: ['o2m'], interface: 'list-o2m', required: false, readonly: false, hidden: false },
+        },
+      ],
+    };
+    const comments: DirectusCollectionWithFields = {
+      collection: 'comments',
+      fields: [
+        {
+          field: 'id',
+          type: 'uuid',
+          schema: { name: 'id', table: 'comments', data_type: 'uuid', is_nullable: false, is_unique: true, is_primary_key: true, has_auto_increment: false },
+          meta: { id: 5, collection: 'comments', field: 'id', required: false, readonly: true, hidden: true },
+        },
+        {
+          field: 'article',
+          type: 'integer',
+          schema: { name: 'article', table: 'comments', data_type: 'integer', is_nullable: true, is_unique: false, is_primary_key: false, has_auto_increment: false, foreign_key_table: 'articles' },
+          meta: { id: 6, collection: 'comments', field: 'article', special: ['m2o'], interface: 'select-dropdown-m2o', required: false, readonly: false, hidden: false },
+        },
+      ],
+    };
+
+    it('should type each field with the operators of its type', async () => {
+      generator = new TypeGenerator(config, new MemoryClient({ collections: [comments], relations }));
+      await generator.setRelationships();
+
+      const result = generator.generateFilterTypes([articles, comments]);
+
+      expect(result).toContain('export type DrsArticleFilter = {');
+      expect(result).toContain('  title?: DrsStringFilter;');
+      expect(result).toContain('  published_at?: DrsDateFilter;');
+      expect(result).toContain('  _and?: DrsArticleFilter[];');
+      expect(result).toContain('  _or?: DrsArticleFilter[];');
+      expect(result).toContain('_between?: [T, T];');
+    });
+
+    it('should type decimal fields with numbers or numeric strings', () => {
+      const products: DirectusCollectionWithFields = {
+        collection: 'products',
+        fields: [
+          {
+            field: 'price',
+            type: 'decimal',
+            schema: { name: 'price', table: 'products', data_type: 'numeric', is_nullable: true, is_unique: false, is_primary_key: false, has_auto_increment: false, numeric_precision: 10, numeric_scale: 2 },
+            meta: { id: 1, collection: 'products', field: 'price', required: false, readonly: false, hidden: false },
+          },
+        ],
+      };
+
+      const result = generator.generateFilterTypes([products]);
+
+      expect(result).toContain('  price?: DrsNumericStringFilter;');
+      expect(result).toContain('export type DrsNumericStringFilter = DrsRangeFilter<number | string>;');
+    });
+
+    it('should filter relations by key, related fields or _some/_none', async () => {
+      generator = new TypeGenerator(config, new MemoryClient({ collections: [comments], relations }));
+      await generator.setRelationships();
+
+      const result = generator.generateFilterTypes([articles, comments]);
+
+      expect(result).toContain('  author?: DrsFieldFilter<number>;');
+      expect(result).toContain('  comments?: DrsRelationalFilter<DrsCommentFilter>;');
+      expect(result).toContain('  article?: DrsFieldFilter<number> | DrsArticleFilter;');
+      expect(result).toContain('  comments?: DrsDeepQuery<DrsCommentFilter, DrsCommentSort> & DrsCommentDeep;');
+    });
+
+    it('should generate the sort fields and query object of a collection', async () => {
+      generator = new TypeGenerator(config, new MemoryClient({ collections: [comments], relations }));
+      await generator.setRelationships();
+
+      const result = generator.generateFilterTypes([articles, comments]);
+
+      expect(result).toContain('export type DrsArticleSort = "title" | "-title" | "published_at" | "-published_at" | "author" | "-author";');
+      expect(result).toContain('export type DrsArticleQuery = {');
+      expect(result).toContain('  filter?: DrsArticleFilter;');
+      expect(result).toContain('  sort?: DrsArticleSort[];');
+      expect(result).toContain('  deep?: DrsArticleDeep;');
+    });
+
+    it('should name filter types after the naming strategy', async () => {
+      generator = new TypeGenerator({ ...config, naming: { typePrefix: 'T' } }, new MemoryClient({ collections: [comments], relations }));
+      await generator.setRelationships();
+
+      const result = generator.generateFilterTypes([articles, comments]);
+
+      expect(result).toContain('export type TStringFilter = TFieldFilter<string> & {');
+      expect(result).toContain('  title?: TStringFilter;');
+      expect(result).toContain('  comments?: TRelationalFilter<TCommentFilter>;');
+      expect(result).toContain('  comments?: TDeepQuery<TCommentFilter, TCommentSort> & TCommentDeep;');
+      expect(result).toContain('export type TArticleQuery = {');
+      expect(result).not.toContain('Drs');
+    });
   });
 
-});
\ No newline at end of file
+  describe('generateDirectusSchema', () => {
+    it('should map collections to lists of items and singletons to one item', () => {
+      const articles: DirectusCollectionWithFields = {
+        collection: 'articles',
+        meta: { collection: 'articles', hidden: false, singleton: false, archive_app_filter: true },
+        fields: [],
+      };
+      const settings: DirectusCollectionWithFields = {
+        collection: 'site_settings',
+        meta: { collection: 'site_settings', hidden: false, singleton: true, archive_app_filter: true },
+        fields: [],
+      };
+      const users: DirectusCollectionWithFields = { collection: 'directus_users', fields: [] };
+
+      const result = generator.generateDirectusSchema([articles, settings, users]);
+
+      expect(result).toContain("import type { DrsArticle } from './articles';");
+      expect(result).toContain("import type { DrsDirectusUser } from './system/directus-users';");
+      expect(result).toContain('export interface DrsDirectusSchema {');
+      expect(result).toContain('  articles: DrsArticle[];');
+      expect(result).toContain('  site_settings: DrsSiteSetting;');
+      expect(result).toContain('  directus_users: DrsDirectusUser[];');
+    });
+
+    it('should name the schema type with the naming strategy', () => {
+      generator = new TypeGenerator({ ...config, naming: { typePrefix: 'T' } });
+
+      const result = generator.generateDirectusSchema([{ collection: 'articles', fields: [] }]);
+
+      expect(result).toContain('export interface TDirectusSchema {');
+      expect(result).not.toContain('Drs');
+    });
+  });
+
+  describe('generateTypeFile', () => {
+    it('should import the file types only when asked to', () => {
+      const types = [{ collectionName: 'articles', type: 'export interface DrsArticle {\n  image?: DrsImageFile;\n}', references: { collections: [], files: true } }];
+
+      expect(generator.generateTypeFile(types)).toBe("import type { DrsFile, DrsImageFile } from './file-schemas';\n\nexport interface DrsArticle {\n  image?: DrsImageFile;\n}");
+      expect(generator.generateTypeFile(types, false)).toBe('export interface DrsArticle {\n  image?: DrsImageFile;\n}');
+    });
+  });
+});
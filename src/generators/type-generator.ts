@@ -1,20 +1,27 @@
-import { DirectusCollectionWithFields, DirectusField, ZodirectusConfig, GeneratedSchema } from '../types';
+import { DirectusCollectionWithFields, DirectusField, DirectusRelation, ZodirectusConfig, GeneratedSchema, SchemaSource, ManyToAnyRelation, ManyToManyRelation, SchemaReferences, CollectionAccess } from '../types';
+import { DefaultValueUtils, FileWriterUtils, RelationshipUtils, PrimaryKeyUtils, NamingUtils, ImportUtils, PermissionUtils, FieldUtils } from '../lib';
 
 /**
  * TypeScript Type Generator for Directus collections
  */
 export class TypeGenerator {
   private config: ZodirectusConfig;
-  private relationships: any[] = [];
-  private client: any;
+  private relationships: DirectusRelation[] = [];
+  private primaryKeys = new Map<string, DirectusField>();
+  private client?: SchemaSource;
+  private naming: NamingUtils;
+  private references = new Map<string, SchemaReferences>();
+  private currentReferences?: SchemaReferences;
 
-  constructor(config: ZodirectusConfig, client?: any) {
+  constructor(config: ZodirectusConfig, client?: SchemaSource) {
     this.config = config;
     this.client = client;
+    this.naming = new NamingUtils(config.naming);
   }
 
   /**
-   * Set relationships data for proper M2M field resolution
+   * Set relationships data for proper M2M field resolution, and the primary keys
+   * that unexpanded relation fields contain
    */
   async setRelationships(): Promise<void> {
     if (this.client) {
@@ -25,6 +32,13 @@ export class TypeGenerator {
         console.warn('Could not load relationships:', error);
         this.relationships = [];
       }
+
+      try {
+        this.primaryKeys = PrimaryKeyUtils.getPrimaryKeyFields(await this.client.getFields());
+      } catch (error) {
+        console.warn('Could not load primary keys:', error);
+        this.primaryKeys = new Map();
+      }
     }
   }
 
@@ -32,12 +46,34 @@ export class TypeGenerator {
    * Generate TypeScript type for a collection
    */
   generateType(collection: DirectusCollectionWithFields): string {
-    const collectionName = this.toPascalCase(collection.collection);
-    const singularName = this.toSingular(collectionName);
-    const typeName = `Drs${singularName}`;
+    this.currentReferences = { collections: [], files: false };
+
+    try {
+      return this.renderType(collection);
+    } finally {
+      this.references.set(collection.collection, {
+        ...this.currentReferences,
+        collections: this.currentReferences.collections.filter(name => name !== collection.collection),
+      });
+      this.currentReferences = undefined;
+    }
+  }
+
+  /**
+   * Get the collections and file types the last generated type of a collection refers to
+   */
+  getReferences(collectionName: string): SchemaReferences {
+    return this.references.get(collectionName) ?? { collections: [], files: false };
+  }
+
+  /**
+   * Render the base, Create, Update and Get types of a collection
+   */
+  private renderType(collection: DirectusCollectionWithFields): string {
+    const typeName = this.naming.getTypeName(collection.collection);
     
     const filteredFields = collection.fields
-      .filter(field => !this.isDividerField(field)); // Include all fields except dividers
+      .filter(field => !FieldUtils.isPresentationField(field)); // Dividers, notices and groups have no value
     
     // Check if ID field exists, if not add it
     const hasIdField = filteredFields.some(field => field.field === 'id');
@@ -55,22 +91,412 @@ export class TypeGenerator {
 }`;
 
     // Generate Create interface using Omit utility type
-    const createTypeName = `${typeName}Create`;
+    const createTypeName = this.naming.getTypeName(collection.collection, 'create');
     const fieldsToOmit = this.getFieldsToOmitForCreate(filteredFields, hasIdField);
-    const omitFieldsString = fieldsToOmit.map(field => `"${field}"`).join(' | ');
-    const createInterface = `export type ${createTypeName} = Omit<${typeName}, ${omitFieldsString}>;`;
+    // Fields with a database default may be left out of the payload
+    const defaultedFields = filteredFields
+      .filter(field => !fieldsToOmit.includes(field.field) && DefaultValueUtils.hasDefaultValue(field))
+      .map(field => `"${field.field}"`);
+    const omitFieldsString = [...fieldsToOmit.map(field => `"${field}"`), ...defaultedFields].join(' | ');
+    const createInterface = defaultedFields.length > 0
+      ? `export type ${createTypeName} = Omit<${typeName}, ${omitFieldsString}> & Partial<Pick<${typeName}, ${defaultedFields.join(' | ')}>>;`
+      : `export type ${createTypeName} = Omit<${typeName}, ${omitFieldsString}>;`;
 
-    // Generate Update interface using Partial utility type
-    const updateTypeName = `${typeName}Update`;
-    const updateInterface = `export type ${updateTypeName} = Partial<${typeName}> & Required<Pick<${typeName}, "id">>;`;
+    // Generate Update interface using Partial utility type, without the fields the API won't update
+    const updateTypeName = this.naming.getTypeName(collection.collection, 'update');
+    const fieldsToOmitForUpdate = FieldUtils.getFieldsToOmitForUpdate(filteredFields, this.config.omitHiddenFields);
+    const updateBase = fieldsToOmitForUpdate.length > 0
+      ? `Omit<${typeName}, ${fieldsToOmitForUpdate.map(field => `"${field}"`).join(' | ')}>`
+      : typeName;
+    const updateInterface = `export type ${updateTypeName} = Partial<${updateBase}> & Required<Pick<${typeName}, "id">>;`;
 
     // Generate Get interface (same as base for now)
-    const getTypeName = `${typeName}Get`;
+    const getTypeName = this.naming.getTypeName(collection.collection, 'get');
     const getInterface = `export type ${getTypeName} = ${typeName};`;
 
     return `${baseInterface}\n\n${createInterface}\n\n${updateInterface}\n\n${getInterface}`;
   }
 
+  /**
+   * Generate types holding only the fields each role may read, create and update,
+   * e.g. `DrsArticle_Editor` and `DrsArticleCreate_Public`
+   */
+  generateRoleTypes(collection: DirectusCollectionWithFields, access: CollectionAccess[]): string {
+    const filteredFields = collection.fields.filter(field => !FieldUtils.isPresentationField(field));
+    const hasIdField = filteredFields.some(field => field.field === 'id');
+    const fields = hasIdField ? filteredFields.map(field => field.field) : ['id', ...filteredFields.map(field => field.field)];
+    const fieldsToOmit = this.getFieldsToOmitForCreate(filteredFields, hasIdField);
+    const createFields = fields.filter(field => !fieldsToOmit.includes(field));
+    const fieldsToOmitForUpdate = FieldUtils.getFieldsToOmitForUpdate(filteredFields, this.config.omitHiddenFields);
+    const updateFields = fields.filter(field => !fieldsToOmitForUpdate.includes(field));
+
+    const types: string[] = [];
+    for (const { role, read, create, update } of access) {
+      if (read) {
+        types.push(this.generatePickType(
+          this.naming.getTypeName(collection.collection, undefined, role),
+          this.naming.getTypeName(collection.collection),
+          PermissionUtils.getAllowedFields(read, fields)
+        ));
+      }
+
+      if (create) {
+        types.push(this.generatePickType(
+          this.naming.getTypeName(collection.collection, 'create', role),
+          this.naming.getTypeName(collection.collection, 'create'),
+          PermissionUtils.getAllowedFields(create, createFields)
+        ));
+      }
+
+      // Updates are addressed by id, whether or not the role may change it
+      if (update) {
+        types.push(this.generatePickType(
+          this.naming.getTypeName(collection.collection, 'update', role),
+          this.naming.getTypeName(collection.collection, 'update'),
+          ['id', ...PermissionUtils.getAllowedFields(update, updateFields).filter(field => field !== 'id')]
+        ));
+      }
+    }
+
+    return types.join('\n\n');
+  }
+
+  /**
+   * Generate a type that picks fields from another type of the collection
+   */
+  private generatePickType(typeName: string, sourceTypeName: string, fields: string[]): string {
+    const pickFieldsString = fields.length > 0 ? fields.map(field => `"${field}"`).join(' | ') : 'never';
+    return `export type ${typeName} = Pick<${sourceTypeName}, ${pickFieldsString}>;`;
+  }
+
+  /**
+   * Generate the query-types file: DrsCollections, DrsRelations and DrsQueryResult,
+   * which narrows a collection interface down to a Directus `fields` list.
+   * Relations are described the way the API returns them, so M2M and M2A fields
+   * point at their junction collection.
+   */
+  generateQueryTypes(collections: DirectusCollectionWithFields[]): string {
+    const imports = this.generateTypeImports(collections);
+    const collectionsType = this.naming.getSharedTypeName('Collections');
+    const relationsType = this.naming.getSharedTypeName('Relations');
+    const queryResultType = this.naming.getSharedTypeName('QueryResult');
+    const pathHeadType = this.naming.getSharedTypeName('PathHead');
+    const subPathsType = this.naming.getSharedTypeName('SubPaths');
+    const relationOfType = this.naming.getSharedTypeName('RelationOf');
+    const unexpandedFieldType = this.naming.getSharedTypeName('UnexpandedField');
+    const expandedFieldType = this.naming.getSharedTypeName('ExpandedField');
+    const selectType = this.naming.getSharedTypeName('Select');
+
+    const collectionEntries = collections.map(collection =>
+      `  ${collection.collection}: ${this.getTypeName(collection.collection)};`
+    );
+
+    const relationEntries = collections.map(collection => {
+      const relations = collection.fields
+        .map(field => {
+          const relation = this.getQueryRelation(field);
+          return relation ? `    ${field.field}: ${relation};` : null;
+        })
+        .filter((relation): relation is string => relation !== null);
+
+      return relations.length > 0
+        ? `  ${collection.collection}: {\n${relations.join('\n')}\n  };`
+        : `  ${collection.collection}: {};`;
+    });
+
+    return `${imports.length > 0 ? `${imports.join('\n')}\n\n` : ''}/**
+ * Generated collection interfaces keyed by collection name
+ */
+export interface ${collectionsType} {
+${collectionEntries.join('\n')}
+}
+
+/**
+ * Relation fields of each collection: the collection they point to, the primary key
+ * they hold when not expanded, and whether they hold a list
+ */
+export interface ${relationsType} {
+${relationEntries.join('\n')}
+}
+
+type ${pathHeadType}<P extends string> = P extends \`\${infer Head}.\${string}\` ? Head : P;
+
+type ${subPathsType}<P extends string, K extends string> =
+  P extends \`\${K}.\${infer Rest}\` ? Rest : P extends \`*.\${infer Rest}\` ? Rest : never;
+
+type ${relationOfType}<C extends keyof ${collectionsType}, K> =
+  C extends keyof ${relationsType} ? (K extends keyof ${relationsType}[C] ? ${relationsType}[C][K] : never) : never;
+
+type ${unexpandedFieldType}<C extends keyof ${collectionsType}, K extends keyof ${collectionsType}[C]> =
+  [${relationOfType}<C, K>] extends [never]
+    ? ${collectionsType}[C][K]
+    : ${relationOfType}<C, K> extends { key: infer Key; many: true }
+      ? Key[]
+      : ${relationOfType}<C, K> extends { key: infer Key }
+        ? Key
+        : never;
+
+type ${expandedFieldType}<C extends keyof ${collectionsType}, K extends keyof ${collectionsType}[C], P extends string> =
+  [${relationOfType}<C, K>] extends [never]
+    ? ${collectionsType}[C][K]
+    : ${relationOfType}<C, K> extends { collection: infer Related; many: infer Many }
+      ? Related extends keyof ${collectionsType}
+        ? Many extends true ? Array<${selectType}<Related, P>> : ${selectType}<Related, P>
+        : ${collectionsType}[C][K]
+      : ${collectionsType}[C][K];
+
+type ${selectType}<C extends keyof ${collectionsType}, P extends string> = {
+  [K in keyof ${collectionsType}[C] as K extends ${pathHeadType}<P> ? K : '*' extends ${pathHeadType}<P> ? K : never]:
+    [${subPathsType}<P, K & string>] extends [never]
+      ? ${unexpandedFieldType}<C, K>
+      : ${expandedFieldType}<C, K, ${subPathsType}<P, K & string>>;
+};
+
+/**
+ * Result of reading a collection with a \`fields\` list, e.g.
+ * ${queryResultType}<'articles', ['title', 'author.name']>. Relations that are not
+ * expanded come back as primary keys.
+ */
+export type ${queryResultType}<C extends keyof ${collectionsType}, F extends readonly string[] = ['*']> = ${selectType}<C, F[number]>;
+`;
+  }
+
+  /**
+   * Generate the root schema type of the Directus SDK, for `createDirectus<DrsDirectusSchema>(url)`.
+   * Singleton collections hold a single item, all other collections a list of items.
+   */
+  generateDirectusSchema(collections: DirectusCollectionWithFields[]): string {
+    const imports = this.generateTypeImports(collections);
+    const schemaType = this.naming.getSharedTypeName('DirectusSchema');
+    const entries = collections.map(collection => {
+      const typeName = this.getTypeName(collection.collection);
+      return `  ${collection.collection}: ${collection.meta?.singleton ? typeName : `${typeName}[]`};`;
+    });
+
+    return `${imports.length > 0 ? `${imports.join('\n')}\n\n` : ''}/**
+ * Schema for the Directus SDK: \`createDirectus<${schemaType}>(url)\`
+ */
+export interface ${schemaType} {
+${entries.join('\n')}
+}
+`;
+  }
+
+  /**
+   * Import the generated interface of each collection from its file
+   */
+  private generateTypeImports(collections: DirectusCollectionWithFields[]): string[] {
+    // One import per module, so the single-file and split layouts get a single line
+    const importedNames = new Map<string, string[]>();
+    for (const collection of collections) {
+      const modulePath = FileWriterUtils.getModulePath(collection.collection, 'type', this.config);
+      importedNames.set(modulePath, [...(importedNames.get(modulePath) || []), this.getTypeName(collection.collection)]);
+    }
+
+    return [...importedNames].map(([modulePath, names]) => `import type { ${names.join(', ')} } from '${modulePath}';`);
+  }
+
+  /**
+   * Generate Drs*Filter, Drs*Sort, Drs*Deep and Drs*Query types describing the Directus
+   * query parameters of each collection. Relation filters and deep queries only nest
+   * into collections that are part of this generation.
+   */
+  generateFilterTypes(collections: DirectusCollectionWithFields[]): string {
+    const collectionNames = new Set(collections.map(collection => collection.collection));
+    const collectionTypes = collections.map(collection => this.generateCollectionFilterTypes(collection, collectionNames));
+    const fieldFilterType = this.naming.getSharedTypeName('FieldFilter');
+    const stringFilterType = this.naming.getSharedTypeName('StringFilter');
+    const rangeFilterType = this.naming.getSharedTypeName('RangeFilter');
+    const numberFilterType = this.naming.getSharedTypeName('NumberFilter');
+    const dateFilterType = this.naming.getSharedTypeName('DateFilter');
+    const numericStringFilterType = this.naming.getSharedTypeName('NumericStringFilter');
+    const relationalFilterType = this.naming.getSharedTypeName('RelationalFilter');
+    const deepQueryType = this.naming.getSharedTypeName('DeepQuery');
+
+    return `/**
+ * Operators available on every field
+ */
+export type ${fieldFilterType}<T> = {
+  _eq?: T;
+  _neq?: T;
+  _in?: T[];
+  _nin?: T[];
+  _null?: boolean;
+  _nnull?: boolean;
+};
+
+export type ${stringFilterType} = ${fieldFilterType}<string> & {
+  _contains?: string;
+  _ncontains?: string;
+  _icontains?: string;
+  _starts_with?: string;
+  _nstarts_with?: string;
+  _istarts_with?: string;
+  _ends_with?: string;
+  _nends_with?: string;
+  _iends_with?: string;
+  _empty?: boolean;
+  _nempty?: boolean;
+};
+
+export type ${rangeFilterType}<T> = ${fieldFilterType}<T> & {
+  _gt?: T;
+  _gte?: T;
+  _lt?: T;
+  _lte?: T;
+  _between?: [T, T];
+  _nbetween?: [T, T];
+};
+
+export type ${numberFilterType} = ${rangeFilterType}<number>;
+
+/**
+ * Dates are compared as ISO strings or dynamic variables such as $NOW
+ */
+export type ${dateFilterType} = ${rangeFilterType}<string>;
+
+/**
+ * Numeric columns typed as strings, such as decimal and bigInteger, compare against numbers or numeric strings
+ */
+export type ${numericStringFilterType} = ${rangeFilterType}<number | string>;
+
+/**
+ * Filter on O2M, M2M and M2A fields; a plain filter matches when some related item matches
+ */
+export type ${relationalFilterType}<F> = F | { _some?: F; _none?: F };
+
+/**
+ * Query parameters for a relation in \`deep\`
+ */
+export type ${deepQueryType}<F, S> = {
+  _filter?: F;
+  _sort?: S[];
+  _limit?: number;
+  _offset?: number;
+  _page?: number;
+  _search?: string;
+};
+
+${collectionTypes.join('\n\n')}
+`;
+  }
+
+  /**
+   * Generate the filter, sort, deep and query types of a collection
+   */
+  private generateCollectionFilterTypes(collection: DirectusCollectionWithFields, collectionNames: Set<string>): string {
+    const name = collection.collection;
+    const fields = collection.fields.filter(field => !FieldUtils.isPresentationField(field));
+    const relationshipUtils = new RelationshipUtils(this.relationships);
+
+    const filters: string[] = [];
+    const deep: string[] = [];
+
+    for (const field of fields) {
+      const target = relationshipUtils.getRelationTarget(field);
+      const targetName = target && collectionNames.has(target.collection) ? target.collection : undefined;
+      const targetFilter = targetName && this.naming.getTypeName(targetName, 'filter');
+
+      if (target?.many) {
+        if (targetFilter) {
+          filters.push(`  ${field.field}?: ${this.naming.getSharedTypeName('RelationalFilter')}<${targetFilter}>;`);
+        }
+      } else if (target) {
+        // Single relations are filtered by key, or by the fields of the related item
+        const keyFilter = `${this.naming.getSharedTypeName('FieldFilter')}<${PrimaryKeyUtils.getTypeScriptType(field)}>`;
+        filters.push(`  ${field.field}?: ${targetFilter ? `${keyFilter} | ${targetFilter}` : keyFilter};`);
+      } else if (field.type !== 'alias') {
+        filters.push(`  ${field.field}?: ${this.getFieldFilterType(field)};`);
+      }
+
+      if (targetName) {
+        const deepQuery = this.naming.getSharedTypeName('DeepQuery');
+        deep.push(`  ${field.field}?: ${deepQuery}<${targetFilter}, ${this.naming.getTypeName(targetName, 'sort')}> & ${this.naming.getTypeName(targetName, 'deep')};`);
+      }
+    }
+
+    const filterType = this.naming.getTypeName(name, 'filter');
+    const sortTypeName = this.naming.getTypeName(name, 'sort');
+    const deepType = this.naming.getTypeName(name, 'deep');
+
+    filters.push(`  _and?: ${filterType}[];`, `  _or?: ${filterType}[];`);
+
+    const sortFields = fields.filter(field => field.type !== 'alias').map(field => field.field);
+    const sortType = sortFields.length > 0
+      ? sortFields.flatMap(field => [JSON.stringify(field), JSON.stringify(`-${field}`)]).join(' | ')
+      : 'string';
+
+    return `export type ${filterType} = {
+${filters.join('\n')}
+};
+
+export type ${sortTypeName} = ${sortType};
+
+export type ${deepType} = {${deep.length > 0 ? `\n${deep.join('\n')}\n` : ''}};
+
+export type ${this.naming.getTypeName(name, 'query')} = {
+  fields?: string[];
+  filter?: ${filterType};
+  search?: string;
+  sort?: ${sortTypeName}[];
+  limit?: number;
+  offset?: number;
+  page?: number;
+  deep?: ${deepType};
+};`;
+  }
+
+  /**
+   * Get the filter type of a non-relational field from its TypeScript type
+   */
+  private getFieldFilterType(field: DirectusField): string {
+    if (this.isDateTimeField(field)) {
+      return this.naming.getSharedTypeName('DateFilter');
+    }
+
+    const tsType = this.getTypeScriptType(field);
+
+    if ((tsType === 'string' || tsType === 'any') && FieldUtils.isNumericField(field)) {
+      return this.naming.getSharedTypeName('NumericStringFilter');
+    }
+
+    if (tsType === 'string') {
+      return this.naming.getSharedTypeName('StringFilter');
+    }
+
+    if (tsType === 'number') {
+      return this.naming.getSharedTypeName('NumberFilter');
+    }
+
+    // Booleans and choices compare against their own values
+    if (tsType === 'boolean' || /^"[^"]*"( \| "[^"]*")*$/.test(tsType)) {
+      return `${this.naming.getSharedTypeName('FieldFilter')}<${tsType}>`;
+    }
+
+    return `${this.naming.getSharedTypeName('FieldFilter')}<any>`;
+  }
+
+  /**
+   * Describe a relation field for DrsRelations, or return null for other fields
+   */
+  private getQueryRelation(field: DirectusField): string | null {
+    const target = new RelationshipUtils(this.relationships).getRelationTarget(field);
+    if (!target) {
+      return null;
+    }
+
+    // Lists hold the primary keys of the target, single relations the foreign key value
+    const key = target.many ? this.getPrimaryKeyType(target.collection) : PrimaryKeyUtils.getTypeScriptType(field);
+    return `{ collection: ${JSON.stringify(target.collection)}; key: ${key}; many: ${target.many} }`;
+  }
+
+  /**
+   * Get the interface name for a collection
+   */
+  private getTypeName(collection: string): string {
+    return this.naming.getTypeName(collection);
+  }
+
   /**
    * Get fields that should be omitted in Create interface
    */
@@ -87,6 +513,13 @@ export class TypeGenerator {
         fieldsToOmit.push(systemField);
       }
     }
+
+    // The API rejects readonly fields, and hidden ones are left out if configured
+    for (const field of fields) {
+      if (!fieldsToOmit.includes(field.field) && FieldUtils.isOmittedFromPayload(field, this.config.omitHiddenFields)) {
+        fieldsToOmit.push(field.field);
+      }
+    }
     
     return fieldsToOmit;
   }
@@ -114,11 +547,11 @@ export class TypeGenerator {
     
     if (interface_ === 'files' || special.includes('files')) {
       // Multiple files - return array of file objects
-      return 'DrsFile[]';
+      return `${this.referenceFileType('File')}[]`;
     } else if (interface_ === 'file-image') {
-      return 'DrsImageFile';
+      return this.wrapRelation(PrimaryKeyUtils.getTypeScriptType(field), () => this.referenceFileType('ImageFile'));
     } else {
-      return 'DrsFile';
+      return this.wrapRelation(PrimaryKeyUtils.getTypeScriptType(field), () => this.referenceFileType('File'));
     }
   }
 
@@ -152,16 +585,16 @@ export class TypeGenerator {
   }
 
   /**
-   * Check if a field is a dropdown_multiple field
+   * Check if a field is a dropdown_multiple or multiple checkboxes field
    */
   private isDropdownMultipleField(field: DirectusField): boolean {
     const interface_ = field.meta?.interface || '';
     
-    return interface_ === 'select-multiple-dropdown';
+    return interface_ === 'select-multiple-dropdown' || interface_ === 'select-multiple-checkbox';
   }
 
   /**
-   * Generate TypeScript type for a dropdown_multiple field
+   * Generate TypeScript type for a dropdown_multiple or multiple checkboxes field
    */
   private generateDropdownMultipleType(field: DirectusField): string {
     const options = field.meta?.options || {};
@@ -322,6 +755,24 @@ export class TypeGenerator {
     }
   }
 
+  /**
+   * Get the TypeScript type given for a field in the `fieldSchemas` config, if any
+   */
+  private getCustomFieldType(field: DirectusField): string | undefined {
+    const mapping = this.config.fieldSchemas?.[`${field.meta?.collection || field.collection}.${field.field}`];
+    return typeof mapping === 'string' ? undefined : mapping?.type;
+  }
+
+  /**
+   * Check if a field is a JSON column edited as JSON code
+   */
+  private isJsonCodeField(field: DirectusField): boolean {
+    const directusType = field.schema?.data_type || field.type;
+    const language = String(field.meta?.options?.language || '').toLowerCase();
+
+    return field.meta?.interface === 'input-code' && language === 'json' && (directusType === 'json' || (field.meta?.special || []).includes('cast-json'));
+  }
+
   /**
    * Check if a field is a repeater field
    */
@@ -412,28 +863,6 @@ export class TypeGenerator {
     }
   }
 
-  /**
-   * Check if a field is a divider field that should be excluded
-   */
-  private isDividerField(field: DirectusField): boolean {
-    // Check if field name starts with 'divider-'
-    if (field.field.startsWith('divider-')) {
-      return true;
-    }
-    
-    // Check if field interface is 'divider'
-    if (field.meta?.interface === 'divider') {
-      return true;
-    }
-    
-    // Check if field type is 'divider'
-    if (field.type === 'divider') {
-      return true;
-    }
-    
-    return false;
-  }
-
   /**
    * Check if a field is a relation field
    */
@@ -533,142 +962,86 @@ export class TypeGenerator {
   }
 
   /**
-   * Get the related collection name for a relation field
+   * Generate an array of junction rows for a M2M field, or of related items when flattened
    */
-  private getRelatedCollectionName(field: DirectusField): string | null {
-    const special = field.meta?.special || [];
-    const options = field.meta?.options || {};
-    
-    // For M2O relations, get the foreign key table
-    if (special.includes('m2o') && field.schema?.foreign_key_table) {
-      return field.schema.foreign_key_table;
+  private generateManyToManyType(relation: ManyToManyRelation): string {
+    const relatedCollection = relation.relatedCollection;
+    const item = this.wrapRelation(this.getPrimaryKeyType(relatedCollection), () => this.referenceType(relatedCollection));
+
+    if (this.config.m2mMode === 'flatten') {
+      return this.toArrayType(item);
     }
-    
-    // For M2M relations, check junction table and related collection
-    if (special.includes('m2m') || this.isManyToManyJunctionField(field)) {
-      // Check for explicit junction table configuration
-      if (options.junction_table) {
-        return options.junction_table;
-      }
-      
-      // Check for related collection in options
-      if (options.related_collection) {
-        return options.related_collection;
-      }
-      
-      // Try to infer from field name for M2M relationships
-      const fieldName = field.field;
-      
-      // For M2M fields, find the related collection from actual Directus relationships
-      if (special.includes('m2m')) {
-        // First check options for explicit configuration
-        if (options.related_collection) {
-          return options.related_collection;
-        }
-        
-        if (options.junction_collection) {
-          return options.junction_collection;
-        }
-        
-        if (options.collection) {
-          return options.collection;
-        }
-        
-        if (options.many_collection) {
-          return options.many_collection;
-        }
-        
-        if (options.one_collection) {
-          return options.one_collection;
-        }
-        
-        // If we have junction table info, try to infer from it
-        if (options.junction_table) {
-          const junctionTable = options.junction_table;
-          if (junctionTable.includes('_')) {
-            const parts = junctionTable.split('_');
-            const relatedPart = parts[parts.length - 1];
-            return relatedPart + 's';
-          }
-          return junctionTable;
-        }
-        
-        // Now try to find the relationship from the fetched relationships data
-        if (this.relationships.length > 0) {
-          const collectionName = field.meta?.collection;
-          
-          // Look for relationships where this collection is the "one" side of a many-to-many
-          const m2mRelation = this.relationships.find((rel: any) => 
-            rel.one_collection === collectionName &&
-            rel.one_field === fieldName &&
-            rel.many_collection !== collectionName
-          );
-          
-          if (m2mRelation) {
-            return m2mRelation.many_collection;
-          }
-          
-          // Look for relationships where this collection is the "many" side
-          const reverseM2mRelation = this.relationships.find((rel: any) => 
-            rel.many_collection === collectionName &&
-            rel.many_field === fieldName &&
-            rel.one_collection !== collectionName
-          );
-          
-          if (reverseM2mRelation) {
-            return reverseM2mRelation.one_collection;
-          }
-          
-          // Look for junction table relationships
-          const junctionRelation = this.relationships.find((rel: any) => 
-            rel.junction_collection === collectionName &&
-            (rel.one_collection !== collectionName || rel.many_collection !== collectionName)
-          );
-          
-          if (junctionRelation) {
-            // Return the other collection (not the current one)
-            return junctionRelation.one_collection === collectionName 
-              ? junctionRelation.many_collection 
-              : junctionRelation.one_collection;
-          }
-        }
-        
-        // No relationship found, return null
-        return null;
-      }
-      
-      // Try to infer from junction field name (for junction table fields)
-      if (fieldName.includes('_')) {
-        const parts = fieldName.split('_');
-        // Look for patterns like: user_id -> users, application_id -> applications
-        if (parts.length >= 2) {
-          const lastPart = parts[parts.length - 1];
-          if (lastPart === 'id') {
-            const collectionPart = parts.slice(0, -1).join('_');
-            return collectionPart + 's'; // Make it plural
-          }
-        }
-      }
+
+    const row = `{ ${relation.junctionField}: ${item} }`;
+    return this.toArrayType(this.wrapRelation(this.getPrimaryKeyType(relation.junctionCollection), () => row));
+  }
+
+  /**
+   * Generate a union of junction rows for a M2A field
+   */
+  private generateManyToAnyType(relation: ManyToAnyRelation): string {
+    if (relation.allowedCollections.length === 0) {
+      return 'any[]';
     }
-    
-    // For O2M relations, we need to infer from the field name or options
-    if (special.includes('o2m')) {
-      // Check for explicit related collection
-      if (options.related_collection) {
-        return options.related_collection;
-      }
-      
-      // For O2M, the field name usually indicates the related collection
-      // e.g., 'activity_logs' field in 'audit_sessions' relates to 'audit_activity_logs'
-      const fieldName = field.field;
-      if (fieldName === 'activity_logs') {
-        return 'audit_activity_logs';
-      }
-      // Add more patterns as needed
+
+    const options = relation.allowedCollections.map(collection => {
+      const item = this.wrapRelation(this.getPrimaryKeyType(collection), () => this.referenceType(collection));
+      return `{ ${relation.collectionField}: ${JSON.stringify(collection)}; ${relation.itemField}: ${item} }`;
+    });
+
+    return this.toArrayType(this.wrapRelation(this.getPrimaryKeyType(relation.junctionCollection), () => options.join(' | ')));
+  }
+
+  /**
+   * Get the TypeScript type of a collection's primary key
+   */
+  private getPrimaryKeyType(collection: string): string {
+    return PrimaryKeyUtils.getTypeScriptType(this.primaryKeys.get(collection));
+  }
+
+  /**
+   * Type a related item according to `relationMode`: its primary key, the expanded
+   * item, or either of them (the default)
+   */
+  private wrapRelation(primaryKeyType: string, relatedType: () => string): string {
+    // The related type is only built, and its references recorded, when it is used
+    switch (this.config.relationMode) {
+      case 'id-only':
+        return primaryKeyType;
+      case 'expanded':
+        return relatedType();
+      default:
+        return `${primaryKeyType} | ${relatedType()}`;
     }
-    
-    // No relationship found, return null
-    return null;
+  }
+
+  /**
+   * Get the type name of a related collection and record the reference
+   */
+  private referenceType(collection: string): string {
+    if (this.currentReferences && !this.currentReferences.collections.includes(collection)) {
+      this.currentReferences.collections.push(collection);
+    }
+
+    return this.naming.getTypeName(collection);
+  }
+
+  /**
+   * Get the name of a type from file-schemas.ts and record the reference
+   */
+  private referenceFileType(name: 'File' | 'ImageFile'): string {
+    if (this.currentReferences) {
+      this.currentReferences.files = true;
+    }
+
+    return this.naming.getSharedTypeName(name);
+  }
+
+  /**
+   * Get an array type, using Array<> for unions and object literals
+   */
+  private toArrayType(type: string): string {
+    return type.includes('|') || type.startsWith('{') ? `Array<${type}>` : `${type}[]`;
   }
 
   /**
@@ -700,6 +1073,12 @@ export class TypeGenerator {
     const special = field.meta?.special || [];
     const options = field.meta?.options || {};
 
+    // Types given for this field in the config come first
+    const customType = this.getCustomFieldType(field);
+    if (customType) {
+      return customType;
+    }
+
     // Handle file fields
     if (this.isFileField(field)) {
       return this.generateFileType(field);
@@ -740,39 +1119,41 @@ export class TypeGenerator {
       return this.generateRepeaterType(field);
     }
 
+    // Handle JSON code fields: any JSON value at the top level
+    if (this.isJsonCodeField(field)) {
+      return 'string | number | boolean | null | unknown[] | Record<string, unknown>';
+    }
+
+    // Handle M2A fields: junction rows keyed by the collection of their item
+    if (special.includes('m2a')) {
+      const m2aRelation = new RelationshipUtils(this.relationships).getManyToAnyRelation(field);
+      return m2aRelation ? this.generateManyToAnyType(m2aRelation) : 'any[]';
+    }
+
+    // Handle M2M fields: junction rows holding the related item
+    if (special.includes('m2m') || this.isManyToManyJunctionField(field)) {
+      const m2mRelation = new RelationshipUtils(this.relationships).getManyToManyRelation(field);
+      if (m2mRelation) {
+        return this.generateManyToManyType(m2mRelation);
+      }
+    }
+
     // Handle relation fields
     if (this.isRelationField(field)) {
-      const relatedCollection = this.getRelatedCollectionName(field);
+      const relatedCollection = new RelationshipUtils(this.relationships).getRelatedCollectionName(field);
       if (relatedCollection) {
-        // Check if this is a system collection and use appropriate type name
-        const isSystemCollection = relatedCollection.startsWith('directus_');
-        const baseCollectionName = isSystemCollection 
-          ? relatedCollection.replace('directus_', '') 
-          : relatedCollection;
-        const collectionName = this.toSingular(this.toPascalCase(baseCollectionName));
-        const relatedTypeName = isSystemCollection 
-          ? `DrsDirectus${collectionName}` 
-          : `Drs${collectionName}`;
+        const relatedTypeName = () => this.referenceType(relatedCollection);
         
-        // M2O relations are single objects
+        // M2O relations are single objects; the foreign key has the type of the related primary key
         if (special.includes('m2o')) {
-          return relatedTypeName;
+          return this.wrapRelation(PrimaryKeyUtils.getTypeScriptType(field), relatedTypeName);
         }
         
         // O2M relations are arrays
         if (special.includes('o2m')) {
-          return `${relatedTypeName}[]`;
+          return this.toArrayType(this.wrapRelation(this.getPrimaryKeyType(relatedCollection), relatedTypeName));
         }
         
-        // M2A relations are arrays
-        if (special.includes('m2a')) {
-          return `${relatedTypeName}[]`;
-        }
-        
-        // M2M relations are arrays (many-to-many)
-        if (special.includes('m2m') || this.isManyToManyJunctionField(field)) {
-          return `${relatedTypeName}[]`;
-        }
       }
     }
 
@@ -912,59 +1293,20 @@ export class TypeGenerator {
   }
 
   /**
-   * Generate complete type file content
+   * Generate complete type file content. Leave out the imports when the types are
+   * appended to a schema file, which imports the file types already.
    */
-  generateTypeFile(types: GeneratedSchema[]): string {
+  generateTypeFile(types: GeneratedSchema[], withImports: boolean = true): string {
     const typeDefinitions = types
+      .filter(type => type.type)
       .map(type => type.type)
       .join('\n\n');
 
-    return typeDefinitions;
-  }
-
-  /**
-   * Convert string to PascalCase
-   */
-  private toPascalCase(str: string): string {
-    return str
-      .split(/[-_\s]+/)
-      .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
-      .join('');
-  }
-
-  /**
-   * Convert plural word to singular
-   */
-  private toSingular(word: string): string {
-    // Common plural to singular conversions
-    // const pluralToSingular: Record<string, string> = {
-    //   'Applications': 'Application',
-    //   'Banks': 'Bank',
-    //   'Clerks': 'Clerk',
-    //   'Languages': 'Language',
-    //   'Globals': 'Global',
-    //   'AuditAccountabilityLogs': 'AuditAccountabilityLog',
-    //   'AuditActivityLogs': 'AuditActivityLog',
-    //   'AuditSessions': 'AuditSession',
-    //   'GlobalsTranslations': 'GlobalsTranslation'
-    // };
-
-    // if (pluralToSingular[word]) {
-    //   return pluralToSingular[word];
-    // }
-
-    // Generic rules for common plural patterns
-    if (word.endsWith('ies')) {
-      return word.slice(0, -3) + 'y';
-    }
-    if (word.endsWith('ses') || word.endsWith('shes') || word.endsWith('ches') || word.endsWith('xes') || word.endsWith('zes')) {
-      return word.slice(0, -2);
-    }
-    if (word.endsWith('s') && word.length > 1) {
-      return word.slice(0, -1);
+    if (withImports && types.some(type => type.references?.files)) {
+      return `${ImportUtils.generateFileSchemaImportStatement('./file-schemas', this.naming, true)}\n${typeDefinitions}`;
     }
 
-    return word;
+    return typeDefinitions;
   }
 
   /**
@@ -972,10 +1314,10 @@ export class TypeGenerator {
    */
   generateUnionTypes(collections: string[]): string {
     const unionType = collections
-      .map(collection => this.toPascalCase(collection) + 'Type')
+      .map(collection => this.getTypeName(collection))
       .join(' | ');
 
-    return `export type DirectusCollection = ${unionType};`;
+    return `export type ${this.naming.getSharedTypeName('Collection')} = ${unionType};`;
   }
 
   /**
@@ -983,10 +1325,10 @@ export class TypeGenerator {
    */
   generateIndexTypes(collections: string[]): string {
     const indexType = collections
-      .map(collection => `  ${collection}: ${this.toPascalCase(collection)}Type;`)
+      .map(collection => `  ${collection}: ${this.getTypeName(collection)};`)
       .join('\n');
 
-    return `export interface DirectusCollections {
+    return `export interface ${this.naming.getSharedTypeName('Collections')} {
 ${indexType}
 }`;
   }
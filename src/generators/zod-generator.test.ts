@@ -1,5 +1,18 @@
+import * as ts from 'typescript';
+import { z } from 'zod';
 import { ZodGenerator } from './zod-generator';
-import { DirectusCollectionWithFields, ZodirectusConfig } from '../types';
+import { DirectusCollectionWithFields, DirectusField, DirectusRelation, ZodirectusConfig } from '../types';
+import { MemoryClient } from '../utils/memory-client';
+
+/**
+ * Compile generated schemas and return their exports
+ */
+function evaluateSchemas(code: string): Record<string, z.ZodTypeAny> {
+  const { outputText } = ts.transpileModule(code, { compilerOptions: { module: ts.ModuleKind.CommonJS } });
+  const exports: Record<string, z.ZodTypeAny> = {};
+  new Function('exports', 'z', outputText)(exports, z);
+  return exports;
+}
 
 describe('ZodGenerator', () => {
   let generator: ZodGenerator;
@@ -91,7 +104,7 @@ describe('ZodGenerator', () => {
       expect(result).toContain('export const DrxUserSchema = z.object({');
       expect(result).toContain('id: z.string().uuid()');
       expect(result).toContain('email: z.string()');
-      expect(result).toContain('first_name: z.string().nullable().optional()');
+      expect(result).toContain('first_name: z.string().max(100).nullable().optional()');
     });
 
     it('should handle different field types correctly', () => {
@@ -226,6 +239,66 @@ describe('ZodGenerator', () => {
       expect(result).toContain('hidden_field: z.string()');
     });
 
+    it('should drop presentation fields but keep relational alias fields', () => {
+      const collection: DirectusCollectionWithFields = {
+        collection: 'articles',
+        fields: [
+          { field: 'title', type: 'string' },
+          { field: 'notice', type: 'alias', meta: { id: 2, collection: 'articles', field: 'notice', special: ['alias', 'no-data'], interface: 'presentation-notice', required: false, readonly: false, hidden: false } },
+          { field: 'seo', type: 'alias', meta: { id: 3, collection: 'articles', field: 'seo', special: ['alias', 'no-data', 'group'], interface: 'group-accordion', required: false, readonly: false, hidden: false } },
+          { field: 'comments', type: 'alias', meta: { id: 4, collection: 'articles', field: 'comments', special: ['o2m'], interface: 'list-o2m', required: false, readonly: false, hidden: false } },
+        ],
+      };
+
+      const result = generator.generateSchema(collection);
+
+      expect(result).toContain('title: z.string()');
+      expect(result).toContain('comments:');
+      expect(result).not.toContain('notice');
+      expect(result).not.toContain('seo');
+    });
+
+    describe('JSON fields', () => {
+      const jsonField = (field: string, meta: Partial<NonNullable<DirectusField['meta']>>): DirectusField => ({
+        field,
+        type: 'json',
+        meta: { id: 1, collection: 'articles', field, special: ['cast-json'], required: true, readonly: false, hidden: false, ...meta },
+      });
+      const collection: DirectusCollectionWithFields = {
+        collection: 'articles',
+        fields: [
+          jsonField('payload', { interface: 'input-code', options: { language: 'JSON' } }),
+          jsonField('headers', {}),
+          jsonField('channels', { interface: 'select-multiple-checkbox', options: { choices: [{ text: 'Email', value: 'email' }, { text: 'SMS', value: 'sms' }] } }),
+          jsonField('extra', {}),
+        ],
+      };
+
+      it('should type JSON code and multiple checkbox fields', () => {
+        const result = generator.generateSchema(collection);
+
+        expect(result).toContain('payload: z.union([z.string(), z.number(), z.boolean(), z.null(), z.array(z.unknown()), z.record(z.string(), z.unknown())])');
+        expect(result).toContain('headers: z.any()');
+        expect(result).toContain('channels: z.array(z.enum(["email", "sms"]))');
+        expect(result).toContain('extra: z.any()');
+      });
+
+      it('should use the Zod snippets given per field in the config', () => {
+        generator = new ZodGenerator({
+          ...config,
+          fieldSchemas: {
+            'articles.extra': 'z.object({ theme: z.string() })',
+            'articles.headers': { schema: 'z.record(z.string(), z.number())', type: 'Record<string, number>' },
+          },
+        });
+
+        const result = generator.generateSchema(collection);
+
+        expect(result).toContain('extra: z.object({ theme: z.string() })');
+        expect(result).toContain('headers: z.record(z.string(), z.number())');
+      });
+    });
+
     it('should generate Create, Update, and Get schemas', () => {
       const collection: DirectusCollectionWithFields = {
         collection: 'users',
@@ -282,6 +355,782 @@ describe('ZodGenerator', () => {
       expect(result).toContain('export const DrxUserUpdateSchema = DrxUserSchema.partial().required({');
       expect(result).toContain('export const DrxUserGetSchema = DrxUserSchema');
     });
+
+    it('should compile Directus validation rules into Zod calls', () => {
+      const collection: DirectusCollectionWithFields = {
+        collection: 'users',
+        fields: [
+          {
+            field: 'username',
+            type: 'string',
+            schema: {
+              name: 'username',
+              table: 'users',
+              data_type: 'varchar',
+              is_nullable: true,
+              is_unique: false,
+              is_primary_key: false,
+              has_auto_increment: false,
+            },
+            meta: {
+              id: 1,
+              collection: 'users',
+              field: 'username',
+              required: false,
+              readonly: false,
+              hidden: false,
+              validation: { _and: [{ username: { _regex: '^[a-z]+$', _nnull: true } }] },
+              validation_message: 'Lowercase letters only',
+            },
+          },
+        ],
+      };
+
+      const result = generator.generateSchema(collection);
+
+      expect(result).toContain('username: z.string().regex(/^[a-z]+$/, { message: "Lowercase letters only" }).optional()');
+    });
+
+    it('should check the digits of Postgres numeric columns, which are typed as strings', () => {
+      const collection: DirectusCollectionWithFields = {
+        collection: 'products',
+        fields: [
+          {
+            field: 'price',
+            type: 'decimal',
+            schema: { name: 'price', table: 'products', data_type: 'numeric', numeric_precision: 10, numeric_scale: 2, is_nullable: true, is_unique: false, is_primary_key: false, has_auto_increment: false },
+            meta: { id: 1, collection: 'products', field: 'price', interface: 'input', required: false, readonly: false, hidden: false },
+          },
+        ],
+      };
+
+      const result = generator.generateSchema(collection);
+
+      expect(result).toContain('price: z.string().regex(/^-?\\d{1,8}(\\.\\d{1,2})?$/).nullable().optional()');
+      expect(evaluateSchemas(result).DrxProductSchema.safeParse({ price: '123456789.00' }).success).toBe(false);
+    });
+
+    it('should apply database defaults in the Create schema', () => {
+      const collection: DirectusCollectionWithFields = {
+        collection: 'articles',
+        fields: [
+          {
+            field: 'id',
+            type: 'integer',
+            schema: { name: 'id', table: 'articles', data_type: 'integer', is_nullable: false, is_unique: true, is_primary_key: true, has_auto_increment: true },
+            meta: { id: 1, collection: 'articles', field: 'id', required: false, readonly: true, hidden: true },
+          },
+          {
+            field: 'status',
+            type: 'string',
+            schema: { name: 'status', table: 'articles', data_type: 'varchar', default_value: 'draft', is_nullable: false, is_unique: false, is_primary_key: false, has_auto_increment: false },
+            meta: { id: 2, collection: 'articles', field: 'status', required: true, readonly: false, hidden: false },
+          },
+          {
+            field: 'published_at',
+            type: 'timestamp',
+            schema: { name: 'published_at', table: 'articles', data_type: 'timestamp', default_value: 'CURRENT_TIMESTAMP', is_nullable: false, is_unique: false, is_primary_key: false, has_auto_increment: false },
+            meta: { id: 3, collection: 'articles', field: 'published_at', required: true, readonly: false, hidden: false },
+          },
+          {
+            field: 'title',
+            type: 'string',
+            schema: { name: 'title', table: 'articles', data_type: 'varchar', is_nullable: false, is_unique: false, is_primary_key: false, has_auto_increment: false },
+            meta: { id: 4, collection: 'articles', field: 'title', required: true, readonly: false, hidden: false },
+          },
+        ],
+      };
+
+      const result = generator.generateSchema(collection);
+
+      expect(result).toContain(`export const DrxArticleCreateSchema = DrxArticleSchema.omit({
+    id: true
+}).extend({
+    status: z.string().default("draft"),
+    published_at: z.string().datetime().optional()
+});`);
+    });
+
+    describe('readonly and hidden fields', () => {
+      const collection: DirectusCollectionWithFields = {
+        collection: 'articles',
+        fields: [
+          {
+            field: 'id',
+            type: 'integer',
+            schema: { name: 'id', table: 'articles', data_type: 'integer', is_nullable: false, is_unique: true, is_primary_key: true, has_auto_increment: true },
+            meta: { id: 1, collection: 'articles', field: 'id', required: false, readonly: true, hidden: true },
+          },
+          {
+            field: 'title',
+            type: 'string',
+            meta: { id: 2, collection: 'articles', field: 'title', required: true, readonly: false, hidden: false },
+          },
+          {
+            field: 'slug',
+            type: 'string',
+            meta: { id: 3, collection: 'articles', field: 'slug', required: false, readonly: true, hidden: false },
+          },
+          {
+            field: 'legacy_id',
+            type: 'string',
+            meta: { id: 4, collection: 'articles', field: 'legacy_id', required: false, readonly: false, hidden: true },
+          },
+        ],
+      };
+
+      it('should leave readonly fields out of the Create and Update schemas', () => {
+        const result = generator.generateSchema(collection);
+
+        expect(result).toContain('slug: z.string()');
+        expect(result).toContain(`export const DrxArticleCreateSchema = DrxArticleSchema.omit({
+    id: true,
+    slug: true
+});`);
+        expect(result).toContain(`export const DrxArticleUpdateSchema = DrxArticleSchema.omit({
+    slug: true
+}).partial().required({
+    id: true
+});`);
+      });
+
+      it('should leave hidden fields out of the Create and Update schemas when omitHiddenFields is set', () => {
+        generator = new ZodGenerator({ ...config, omitHiddenFields: true });
+
+        const result = generator.generateSchema(collection);
+
+        expect(result).toContain('legacy_id: z.string()');
+        expect(result).toContain(`export const DrxArticleCreateSchema = DrxArticleSchema.omit({
+    id: true,
+    slug: true,
+    legacy_id: true
+});`);
+        expect(result).toContain(`export const DrxArticleUpdateSchema = DrxArticleSchema.omit({
+    slug: true,
+    legacy_id: true
+}).partial().required({
+    id: true
+});`);
+      });
+    });
+
+    it('should generate a discriminated union for M2A fields', async () => {
+      const m2aRelations: DirectusRelation[] = [
+        {
+          collection: 'pages_blocks',
+          field: 'pages_id',
+          related_collection: 'pages',
+          meta: { many_collection: 'pages_blocks', many_field: 'pages_id', one_collection: 'pages', one_field: 'blocks', one_collection_field: null, one_allowed_collections: null, junction_field: 'item', sort_field: null },
+        },
+        {
+          collection: 'pages_blocks',
+          field: 'item',
+          related_collection: null,
+          meta: { many_collection: 'pages_blocks', many_field: 'item', one_collection: null, one_field: null, one_collection_field: 'collection', one_allowed_collections: ['block_hero', 'block_text'], junction_field: 'pages_id', sort_field: null },
+        },
+      ];
+      const collection: DirectusCollectionWithFields = {
+        collection: 'pages',
+        fields: [
+          {
+            field: 'blocks',
+            type: 'alias',
+            meta: { id: 1, collection: 'pages', field: 'blocks', special: ['m2a'], interface: 'list-m2a', required: false, readonly: false, hidden: false },
+          },
+        ],
+      };
+      generator = new ZodGenerator({ ...config, relationMode: 'expanded' }, new MemoryClient({ collections: [], relations: m2aRelations }));
+      await generator.setRelationships();
+
+      const result = generator.generateSchema(collection);
+
+      expect(result).toContain('blocks: z.array(z.discriminatedUnion("collection", [z.object({ collection: z.literal("block_hero"), item: z.lazy(() => DrxBlockHeroSchema) }), z.object({ collection: z.literal("block_text"), item: z.lazy(() => DrxBlockTextSchema) })])).nullable().optional()');
+    });
+
+    it('should generate junction rows holding the related item for M2M fields', async () => {
+      const m2mRelations: DirectusRelation[] = [
+        {
+          collection: 'articles_tags',
+          field: 'articles_id',
+          related_collection: 'articles',
+          meta: { many_collection: 'articles_tags', many_field: 'articles_id', one_collection: 'articles', one_field: 'tags', one_collection_field: null, one_allowed_collections: null, junction_field: 'tags_id', sort_field: null },
+        },
+        {
+          collection: 'articles_tags',
+          field: 'tags_id',
+          related_collection: 'tags',
+          meta: { many_collection: 'articles_tags', many_field: 'tags_id', one_collection: 'tags', one_field: null, one_collection_field: null, one_allowed_collections: null, junction_field: 'articles_id', sort_field: null },
+        },
+      ];
+      const collection: DirectusCollectionWithFields = {
+        collection: 'articles',
+        fields: [
+          {
+            field: 'tags',
+            type: 'alias',
+            meta: { id: 1, collection: 'articles', field: 'tags', special: ['m2m'], interface: 'list-m2m', required: false, readonly: false, hidden: false },
+          },
+        ],
+      };
+      generator = new ZodGenerator({ ...config, relationMode: 'expanded' }, new MemoryClient({ collections: [], relations: m2mRelations }));
+      await generator.setRelationships();
+
+      const result = generator.generateSchema(collection);
+
+      expect(result).toContain('tags: z.array(z.object({ tags_id: z.lazy(() => DrxTagSchema) })).nullable().optional()');
+    });
+
+    it('should flatten M2M fields to the related items when m2mMode is flatten', async () => {
+      const m2mRelations: DirectusRelation[] = [
+        {
+          collection: 'articles_tags',
+          field: 'articles_id',
+          related_collection: 'articles',
+          meta: { many_collection: 'articles_tags', many_field: 'articles_id', one_collection: 'articles', one_field: 'tags', one_collection_field: null, one_allowed_collections: null, junction_field: 'tags_id', sort_field: null },
+        },
+        {
+          collection: 'articles_tags',
+          field: 'tags_id',
+          related_collection: 'tags',
+          meta: { many_collection: 'articles_tags', many_field: 'tags_id', one_collection: 'tags', one_field: null, one_collection_field: null, one_allowed_collections: null, junction_field: 'articles_id', sort_field: null },
+        },
+      ];
+      const collection: DirectusCollectionWithFields = {
+        collection: 'articles',
+        fields: [
+          {
+            field: 'tags',
+            type: 'alias',
+            meta: { id: 1, collection: 'articles', field: 'tags', special: ['m2m'], interface: 'list-m2m', required: false, readonly: false, hidden: false },
+          },
+        ],
+      };
+      generator = new ZodGenerator({ ...config, m2mMode: 'flatten', relationMode: 'expanded' }, new MemoryClient({ collections: [], relations: m2mRelations }));
+      await generator.setRelationships();
+
+      const result = generator.generateSchema(collection);
+
+      expect(result).toContain('tags: z.array(z.lazy(() => DrxTagSchema)).nullable().optional()');
+    });
+
+    it('should accept a primary key or the expanded item for relation fields by default', async () => {
+      const relations: DirectusRelation[] = [
+        {
+          collection: 'comments',
+          field: 'article',
+          related_collection: 'articles',
+          meta: { many_collection: 'comments', many_field: 'article', one_collection: 'articles', one_field: 'comments', one_collection_field: null, one_allowed_collections: null, junction_field: null, sort_field: null },
+        },
+      ];
+      const collection: DirectusCollectionWithFields = {
+        collection: 'articles',
+        fields: [
+          {
+            field: 'author',
+            type: 'integer',
+            schema: { name: 'author', table: 'articles', data_type: 'integer', is_nullable: true, is_unique: false, is_primary_key: false, has_auto_increment: false, foreign_key_table: 'authors' },
+            meta: { id: 1, collection: 'articles', field: 'author', special: ['m2o'], interface: 'select-dropdown-m2o', required: false, readonly: false, hidden: false },
+          },
+          {
+            field: 'comments',
+            type: 'alias',
+            meta: { id: 2, collection: 'articles', field: 'comments', special: ['o2m'], interface: 'list-o2m', required: false, readonly: false, hidden: false },
+          },
+        ],
+      };
+      const comments: DirectusCollectionWithFields = {
+        collection: 'comments',
+        fields: [
+          {
+            field: 'id',
+            type: 'uuid',
+            schema: { name: 'id', table: 'comments', data_type: 'uuid', is_nullable: false, is_unique: true, is_primary_key: true, has_auto_increment: false },
+            meta: { id: 3, collection: 'comments', field: 'id', required: false, readonly: true, hidden: true },
+          },
+        ],
+      };
+      const client = new MemoryClient({ collections: [comments], relations });
+      generator = new ZodGenerator(config, client);
+      await generator.setRelationships();
+
+      const result = generator.generateSchema(collection);
+
+      expect(result).toContain('author: z.union([z.number().int(), DrxAuthorSchema]).nullable().optional()');
+      expect(result).toContain('comments: z.array(z.union([z.string().uuid(), z.lazy(() => DrxCommentSchema)])).nullable().optional()');
+    });
+
+    it('should type relation fields as primary keys when relationMode is id-only', async () => {
+      const relations: DirectusRelation[] = [
+        {
+          collection: 'comments',
+          field: 'article',
+          related_collection: 'articles',
+          meta: { many_collection: 'comments', many_field: 'article', one_collection: 'articles', one_field: 'comments', one_collection_field: null, one_allowed_collections: null, junction_field: null, sort_field: null },
+        },
+      ];
+      const collection: DirectusCollectionWithFields = {
+        collection: 'articles',
+        fields: [
+          {
+            field: 'author',
+            type: 'integer',
+            schema: { name: 'author', table: 'articles', data_type: 'integer', is_nullable: true, is_unique: false, is_primary_key: false, has_auto_increment: false, foreign_key_table: 'authors' },
+            meta: { id: 1, collection: 'articles', field: 'author', special: ['m2o'], interface: 'select-dropdown-m2o', required: false, readonly: false, hidden: false },
+          },
+          {
+            field: 'comments',
+            type: 'alias',
+            meta: { id: 2, collection: 'articles', field: 'comments', special: ['o2m'], interface: 'list-o2m', required: false, readonly: false, hidden: false },
+          },
+        ],
+      };
+      const comments: DirectusCollectionWithFields = {
+        collection: 'comments',
+        fields: [
+          {
+            field: 'id',
+            type: 'uuid',
+            schema: { name: 'id', table: 'comments', data_type: 'uuid', is_nullable: false, is_unique: true, is_primary_key: true, has_auto_increment: false },
+            meta: { id: 3, collection: 'comments', field: 'id', required: false, readonly: true, hidden: true },
+          },
+        ],
+      };
+      const client = new MemoryClient({ collections: [comments], relations });
+      generator = new ZodGenerator({ ...config, relationMode: 'id-only' }, client);
+      await generator.setRelationships();
+
+      const result = generator.generateSchema(collection);
+
+      expect(result).toContain('author: z.number().int().nullable().optional()');
+      expect(result).toContain('comments: z.array(z.string().uuid()).nullable().optional()');
+      expect(generator.getReferences('articles')).toEqual({ collections: [], deferred: [], files: false });
+    });
+
+    it('should type relation fields as expanded items when relationMode is expanded', async () => {
+      const relations: DirectusRelation[] = [
+        {
+          collection: 'comments',
+          field: 'article',
+          related_collection: 'articles',
+          meta: { many_collection: 'comments', many_field: 'article', one_collection: 'articles', one_field: 'comments', one_collection_field: null, one_allowed_collections: null, junction_field: null, sort_field: null },
+        },
+      ];
+      const collection: DirectusCollectionWithFields = {
+        collection: 'articles',
+        fields: [
+          {
+            field: 'author',
+            type: 'integer',
+            schema: { name: 'author', table: 'articles', data_type: 'integer', is_nullable: true, is_unique: false, is_primary_key: false, has_auto_increment: false, foreign_key_table: 'authors' },
+            meta: { id: 1, collection: 'articles', field: 'author', special: ['m2o'], interface: 'select-dropdown-m2o', required: false, readonly: false, hidden: false },
+          },
+          {
+            field: 'comments',
+            type: 'alias',
+            meta: { id: 2, collection: 'articles', field: 'comments', special: ['o2m'], interface: 'list-o2m', required: false, readonly: false, hidden: false },
+          },
+        ],
+      };
+      const comments: DirectusCollectionWithFields = {
+        collection: 'comments',
+        fields: [
+          {
+            field: 'id',
+            type: 'uuid',
+            schema: { name: 'id', table: 'comments', data_type: 'uuid', is_nullable: false, is_unique: true, is_primary_key: true, has_auto_increment: false },
+            meta: { id: 3, collection: 'comments', field: 'id', required: false, readonly: true, hidden: true },
+          },
+        ],
+      };
+      const client = new MemoryClient({ collections: [comments], relations });
+      generator = new ZodGenerator({ ...config, relationMode: 'expanded' }, client);
+      await generator.setRelationships();
+
+      const result = generator.generateSchema(collection);
+
+      expect(result).toContain('author: DrxAuthorSchema.nullable().optional()');
+      expect(result).toContain('comments: z.array(z.lazy(() => DrxCommentSchema)).nullable().optional()');
+      expect(generator.getReferences('articles')).toEqual({ collections: ['authors', 'comments'], deferred: ['comments'], files: false });
+    });
+
+    it('should name schemas and related schemas after the naming strategy', () => {
+      const collection: DirectusCollectionWithFields = {
+        collection: 'blog_posts',
+        fields: [
+          {
+            field: 'id',
+            type: 'integer',
+            schema: { name: 'id', table: 'blog_posts', data_type: 'integer', is_nullable: false, is_unique: true, is_primary_key: true, has_auto_increment: true },
+            meta: { id: 1, collection: 'blog_posts', field: 'id', required: false, readonly: true, hidden: true },
+          },
+          {
+            field: 'author',
+            type: 'integer',
+            schema: { name: 'author', table: 'blog_posts', data_type: 'integer', is_nullable: true, is_unique: false, is_primary_key: false, has_auto_increment: false, foreign_key_table: 'people' },
+            meta: { id: 2, collection: 'blog_posts', field: 'author', special: ['m2o'], interface: 'select-dropdown-m2o', required: false, readonly: false, hidden: false },
+          },
+          {
+            field: 'cover',
+            type: 'uuid',
+            schema: { name: 'cover', table: 'blog_posts', data_type: 'uuid', is_nullable: true, is_unique: false, is_primary_key: false, has_auto_increment: false, foreign_key_table: 'directus_files' },
+            meta: { id: 3, collection: 'blog_posts', field: 'cover', special: ['file'], interface: 'file-image', required: false, readonly: false, hidden: false },
+          },
+        ],
+      };
+      generator = new ZodGenerator({
+        ...config,
+        relationMode: 'expanded',
+        naming: { schemaPrefix: '', schemaSuffix: 'Model', createSuffix: 'Input', overrides: { blog_posts: 'Post', people: 'Person' } },
+      });
+
+      const result = generator.generateSchema(collection);
+
+      expect(result).toContain('export const PostModel = z.object({');
+      expect(result).toContain('author: PersonModel.nullable().optional()');
+      expect(result).toContain('cover: ImageFileModel.nullable().optional()');
+      expect(result).toContain('export const PostInputModel = PostModel.omit({');
+      expect(result).toContain('export const PostUpdateModel = PostModel.partial()');
+      expect(result).toContain('export const PostGetModel = PostModel;');
+      expect(generator.getReferences('blog_posts')).toEqual({ collections: ['people'], deferred: [], files: true });
+    });
+
+    it('should name the inferred types with the naming strategy', () => {
+      generator = new ZodGenerator({ ...config, naming: { typePrefix: 'I', schemaPrefix: '', schemaSuffix: 'Model', overrides: { blog_posts: 'Post' } } });
+
+      expect(generator.generateTypesFromSchemas([{ collectionName: 'blog_posts' }])).toBe('export type IPost = z.infer<typeof PostModel>;');
+    });
+  });
+
+  describe('circular dependencies', () => {
+    const relations: DirectusRelation[] = [
+      {
+        collection: 'articles',
+        field: 'author',
+        related_collection: 'authors',
+        meta: { many_collection: 'articles', many_field: 'author', one_collection: 'authors', one_field: 'articles', one_collection_field: null, one_allowed_collections: null, junction_field: null, sort_field: null },
+      },
+    ];
+    const articles: DirectusCollectionWithFields = {
+      collection: 'articles',
+      fields: [
+        { field: 'id', type: 'integer', schema: { name: 'id', table: 'articles', data_type: 'integer', is_nullable: false, is_unique: true, is_primary_key: true, has_auto_increment: true } },
+        { field: 'title', type: 'string', schema: { name: 'title', table: 'articles', data_type: 'varchar', max_length: 255, is_nullable: false, is_unique: false, is_primary_key: false, has_auto_increment: false } },
+        {
+          field: 'status',
+          type: 'string',
+          schema: { name: 'status', table: 'articles', data_type: 'varchar', default_value: 'draft', is_nullable: false, is_unique: false, is_primary_key: false, has_auto_increment: false },
+          meta: { id: 3, collection: 'articles', field: 'status', required: true, readonly: false, hidden: false },
+        },
+        {
+          field: 'views',
+          type: 'integer',
+          schema: { name: 'views', table: 'articles', data_type: 'integer', is_nullable: true, is_unique: false, is_primary_key: false, has_auto_increment: false },
+          meta: { id: 4, collection: 'articles', field: 'views', required: false, readonly: true, hidden: false },
+        },
+        {
+          field: 'author',
+          type: 'integer',
+          schema: { name: 'author', table: 'articles', data_type: 'integer', is_nullable: true, is_unique: false, is_primary_key: false, has_auto_increment: false, foreign_key_table: 'authors' },
+          meta: { id: 1, collection: 'articles', field: 'author', special: ['m2o'], interface: 'select-dropdown-m2o', required: false, readonly: false, hidden: false },
+        },
+      ],
+    };
+    const authors: DirectusCollectionWithFields = {
+      collection: 'authors',
+      fields: [
+        { field: 'id', type: 'integer', schema: { name: 'id', table: 'authors', data_type: 'integer', is_nullable: false, is_unique: true, is_primary_key: true, has_auto_increment: true } },
+        { field: 'name', type: 'string', schema: { name: 'name', table: 'authors', data_type: 'varchar', max_length: 255, is_nullable: false, is_unique: false, is_primary_key: false, has_auto_increment: false } },
+        {
+          field: 'articles',
+          type: 'alias',
+          meta: { id: 2, collection: 'authors', field: 'articles', special: ['o2m'], interface: 'list-o2m', required: false, readonly: false, hidden: false },
+        },
+      ],
+    };
+
+    const generateCycle = async (generatorConfig: ZodirectusConfig): Promise<Record<string, z.ZodTypeAny>> => {
+      generator = new ZodGenerator(generatorConfig, new MemoryClient({ collections: [articles, authors], relations }));
+      await generator.setRelationships();
+      return evaluateSchemas(`${generator.generateSchema(articles, true)}\n\n${generator.generateSchema(authors, true)}`);
+    };
+
+    it('should not use z.lazy for a chain of M2O fields', async () => {
+      const authorsWithoutArticles = { ...authors, fields: authors.fields.filter(field => field.field !== 'articles') };
+      generator = new ZodGenerator(config, new MemoryClient({ collections: [articles, authorsWithoutArticles], relations }));
+      await generator.setRelationships();
+
+      const result = `${generator.generateSchema(authorsWithoutArticles)}\n\n${generator.generateSchema(articles)}`;
+
+      expect(result).not.toContain('z.lazy');
+      expect(result).toContain('export const DrxArticleSchema = z.object({');
+      expect(evaluateSchemas(result).DrxArticleSchema.safeParse({ id: 1, title: 'Hello', status: 'draft', author: { id: 2, name: 'Ada' } }).success).toBe(true);
+    });
+
+    it('should only reference the O2M back-reference lazily', async () => {
+      generator = new ZodGenerator(config, new MemoryClient({ collections: [articles, authors], relations }));
+      await generator.setRelationships();
+
+      const authorsSchema = generator.generateSchema(authors);
+      const articlesSchema = generator.generateSchema(articles);
+
+      expect(articlesSchema).toContain('author: z.union([z.number().int(), DrxAuthorSchema]).nullable().optional()');
+      expect(authorsSchema).toContain('articles: z.array(z.union([z.number().int(), z.lazy(() => DrxArticleSchema)])).nullable().optional()');
+      expect(generator.getReferences('authors')).toEqual({ collections: ['articles'], deferred: ['articles'], files: false });
+      expect(evaluateSchemas(`${authorsSchema}\n\n${articlesSchema}`).DrxAuthorGetSchema.safeParse({ id: 1, name: 'Ada', articles: [2, { id: 3, title: 'Hello', status: 'draft', author: 1 }] }).success).toBe(true);
+    });
+
+    it('should keep the base schema an object and reference the cycle lazily', async () => {
+      generator = new ZodGenerator(config, new MemoryClient({ collections: [articles, authors], relations }));
+      await generator.setRelationships();
+
+      const result = generator.generateSchema(articles, true);
+
+      expect(result).toContain('export const DrxArticleSchema: z.ZodObject<z.ZodRawShape> = z.object({');
+      expect(result).toContain('author: z.union([z.number().int(), z.lazy(() => DrxAuthorSchema)]).nullable().optional()');
+      expect(result).toContain('export const DrxArticleCreateSchema = DrxArticleSchema.omit({');
+    });
+
+    it.each(['either', 'expanded'] as const)('should parse the Create, Update and Get schemas in %s relation mode', async relationMode => {
+      const schemas = await generateCycle({ ...config, relationMode });
+
+      expect(schemas.DrxArticleCreateSchema.parse({ title: 'Hello' })).toEqual({ title: 'Hello', status: 'draft' });
+      expect(schemas.DrxArticleUpdateSchema.safeParse({ id: 1, title: 'Hello' }).success).toBe(true);
+      expect(schemas.DrxArticleUpdateSchema.safeParse({ title: 'Hello' }).success).toBe(false);
+      expect(schemas.DrxAuthorGetSchema.safeParse({ id: 1, name: 'Ada', articles: [{ id: 2, title: 'Hello', status: 'draft', author: { id: 1, name: 'Ada' } }] }).success).toBe(true);
+      expect(schemas.DrxAuthorGetSchema.safeParse({ id: 1, name: 'Ada', articles: [{ id: 2, title: 42 }] }).success).toBe(false);
+    });
+
+    it('should parse the role variants of a collection in a cycle', async () => {
+      generator = new ZodGenerator(config, new MemoryClient({ collections: [articles, authors], relations }));
+      await generator.setRelationships();
+      const schemas = evaluateSchemas([
+        generator.generateSchema(articles, true),
+        generator.generateSchema(authors, true),
+        generator.generateRoleSchemas(articles, [{ role: 'Public', read: ['id', 'title', 'author'], create: ['title'], update: ['title'] }]),
+      ].join('\n\n'));
+
+      expect(schemas.DrxArticleSchema_Public.parse({ id: 1, title: 'Hello', status: 'draft', author: { id: 2, name: 'Ada' } })).toEqual({ id: 1, title: 'Hello', author: { id: 2, name: 'Ada' } });
+      expect(schemas.DrxArticleCreateSchema_Public.parse({ title: 'Hello', status: 'published' })).toEqual({ title: 'Hello' });
+      expect(schemas.DrxArticleUpdateSchema_Public.safeParse({ title: 'Hello' }).success).toBe(false);
+    });
+
+    it('should leave readonly fields out of the Create and Update schemas', async () => {
+      const schemas = await generateCycle(config);
+
+      expect(schemas.DrxArticleCreateSchema.parse({ title: 'Hello', views: 3 })).toEqual({ title: 'Hello', status: 'draft' });
+      expect(schemas.DrxArticleUpdateSchema.parse({ id: 1, views: 3 })).toEqual({ id: 1 });
+      expect(schemas.DrxArticleGetSchema.parse({ id: 1, title: 'Hello', status: 'draft', views: 3 })).toEqual({ id: 1, title: 'Hello', status: 'draft', views: 3 });
+    });
+  });
+
+
+  describe('generateRoleSchemas', () => {
+    const collection: DirectusCollectionWithFields = {
+      collection: 'articles',
+      fields: [
+        { field: 'id', type: 'integer', schema: { name: 'id', table: 'articles', data_type: 'integer', is_nullable: false, is_unique: true, is_primary_key: true, has_auto_increment: true } },
+        { field: 'title', type: 'string' },
+        { field: 'status', type: 'string' },
+        { field: 'date_created', type: 'timestamp' },
+      ],
+    };
+
+    it('should pick the fields each role may read, create and update', () => {
+      const result = generator.generateRoleSchemas(collection, [
+        { role: 'Editor', read: ['*'], create: ['*'], update: ['title'] },
+        { role: 'Public', read: ['id', 'title', 'missing'] },
+      ]);
+
+      expect(result).toContain('export const DrxArticleSchema_Editor = DrxArticleSchema.pick({\n    id: true,\n    title: true,\n    status: true,\n    date_created: true\n});');
+      expect(result).toContain('export const DrxArticleCreateSchema_Editor = DrxArticleCreateSchema.pick({\n    title: true,\n    status: true\n});');
+      expect(result).toContain('export const DrxArticleUpdateSchema_Editor = DrxArticleUpdateSchema.pick({\n    id: true,\n    title: true\n});');
+      expect(result).toContain('export const DrxArticleSchema_Public = DrxArticleSchema.pick({\n    id: true,\n    title: true\n});');
+      expect(result).not.toContain('DrxArticleCreateSchema_Public');
+    });
+
+    it('should pick nothing for a role without readable fields', () => {
+      const result = generator.generateRoleSchemas(collection, [{ role: 'Public', read: [] }]);
+
+      expect(result).toBe('export const DrxArticleSchema_Public = DrxArticleSchema.pick({});');
+    });
+  });
+
+  describe('generateFilterSchemas', () => {
+    const relations: DirectusRelation[] = [
+      {
+        collection: 'comments',
+        field: 'article',
+        related_collection: 'articles',
+        meta: { many_collection: 'comments', many_field: 'article', one_collection: 'articles', one_field: 'comments', one_collection_field: null, one_allowed_collections: null, junction_field: null, sort_field: null },
+      },
+    ];
+    const articles: DirectusCollectionWithFields = {
+      collection: 'articles',
+      fields: [
+        {
+          field: 'title',
+          type: 'string',
+          schema: { name: 'title', table: 'articles', data_type: 'character varying', is_nullable: true, is_unique: false, is_primary_key: false, has_auto_increment: false },
+          meta: { id: 1, collection: 'articles', field: 'title', required: false, readonly: false, hidden: false },
+        },
+        {
+          field: 'published_at',
+          type: 'timestamp',
+          schema: { name: 'published_at', table: 'articles', data_type: 'timestamp', is_nullable: true, is_unique: false, is_primary_key: false, has_auto_increment: false },
+          meta: { id: 2, collection: 'articles', field: 'published_at', required: false, readonly: false, hidden: false },
+        },
+        {
+          field: 'author',
+          type: 'integer',
+          schema: { name: 'author', table: 'articles', data_type: 'integer', is_nullable: true, is_unique: false, is_primary_key: false, has_auto_increment: false, foreign_key_table: 'authors' },
+          meta: { id: 3, collection: 'articles', field: 'author', special: ['m2o'], interface: 'select-dropdown-m2o', required: false, readonly: false, hidden: false },
+        },
+        {
+          field: 'comments',
+          type: 'alias',
+          meta: { id: 4, collection: 'articles', field: 'comments', special: ['o2m'], interface: 'list-o2m', required: false, readonly: false, hidden: false },
+        },
+      ],
+    };
+    const comments: DirectusCollectionWithFields = {
+      collection: 'comments',
+      fields: [
+        {
+          field: 'id',
+          type: 'uuid',
+          schema: { name: 'id', table: 'comments', data_type: 'uuid', is_nullable: false, is_unique: true, is_primary_key: true, has_auto_increment: false },
+          meta: { id: 5, collection: 'comments', field: 'id', required: false, readonly: true, hidden: true },
+        },
+        {
+          field: 'article',
+          type: 'integer',
+          schema: { name: 'article', table: 'comments', data_type: 'integer', is_nullable: true, is_unique: false, is_primary_key: false, has_auto_increment: false, foreign_key_table: 'articles' },
+          meta: { id: 6, collection: 'comments', field: 'article', special: ['m2o'], interface: 'select-dropdown-m2o', required: false, readonly: false, hidden: false },
+        },
+      ],
+    };
+
+    it('should validate each field with the operators of its type', async () => {
+      generator = new ZodGenerator(config, new MemoryClient({ collections: [comments], relations }));
+      await generator.setRelationships();
+
+      const result = generator.generateFilterSchemas([articles, comments]);
+
+      expect(result).toContain('export const DrxArticleFilterSchema: z.ZodType<DrsArticleFilter> = z.lazy(() => z.object({');
+      expect(result).toContain('    title: DrxStringFilterSchema.optional()');
+      expect(result).toContain('    published_at: DrxDateFilterSchema.optional()');
+      expect(result).toContain('    _and: z.array(DrxArticleFilterSchema).optional()');
+      expect(result).toContain('_between: z.tuple([value, value]).optional()');
+    });
+
+    it('should filter relations by key, related fields or _some/_none', async () => {
+      generator = new ZodGenerator(config, new MemoryClient({ collections: [comments], relations }));
+      await generator.setRelationships();
+
+      const result = generator.generateFilterSchemas([articles, comments]);
+
+      expect(result).toContain('    author: drxFieldFilter(z.number().int()).strict().optional()');
+      expect(result).toContain('    comments: drxRelationalFilter(DrxCommentFilterSchema).optional()');
+      expect(result).toContain('    article: z.union([drxFieldFilter(z.number().int()).strict(), DrxArticleFilterSchema]).optional()');
+      expect(result).toContain('    comments: drxDeepQuery(DrxCommentFilterSchema, DrxCommentSortSchema).and(DrxCommentDeepSchema).optional()');
+    });
+
+    it('should generate the sort and query schemas of a collection', async () => {
+      generator = new ZodGenerator(config, new MemoryClient({ collections: [comments], relations }));
+      await generator.setRelationships();
+
+      const result = generator.generateFilterSchemas([articles, comments]);
+
+      expect(result).toContain('export const DrxArticleSortSchema = z.enum(["title", "-title", "published_at", "-published_at", "author", "-author"]);');
+      expect(result).toContain('export const DrxArticleQuerySchema = z.object({');
+      expect(result).toContain('    sort: z.array(DrxArticleSortSchema).optional()');
+      expect(result).toContain('    deep: DrxArticleDeepSchema.optional()');
+    });
+
+    it('should accept range operators with numbers or numeric strings on decimal fields', () => {
+      const products: DirectusCollectionWithFields = {
+        collection: 'products',
+        fields: [
+          {
+            field: 'price',
+            type: 'decimal',
+            schema: { name: 'price', table: 'products', data_type: 'numeric', is_nullable: true, is_unique: false, is_primary_key: false, has_auto_increment: false, numeric_precision: 10, numeric_scale: 2 },
+            meta: { id: 1, collection: 'products', field: 'price', required: false, readonly: false, hidden: false },
+          },
+        ],
+      };
+
+      const result = generator.generateFilterSchemas([products], false);
+      const { DrxProductFilterSchema } = evaluateSchemas(result);
+
+      expect(result).toContain('    price: DrxNumericStringFilterSchema.optional()');
+      expect(DrxProductFilterSchema.safeParse({ price: { _gte: 9.99 } }).success).toBe(true);
+      expect(DrxProductFilterSchema.safeParse({ price: { _gte: '9.99' } }).success).toBe(true);
+      expect(DrxProductFilterSchema.safeParse({ price: { _gte: true } }).success).toBe(false);
+    });
+
+    it('should accept filters through the foreign keys of an M2M junction', async () => {
+      const field = (collection: string, name: string, type: string, meta: Partial<NonNullable<DirectusField['meta']>> = {}): DirectusField => ({
+        field: name,
+        type,
+        schema: type === 'alias' ? undefined : { name, table: collection, data_type: type, is_nullable: name !== 'id', is_unique: name === 'id', is_primary_key: name === 'id', has_auto_increment: name === 'id' },
+        meta: { id: 1, collection, field: name, required: false, readonly: false, hidden: false, ...meta },
+      });
+      const junctionRelation = (name: string, related: string, oneField: string | null, junctionField: string): DirectusRelation => ({
+        collection: 'articles_tags',
+        field: name,
+        related_collection: related,
+        meta: { many_collection: 'articles_tags', many_field: name, one_collection: related, one_field: oneField, one_collection_field: null, one_allowed_collections: null, junction_field: junctionField, sort_field: null },
+      });
+      const posts: DirectusCollectionWithFields = {
+        collection: 'articles',
+        fields: [field('articles', 'id', 'integer'), field('articles', 'tags', 'alias', { special: ['m2m'], interface: 'list-m2m' })],
+      };
+      const articlesTags: DirectusCollectionWithFields = {
+        collection: 'articles_tags',
+        fields: [field('articles_tags', 'id', 'integer'), field('articles_tags', 'articles_id', 'integer'), field('articles_tags', 'tags_id', 'integer')],
+      };
+      const tags: DirectusCollectionWithFields = {
+        collection: 'tags',
+        fields: [field('tags', 'id', 'integer'), field('tags', 'label', 'string')],
+      };
+      generator = new ZodGenerator(config, new MemoryClient({
+        collections: [articlesTags],
+        relations: [junctionRelation('articles_id', 'articles', 'tags', 'tags_id'), junctionRelation('tags_id', 'tags', null, 'articles_id')],
+      }));
+      await generator.setRelationships();
+
+      const { DrxArticleQuerySchema } = evaluateSchemas(generator.generateFilterSchemas([posts, articlesTags, tags], false));
+
+      expect(DrxArticleQuerySchema.safeParse({ filter: { tags: { tags_id: { label: { _eq: 'x' } } } } }).success).toBe(true);
+      expect(DrxArticleQuerySchema.safeParse({ filter: { tags: { _some: { tags_id: { _eq: 1 } } } } }).success).toBe(true);
+      expect(DrxArticleQuerySchema.safeParse({ filter: { tags: { tags_id: { name: { _eq: 'x' } } } } }).success).toBe(false);
+    });
+
+    it('should leave the recursive schemas untyped when types are not generated', () => {
+      const result = generator.generateFilterSchemas([articles], false);
+
+      expect(result).toContain('export const DrxArticleFilterSchema: z.ZodType<any> = z.lazy(');
+      expect(result).not.toContain('DrsArticle');
+    });
   });
 
-});
\ No newline at end of file
+  describe('generateSchemaFile', () => {
+    it('should join schemas in the given order under a single zod import', () => {
+      const result = generator.generateSchemaFile([
+        { collectionName: 'authors', schema: 'export const DrxAuthorSchema = z.object({});' },
+        { collectionName: 'articles', schema: 'export const DrxArticleSchema = z.object({ author: DrxAuthorSchema });', type: 'export interface DrsArticle {}' },
+      ]);
+
+      expect(result).toBe("import { z } from 'zod';\n\nexport const DrxAuthorSchema = z.object({});\n\nexport const DrxArticleSchema = z.object({ author: DrxAuthorSchema });");
+    });
+
+    it('should import the file schemas when a schema references them', () => {
+      const result = generator.generateSchemaFile([
+        { collectionName: 'articles', schema: 'export const DrxArticleSchema = z.object({ image: DrxImageFileSchema });', references: { collections: [], files: true } },
+      ]);
+
+      expect(result).toContain("import { DrxFileSchema, DrxImageFileSchema, type DrsFile, type DrsImageFile } from './file-schemas';");
+    });
+  });
+});
@@ -1,23 +1,30 @@
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 import { z } from 'zod'; // Used in generated code strings
-import { DirectusCollectionWithFields, DirectusField, ZodirectusConfig, GeneratedSchema } from '../types';
-import { StringUtils } from '../lib';
+import { DirectusCollectionWithFields, DirectusField, DirectusRelation, ZodirectusConfig, GeneratedSchema, SchemaSource, ManyToAnyRelation, ManyToManyRelation, SchemaReferences, CollectionAccess } from '../types';
+import { ValidationUtils, ConstraintUtils, DefaultValueUtils, RelationshipUtils, PrimaryKeyUtils, NamingUtils, ImportUtils, PermissionUtils, FieldUtils } from '../lib';
 
 /**
  * Zod Schema Generator for Directus collections
  */
 export class ZodGenerator {
   private config: ZodirectusConfig;
-  private relationships: any[] = [];
-  private client: any;
-
-  constructor(config: ZodirectusConfig, client?: any) {
+  private relationships: DirectusRelation[] = [];
+  private primaryKeys = new Map<string, DirectusField>();
+  private client?: SchemaSource;
+  private naming: NamingUtils;
+  private references = new Map<string, SchemaReferences>();
+  private currentReferences?: Required<SchemaReferences>;
+  private lazyReferences = false;
+
+  constructor(config: ZodirectusConfig, client?: SchemaSource) {
     this.config = config;
     this.client = client;
+    this.naming = new NamingUtils(config.naming);
   }
 
   /**
-   * Set relationships data for proper M2M field resolution
+   * Set relationships data for proper M2M field resolution, and the primary keys
+   * that unexpanded relation fields contain
    */
   async setRelationships(): Promise<void> {
     if (this.client) {
@@ -28,6 +35,13 @@ export class ZodGenerator {
         console.warn('Could not load relationships:', error);
         this.relationships = [];
       }
+
+      try {
+        this.primaryKeys = PrimaryKeyUtils.getPrimaryKeyFields(await this.client.getFields());
+      } catch (error) {
+        console.warn('Could not load primary keys:', error);
+        this.primaryKeys = new Map();
+      }
     }
   }
 
@@ -35,76 +49,297 @@ export class ZodGenerator {
    * Generate Zod schema for a collection
    */
   generateSchema(collection: DirectusCollectionWithFields, isCircularDependency: boolean = false): string {
-    const collectionName = this.toPascalCase(collection.collection);
-    const singularName = this.toSingular(collectionName);
-    const schemaName = `Drx${singularName}Schema`;
+    this.currentReferences = { collections: [], deferred: [], files: false };
+    this.lazyReferences = isCircularDependency;
+
+    try {
+      return this.renderSchema(collection, isCircularDependency);
+    } finally {
+      this.lazyReferences = false;
+      this.references.set(collection.collection, {
+        ...this.currentReferences,
+        collections: this.currentReferences.collections.filter(name => name !== collection.collection),
+        deferred: this.currentReferences.deferred.filter(name => name !== collection.collection),
+      });
+      this.currentReferences = undefined;
+    }
+  }
+
+  /**
+   * Get the collections and file schemas the last generated schema of a collection refers to
+   */
+  getReferences(collectionName: string): SchemaReferences {
+    return this.references.get(collectionName) ?? { collections: [], files: false };
+  }
+
+  /**
+   * Render the base, Create, Update and Get schemas of a collection
+   */
+  private renderSchema(collection: DirectusCollectionWithFields, isCircularDependency: boolean): string {
+    const schemaName = this.naming.getSchemaName(collection.collection);
     
     const filteredFields = collection.fields
-      .filter(field => !this.isDividerField(field)); // Include all fields except dividers
+      .filter(field => !FieldUtils.isPresentationField(field)); // Dividers, notices and groups have no value
     
     // Check if ID field exists, if not add it
     const hasIdField = filteredFields.some(field => field.field === 'id');
-    const fields = filteredFields.map(field => this.generateFieldSchema(field));
+    const fieldSchemas = new Map(filteredFields.map(field => [field.field, this.generateFieldSchema(field)]));
+    const fields = filteredFields.map(field => `${field.field}: ${fieldSchemas.get(field.field)}`);
     
     if (!hasIdField) {
       fields.unshift('id: z.string().uuid().optional()');
     }
     
     const fieldsString = fields.join(',\n    ');
+    const debugInfo = this.generateRelationshipDebugInfo(collection);
 
-    if (isCircularDependency) {
-      // For circular dependencies, generate lazy schemas
-      const debugInfo = this.generateRelationshipDebugInfo(collection);
-      const baseSchema = `export const ${schemaName}: z.ZodType<any> = z.lazy(() => z.object({
+    // Lazy references keep the base a plain object that the variants derive from. They close a
+    // cycle, so the annotation stops TypeScript from inferring the schema through it.
+    const hasLazyReferences = isCircularDependency || (this.currentReferences?.deferred.length ?? 0) > 0;
+    const annotation = hasLazyReferences ? ': z.ZodObject<z.ZodRawShape>' : '';
+    const baseSchema = `export const ${schemaName}${annotation} = z.object({
     ${fieldsString}
-}));`;
+});`;
 
-      // Generate Create schema as a separate lazy schema
-      const createSchemaName = schemaName.replace('Schema', 'CreateSchema');
-      const fieldsToOmit = this.getFieldsToOmitForCreate(filteredFields, hasIdField);
-      const omitFieldsString = fieldsToOmit.map(field => `    ${field}: true`).join(',\n');
-      const createSchema = `export const ${createSchemaName}: z.ZodType<any> = z.lazy(() => (${schemaName} as z.ZodObject<any>).omit({
+    // Generate Create schema using .omit() - only omit fields that actually exist
+    const createSchemaName = this.naming.getSchemaName(collection.collection, 'create');
+    const fieldsToOmit = this.getFieldsToOmitForCreate(filteredFields, hasIdField);
+    const omitFieldsString = fieldsToOmit.map(field => `    ${field}: true`).join(',\n');
+    const createDefaults = this.generateCreateDefaults(filteredFields, fieldsToOmit, fieldSchemas);
+    const createSchema = `export const ${createSchemaName} = ${schemaName}.omit({
 ${omitFieldsString}
-}));`;
+})${createDefaults};`;
 
-      // Generate Update schema as a separate lazy schema
-      const updateSchemaName = schemaName.replace('Schema', 'UpdateSchema');
-      const updateSchema = `export const ${updateSchemaName}: z.ZodType<any> = z.lazy(() => (${schemaName} as z.ZodObject<any>).partial().required({
+    // Generate Update schema using .partial().required(), without the fields the API won't update
+    const updateSchemaName = this.naming.getSchemaName(collection.collection, 'update');
+    const updateOmit = this.generateUpdateOmit(filteredFields);
+    const updateSchema = `export const ${updateSchemaName} = ${schemaName}${updateOmit}.partial().required({
     id: true
-}));`;
+});`;
 
-      // Generate Get schema as a separate lazy schema
-      const getSchemaName = schemaName.replace('Schema', 'GetSchema');
-      const getSchema = `export const ${getSchemaName}: z.ZodType<any> = z.lazy(() => ${schemaName});`;
+    // Generate Get schema (same as base for now)
+    const getSchemaName = this.naming.getSchemaName(collection.collection, 'get');
+    const getSchema = `export const ${getSchemaName} = ${schemaName};`;
 
-      return `${debugInfo}${baseSchema}\n\n${createSchema}\n\n${updateSchema}\n\n${getSchema}`;
-    } else {
-      // For non-circular dependencies, generate normal schemas
-      const debugInfo = this.generateRelationshipDebugInfo(collection);
-      const baseSchema = `export const ${schemaName} = z.object({
-    ${fieldsString}
-});`;
+    return `${debugInfo}${baseSchema}\n\n${createSchema}\n\n${updateSchema}\n\n${getSchema}`;
+  }
 
-      // Generate Create schema using .omit() - only omit fields that actually exist
-      const createSchemaName = schemaName.replace('Schema', 'CreateSchema');
-      const fieldsToOmit = this.getFieldsToOmitForCreate(filteredFields, hasIdField);
-      const omitFieldsString = fieldsToOmit.map(field => `    ${field}: true`).join(',\n');
-      const createSchema = `export const ${createSchemaName} = ${schemaName}.omit({
-${omitFieldsString}
-});`;
+  /**
+   * Generate schemas holding only the fields each role may read, create and update,
+   * e.g. `DrxArticleSchema_Editor` and `DrxArticleCreateSchema_Public`
+   */
+  generateRoleSchemas(collection: DirectusCollectionWithFields, access: CollectionAccess[]): string {
+    const filteredFields = collection.fields.filter(field => !FieldUtils.isPresentationField(field));
+    const hasIdField = filteredFields.some(field => field.field === 'id');
+    const fields = hasIdField ? filteredFields.map(field => field.field) : ['id', ...filteredFields.map(field => field.field)];
+    const fieldsToOmit = this.getFieldsToOmitForCreate(filteredFields, hasIdField);
+    const createFields = fields.filter(field => !fieldsToOmit.includes(field));
+    const fieldsToOmitForUpdate = FieldUtils.getFieldsToOmitForUpdate(filteredFields, this.config.omitHiddenFields);
+    const updateFields = fields.filter(field => !fieldsToOmitForUpdate.includes(field));
+
+    const schemas: string[] = [];
+    for (const { role, read, create, update } of access) {
+      if (read) {
+        schemas.push(this.generatePickSchema(
+          this.naming.getSchemaName(collection.collection, undefined, role),
+          this.naming.getSchemaName(collection.collection),
+          PermissionUtils.getAllowedFields(read, fields)
+        ));
+      }
 
-      // Generate Update schema using .partial().required()
-      const updateSchemaName = schemaName.replace('Schema', 'UpdateSchema');
-      const updateSchema = `export const ${updateSchemaName} = ${schemaName}.partial().required({
-    id: true
-});`;
+      if (create) {
+        schemas.push(this.generatePickSchema(
+          this.naming.getSchemaName(collection.collection, 'create', role),
+          this.naming.getSchemaName(collection.collection, 'create'),
+          PermissionUtils.getAllowedFields(create, createFields)
+        ));
+      }
+
+      // Updates are addressed by id, whether or not the role may change it
+      if (update) {
+        schemas.push(this.generatePickSchema(
+          this.naming.getSchemaName(collection.collection, 'update', role),
+          this.naming.getSchemaName(collection.collection, 'update'),
+          ['id', ...PermissionUtils.getAllowedFields(update, updateFields).filter(field => field !== 'id')]
+        ));
+      }
+    }
+
+    return schemas.join('\n\n');
+  }
+
+  /**
+   * Generate a schema that picks fields from another schema of the collection
+   */
+  private generatePickSchema(schemaName: string, sourceSchemaName: string, fields: string[]): string {
+    const pickFieldsString = fields.map(field => `    ${field}: true`).join(',\n');
+    const pick = fields.length > 0 ? `{\n${pickFieldsString}\n}` : '{}';
+
+    return `export const ${schemaName} = ${sourceSchemaName}.pick(${pick});`;
+  }
+
+  /**
+   * Generate Drx*FilterSchema, Drx*SortSchema, Drx*DeepSchema and Drx*QuerySchema for
+   * the Directus query parameters of each collection. Recursive schemas are annotated
+   * with the matching Drs*Filter and Drs*Deep types when those are generated too.
+   */
+  generateFilterSchemas(collections: DirectusCollectionWithFields[], withTypes: boolean = true): string {
+    const collectionNames = new Set(collections.map(collection => collection.collection));
+    const collectionSchemas = collections.map(collection => this.generateCollectionFilterSchemas(collection, collectionNames, withTypes));
+
+    return `const drxFieldFilter = <T extends z.ZodTypeAny>(value: T) => z.object({
+    _eq: value.optional(),
+    _neq: value.optional(),
+    _in: z.array(value).optional(),
+    _nin: z.array(value).optional(),
+    _null: z.boolean().optional(),
+    _nnull: z.boolean().optional()
+});
+
+const drxRangeFilter = <T extends z.ZodTypeAny>(value: T) => drxFieldFilter(value).extend({
+    _gt: value.optional(),
+    _gte: value.optional(),
+    _lt: value.optional(),
+    _lte: value.optional(),
+    _between: z.tuple([value, value]).optional(),
+    _nbetween: z.tuple([value, value]).optional()
+});
+
+const drxRelationalFilter = <T extends z.ZodTypeAny>(filter: T) => z.union([
+    z.object({ _some: filter.optional(), _none: filter.optional() }).strict(),
+    filter
+]);
+
+const drxDeepQuery = <F extends z.ZodTypeAny, S extends z.ZodTypeAny>(filter: F, sort: S) => z.object({
+    _filter: filter.optional(),
+    _sort: z.array(sort).optional(),
+    _limit: z.number().int().min(-1).optional(),
+    _offset: z.number().int().min(0).optional(),
+    _page: z.number().int().min(1).optional(),
+    _search: z.string().optional()
+});
+
+export const ${this.naming.getSharedSchemaName('StringFilter')} = drxFieldFilter(z.string()).extend({
+    _contains: z.string().optional(),
+    _ncontains: z.string().optional(),
+    _icontains: z.string().optional(),
+    _starts_with: z.string().optional(),
+    _nstarts_with: z.string().optional(),
+    _istarts_with: z.string().optional(),
+    _ends_with: z.string().optional(),
+    _nends_with: z.string().optional(),
+    _iends_with: z.string().optional(),
+    _empty: z.boolean().optional(),
+    _nempty: z.boolean().optional()
+}).strict();
+
+export const ${this.naming.getSharedSchemaName('NumberFilter')} = drxRangeFilter(z.number()).strict();
+
+// Dates are compared as ISO strings or dynamic variables such as $NOW
+export const ${this.naming.getSharedSchemaName('DateFilter')} = drxRangeFilter(z.string()).strict();
+
+// Numeric columns typed as strings, such as decimal and bigInteger, compare against numbers or numeric strings
+export const ${this.naming.getSharedSchemaName('NumericStringFilter')} = drxRangeFilter(z.union([z.number(), z.string()])).strict();
+
+${collectionSchemas.join('\n\n')}
+`;
+  }
+
+  /**
+   * Generate the filter, sort, deep and query schemas of a collection
+   */
+  private generateCollectionFilterSchemas(collection: DirectusCollectionWithFields, collectionNames: Set<string>, withTypes: boolean): string {
+    const name = collection.collection;
+    const fields = collection.fields.filter(field => !FieldUtils.isPresentationField(field));
+    const relationshipUtils = new RelationshipUtils(this.relationships);
+
+    const filters: string[] = [];
+    const deep: string[] = [];
+
+    for (const field of fields) {
+      const target = relationshipUtils.getRelationTarget(field);
+      const targetName = target && collectionNames.has(target.collection) ? target.collection : undefined;
+      const targetFilter = targetName && this.naming.getSchemaName(targetName, 'filter');
+
+      if (target?.many) {
+        if (targetFilter) {
+          filters.push(`    ${field.field}: drxRelationalFilter(${targetFilter}).optional()`);
+        }
+      } else if (target) {
+        // Single relations are filtered by key, or by the fields of the related item
+        const keyFilter = `drxFieldFilter(${PrimaryKeyUtils.getZodType(field)}).strict()`;
+        filters.push(`    ${field.field}: ${targetFilter ? `z.union([${keyFilter}, ${targetFilter}])` : keyFilter}.optional()`);
+      } else if (field.type !== 'alias') {
+        filters.push(`    ${field.field}: ${this.getFieldFilterSchema(field)}.optional()`);
+      }
+
+      if (targetName) {
+        deep.push(`    ${field.field}: drxDeepQuery(${targetFilter}, ${this.naming.getSchemaName(targetName, 'sort')}).and(${this.naming.getSchemaName(targetName, 'deep')}).optional()`);
+      }
+    }
+
+    const filterSchema = this.naming.getSchemaName(name, 'filter');
+    const sortSchemaName = this.naming.getSchemaName(name, 'sort');
+    const deepSchema = this.naming.getSchemaName(name, 'deep');
+
+    filters.push(`    _and: z.array(${filterSchema}).optional()`, `    _or: z.array(${filterSchema}).optional()`);
+
+    const sortFields = fields.filter(field => field.type !== 'alias').map(field => field.field);
+    const sortSchema = sortFields.length > 0
+      ? `z.enum([${sortFields.flatMap(field => [JSON.stringify(field), JSON.stringify(`-${field}`)]).join(', ')}])`
+      : 'z.string()';
+
+    const filterType = withTypes ? this.naming.getTypeName(name, 'filter') : 'any';
+    const deepType = withTypes ? this.naming.getTypeName(name, 'deep') : 'any';
+
+    return `export const ${filterSchema}: z.ZodType<${filterType}> = z.lazy(() => z.object({
+${filters.join(',\n')}
+}).strict());
+
+export const ${sortSchemaName} = ${sortSchema};
 
-      // Generate Get schema (same as base for now)
-      const getSchemaName = schemaName.replace('Schema', 'GetSchema');
-      const getSchema = `export const ${getSchemaName} = ${schemaName};`;
+export const ${deepSchema}: z.ZodType<${deepType}> = z.lazy(() => z.object({${deep.length > 0 ? `\n${deep.join(',\n')}\n` : ''}}));
 
-      return `${debugInfo}${baseSchema}\n\n${createSchema}\n\n${updateSchema}\n\n${getSchema}`;
+export const ${this.naming.getSchemaName(name, 'query')} = z.object({
+    fields: z.array(z.string()).optional(),
+    filter: ${filterSchema}.optional(),
+    search: z.string().optional(),
+    sort: z.array(${sortSchemaName}).optional(),
+    limit: z.number().int().min(-1).optional(),
+    offset: z.number().int().min(0).optional(),
+    page: z.number().int().min(1).optional(),
+    deep: ${deepSchema}.optional()
+}).strict();`;
+  }
+
+  /**
+   * Get the filter schema of a non-relational field from its Zod type
+   */
+  private getFieldFilterSchema(field: DirectusField): string {
+    if (this.isDateTimeField(field)) {
+      return this.naming.getSharedSchemaName('DateFilter');
+    }
+
+    const zodType = this.getZodType(field);
+
+    if ((zodType.startsWith('z.string()') || zodType === 'z.any()') && FieldUtils.isNumericField(field)) {
+      return this.naming.getSharedSchemaName('NumericStringFilter');
+    }
+
+    if (zodType.startsWith('z.string()')) {
+      return this.naming.getSharedSchemaName('StringFilter');
+    }
+
+    if (zodType.startsWith('z.number()')) {
+      return this.naming.getSharedSchemaName('NumberFilter');
+    }
+
+    // Booleans and choices compare against their own values
+    if (zodType === 'z.boolean()' || zodType.startsWith('z.enum(')) {
+      return `drxFieldFilter(${zodType}).strict()`;
     }
+
+    return 'drxFieldFilter(z.any()).strict()';
   }
 
   /**
@@ -123,10 +358,54 @@ ${omitFieldsString}
         fieldsToOmit.push(systemField);
       }
     }
+
+    // The API rejects readonly fields, and hidden ones are left out if configured
+    for (const field of fields) {
+      if (!fieldsToOmit.includes(field.field) && FieldUtils.isOmittedFromPayload(field, this.config.omitHiddenFields)) {
+        fieldsToOmit.push(field.field);
+      }
+    }
     
     return fieldsToOmit;
   }
 
+  /**
+   * Generate an `.omit()` call for the fields left out of the Update schema
+   */
+  private generateUpdateOmit(fields: DirectusField[]): string {
+    const fieldsToOmit = FieldUtils.getFieldsToOmitForUpdate(fields, this.config.omitHiddenFields);
+    if (fieldsToOmit.length === 0) {
+      return '';
+    }
+
+    return `.omit({
+${fieldsToOmit.map(field => `    ${field}: true`).join(',\n')}
+})`;
+  }
+
+  /**
+   * Generate an `.extend()` call that applies database defaults in the Create schema.
+   * Literal defaults become `.default()`, database expressions make the field optional.
+   * Both are applied to the field schemas of the base schema, keyed by field name.
+   */
+  private generateCreateDefaults(fields: DirectusField[], fieldsToOmit: string[], fieldSchemas: Map<string, string>): string {
+    const defaults = fields
+      .filter(field => !fieldsToOmit.includes(field.field) && DefaultValueUtils.hasDefaultValue(field))
+      .map(field => {
+        const defaultValue = DefaultValueUtils.toZodDefault(field, this.getZodType(field));
+        const modifier = defaultValue !== undefined ? `.default(${defaultValue})` : '.optional()';
+        return `    ${field.field}: ${fieldSchemas.get(field.field)}${modifier}`;
+      });
+
+    if (defaults.length === 0) {
+      return '';
+    }
+
+    return `.extend({
+${defaults.join(',\n')}
+})`;
+  }
+
   /**
    * Check if a field is a file field
    */
@@ -150,11 +429,11 @@ ${omitFieldsString}
     
     if (interface_ === 'files' || special.includes('files')) {
       // Multiple files - return array of file objects
-      return 'z.array(DrxFileSchema)';
+      return `z.array(${this.referenceFileSchema('File')})`;
     } else if (interface_ === 'file-image') {
-      return 'DrxImageFileSchema';
+      return this.wrapRelation(PrimaryKeyUtils.getZodType(field), () => this.referenceFileSchema('ImageFile'));
     } else {
-      return 'DrxFileSchema';
+      return this.wrapRelation(PrimaryKeyUtils.getZodType(field), () => this.referenceFileSchema('File'));
     }
   }
 
@@ -188,16 +467,16 @@ ${omitFieldsString}
   }
 
   /**
-   * Check if a field is a dropdown_multiple field
+   * Check if a field is a dropdown_multiple or multiple checkboxes field
    */
   private isDropdownMultipleField(field: DirectusField): boolean {
     const interface_ = field.meta?.interface || '';
     
-    return interface_ === 'select-multiple-dropdown';
+    return interface_ === 'select-multiple-dropdown' || interface_ === 'select-multiple-checkbox';
   }
 
   /**
-   * Generate Zod schema for a dropdown_multiple field
+   * Generate Zod schema for a dropdown_multiple or multiple checkboxes field
    */
   private generateDropdownMultipleSchema(field: DirectusField): string {
     const options = field.meta?.options || {};
@@ -358,6 +637,24 @@ ${omitFieldsString}
     }
   }
 
+  /**
+   * Get the Zod schema given for a field in the `fieldSchemas` config, if any
+   */
+  private getCustomFieldSchema(field: DirectusField): string | undefined {
+    const mapping = this.config.fieldSchemas?.[`${field.meta?.collection || field.collection}.${field.field}`];
+    return typeof mapping === 'string' ? mapping : mapping?.schema;
+  }
+
+  /**
+   * Check if a field is a JSON column edited as JSON code
+   */
+  private isJsonCodeField(field: DirectusField): boolean {
+    const directusType = field.schema?.data_type || field.type;
+    const language = String(field.meta?.options?.language || '').toLowerCase();
+
+    return field.meta?.interface === 'input-code' && language === 'json' && (directusType === 'json' || (field.meta?.special || []).includes('cast-json'));
+  }
+
   /**
    * Check if a field is a repeater field
    */
@@ -453,28 +750,6 @@ ${omitFieldsString}
     }
   }
 
-  /**
-   * Check if a field is a divider field that should be excluded
-   */
-  private isDividerField(field: DirectusField): boolean {
-    // Check if field name starts with 'divider-'
-    if (field.field.startsWith('divider-')) {
-      return true;
-    }
-    
-    // Check if field interface is 'divider'
-    if (field.meta?.interface === 'divider') {
-      return true;
-    }
-    
-    // Check if field type is 'divider'
-    if (field.type === 'divider') {
-      return true;
-    }
-    
-    return false;
-  }
-
   /**
    * Check if a field is a relation field
    */
@@ -573,207 +848,22 @@ ${omitFieldsString}
     return false;
   }
 
-  /**
-   * Get the related collection name for a relation field
-   */
-  private getRelatedCollectionName(field: DirectusField): string | null {
-    const special = field.meta?.special || [];
-    const options = field.meta?.options || {};
-    
-    // For M2O relations, get the foreign key table
-    if (special.includes('m2o') && field.schema?.foreign_key_table) {
-      return field.schema.foreign_key_table;
-    }
-    
-    // For M2M relations, check junction table and related collection
-    if (special.includes('m2m') || this.isManyToManyJunctionField(field)) {
-      // Check for explicit junction table configuration
-      if (options.junction_table) {
-        return options.junction_table;
-      }
-      
-      // Check for related collection in options
-      if (options.related_collection) {
-        return options.related_collection;
-      }
-      
-      // Try to infer from field name for M2M relationships
-      const fieldName = field.field;
-      
-      // For M2M fields, find the related collection from actual Directus relationships
-      if (special.includes('m2m')) {
-        // First check options for explicit configuration
-        if (options.related_collection) {
-          return options.related_collection;
-        }
-        
-        if (options.junction_collection) {
-          return options.junction_collection;
-        }
-        
-        if (options.collection) {
-          return options.collection;
-        }
-        
-        if (options.many_collection) {
-          return options.many_collection;
-        }
-        
-        if (options.one_collection) {
-          return options.one_collection;
-        }
-        
-        // If we have junction table info, try to infer from it
-        if (options.junction_table) {
-          const junctionTable = options.junction_table;
-          if (junctionTable.includes('_')) {
-            const parts = junctionTable.split('_');
-            const relatedPart = parts[parts.length - 1];
-            return relatedPart + 's';
-          }
-          return junctionTable;
-        }
-        
-        // Now try to find the relationship from the fetched relationships data
-        if (this.relationships.length > 0) {
-          const collectionName = field.meta?.collection;
-          
-          
-          // Look for relationships where this collection is involved
-          const m2mRelation = this.relationships.find((rel: any) => 
-            rel.collection === collectionName &&
-            rel.field === fieldName &&
-            rel.related_collection !== collectionName
-          );
-          
-          if (m2mRelation) {
-            return m2mRelation.related_collection;
-          }
-          
-          // Look for relationships where this collection is the related collection
-          const reverseM2mRelation = this.relationships.find((rel: any) => 
-            rel.related_collection === collectionName &&
-            rel.collection !== collectionName
-          );
-          
-          if (reverseM2mRelation) {
-            return reverseM2mRelation.collection;
-          }
-          
-          // For M2M fields, try to find junction tables that connect this collection to another collection
-          // Look for junction tables with pattern: {collectionName}_{relatedCollectionName}
-          const junctionRelations = this.relationships.filter((rel: any) => {
-            const junctionCollection = rel.collection;
-            // Check if this is a junction table that connects to our current collection
-            return junctionCollection.includes('_') && 
-                   junctionCollection.includes(collectionName) &&
-                   rel.related_collection === collectionName;
-          });
-          
-          if (junctionRelations.length > 0) {
-            
-            // For specific field names, try to find the most relevant junction table
-            let targetJunctionRelation = null;
-            
-            // Try to match field name to junction table pattern
-            if (fieldName === 'enables' || fieldName === 'disables') {
-              // Look for junction tables that contain "enabler"
-              targetJunctionRelation = junctionRelations.find((rel: any) => 
-                rel.collection.toLowerCase().includes('enabler')
-              );
-              
-              // If not found, try to find junction tables that don't contain "question"
-              if (!targetJunctionRelation) {
-                targetJunctionRelation = junctionRelations.find((rel: any) => 
-                  !rel.collection.toLowerCase().includes('question')
-                );
-              }
-            }
-            
-            // If no specific match, use the first junction relation
-            if (!targetJunctionRelation && junctionRelations.length > 0) {
-              targetJunctionRelation = junctionRelations[0];
-            }
-            
-            if (targetJunctionRelation) {
-              const junctionName = targetJunctionRelation.collection;
-              const parts = junctionName.split('_');
-              
-              // Look for pattern like "Answer_Enabler" -> "enablers"
-              if (parts.length >= 2) {
-                const relatedPart = parts.find((part: string) => 
-                  part.toLowerCase() !== (collectionName || '').toLowerCase() && 
-                  part.toLowerCase() !== 'id'
-                );
-                
-                if (relatedPart) {
-                  // Convert to plural form for the related collection name
-                  const relatedCollection = relatedPart.toLowerCase() + 's';
-                  
-                  // Verify this collection exists in our relationships
-                  const relatedExists = this.relationships.some((rel: any) => 
-                    rel.collection === relatedCollection || rel.related_collection === relatedCollection
-                  );
-                  
-                  if (relatedExists) {
-                    return relatedCollection;
-                  }
-                }
-              }
-            }
-          }
-        }
-        
-        // No relationship found, return null
-        return null;
-      }
-      
-      // Try to infer from junction field name (for junction table fields)
-      if (fieldName.includes('_')) {
-        const parts = fieldName.split('_');
-        // Look for patterns like: user_id -> users, application_id -> applications
-        if (parts.length >= 2) {
-          const lastPart = parts[parts.length - 1];
-          if (lastPart === 'id') {
-            const collectionPart = parts.slice(0, -1).join('_');
-            return collectionPart + 's'; // Make it plural
-          }
-        }
-      }
-    }
-    
-    // For O2M relations, we need to infer from the field name or options
-    if (special.includes('o2m')) {
-      // Check for explicit related collection
-      if (options.related_collection) {
-        return options.related_collection;
-      }
-      
-      // For O2M, the field name usually indicates the related collection
-      // e.g., 'activity_logs' field in 'audit_sessions' relates to 'audit_activity_logs'
-      const fieldName = field.field;
-      if (fieldName === 'activity_logs') {
-        return 'audit_activity_logs';
-      }
-      // Add more patterns as needed
-    }
-    
-    return null;
-  }
-
   /**
    * Generate Zod schema for a field
    */
   private generateFieldSchema(field: DirectusField): string {
-    const fieldName = field.field;
     const zodType = this.getZodType(field);
     const isRequired = field.meta?.required ?? false;
     const isNullable = field.schema?.is_nullable ?? true;
 
-    let schema = `${fieldName}: ${zodType}`;
+    // Enforce column limits and the same validation rules as the Directus server
+    const constraints = ConstraintUtils.getConstraintChain(field, zodType);
+    const validation = ValidationUtils.compileValidation(field, zodType);
+
+    let schema = `${zodType}${constraints}${validation.chain}`;
 
     // Handle nullable fields
-    if (isNullable && !isRequired) {
+    if (isNullable && !isRequired && !validation.nonNullable) {
       schema += '.nullable()';
     }
 
@@ -785,6 +875,100 @@ ${omitFieldsString}
     return schema;
   }
 
+  /**
+   * Generate an array of junction rows for a M2M field, or of related items when flattened
+   */
+  private generateManyToManySchema(field: DirectusField, relation: ManyToManyRelation): string {
+    const relatedCollection = relation.relatedCollection;
+    const itemSchema = () => this.referenceSchema(relatedCollection, true);
+
+    const item = () => this.wrapRelation(this.getPrimaryKeySchema(relatedCollection), itemSchema);
+
+    if (this.config.m2mMode === 'flatten') {
+      return `z.array(${item()})`;
+    }
+
+    const row = () => `z.object({ ${relation.junctionField}: ${item()} })`;
+    return `z.array(${this.wrapRelation(this.getPrimaryKeySchema(relation.junctionCollection), row)})`;
+  }
+
+  /**
+   * Generate a discriminated union of junction rows for a M2A field
+   */
+  private generateManyToAnySchema(field: DirectusField, relation: ManyToAnyRelation): string {
+    if (relation.allowedCollections.length === 0) {
+      return 'z.array(z.any())';
+    }
+
+    const options = () => relation.allowedCollections.map(collection => {
+      const item = this.wrapRelation(this.getPrimaryKeySchema(collection), () => this.referenceSchema(collection, true));
+      return `z.object({ ${relation.collectionField}: z.literal(${JSON.stringify(collection)}), ${relation.itemField}: ${item} })`;
+    });
+
+    const row = () => `z.discriminatedUnion(${JSON.stringify(relation.collectionField)}, [${options().join(', ')}])`;
+    return `z.array(${this.wrapRelation(this.getPrimaryKeySchema(relation.junctionCollection), row)})`;
+  }
+
+  /**
+   * Get the Zod type of a collection's primary key
+   */
+  private getPrimaryKeySchema(collection: string): string {
+    return PrimaryKeyUtils.getZodType(this.primaryKeys.get(collection));
+  }
+
+  /**
+   * Type a related item according to `relationMode`: its primary key, the expanded
+   * item, or either of them (the default), since Directus only expands relations
+   * that are requested through `fields`
+   */
+  private wrapRelation(primaryKeySchema: string, relatedSchema: () => string): string {
+    // The related schema is only built, and its references recorded, when it is used
+    switch (this.config.relationMode) {
+      case 'id-only':
+        return primaryKeySchema;
+      case 'expanded':
+        return relatedSchema();
+      default:
+        return `z.union([${primaryKeySchema}, ${relatedSchema()}])`;
+    }
+  }
+
+  /**
+   * Get the schema of a related collection and record the reference. Self-references, arrays
+   * of related items (the back-references of M2O fields and junction rows) and, in a circular
+   * dependency, every reference are wrapped in z.lazy() and don't constrain the declaration order.
+   */
+  private referenceSchema(collection: string, lazy: boolean = false): string {
+    const isLazy = lazy || this.lazyReferences;
+
+    if (this.currentReferences) {
+      const { collections, deferred } = this.currentReferences;
+      if (!collections.includes(collection)) {
+        collections.push(collection);
+        if (isLazy) {
+          deferred.push(collection);
+        }
+      } else if (!isLazy) {
+        // A direct reference outweighs lazy ones
+        this.currentReferences.deferred = deferred.filter(name => name !== collection);
+      }
+    }
+
+    const schemaName = this.naming.getSchemaName(collection);
+    return isLazy ? `z.lazy(() => ${schemaName})` : schemaName;
+  }
+
+  /**
+   * Get the name of a schema from file-schemas.ts and record the reference
+   */
+  private referenceFileSchema(name: 'File' | 'ImageFile'): string {
+    if (this.currentReferences) {
+      this.currentReferences.files = true;
+    }
+
+    return this.naming.getSharedSchemaName(name);
+  }
+
   /**
    * Generate debug information about relationships in a collection
    */
@@ -803,7 +987,7 @@ ${omitFieldsString}
     }
     
     relationFields.forEach(field => {
-      const relatedCollection = this.getRelatedCollectionName(field);
+      const relatedCollection = new RelationshipUtils(this.relationships).getRelatedCollectionName(field);
       const special = field.meta?.special || [];
       const interface_ = field.meta?.interface || '';
       const options = field.meta?.options || {};
@@ -829,6 +1013,12 @@ ${omitFieldsString}
     const special = field.meta?.special || [];
     const options = field.meta?.options || {};
 
+    // Schemas given for this field in the config come first
+    const customSchema = this.getCustomFieldSchema(field);
+    if (customSchema) {
+      return customSchema;
+    }
+
     // Handle file fields
     if (this.isFileField(field)) {
       return this.generateFileSchema(field);
@@ -869,51 +1059,45 @@ ${omitFieldsString}
       return this.generateRepeaterSchema(field);
     }
 
+    // Handle JSON code fields: any JSON value at the top level
+    if (this.isJsonCodeField(field)) {
+      return 'z.union([z.string(), z.number(), z.boolean(), z.null(), z.array(z.unknown()), z.record(z.string(), z.unknown())])';
+    }
+
+    // Handle M2A fields: junction rows keyed by the collection of their item
+    if (special.includes('m2a')) {
+      const m2aRelation = new RelationshipUtils(this.relationships).getManyToAnyRelation(field);
+      return m2aRelation ? this.generateManyToAnySchema(field, m2aRelation) : 'z.array(z.any())';
+    }
+
+    // Handle M2M fields: junction rows holding the related item
+    if (special.includes('m2m') || this.isManyToManyJunctionField(field)) {
+      const m2mRelation = new RelationshipUtils(this.relationships).getManyToManyRelation(field);
+      if (m2mRelation) {
+        return this.generateManyToManySchema(field, m2mRelation);
+      }
+    }
+
     // Handle relation fields
     if (this.isRelationField(field)) {
-      const relatedCollection = this.getRelatedCollectionName(field);
+      const relatedCollection = new RelationshipUtils(this.relationships).getRelatedCollectionName(field);
       if (relatedCollection) {
-        // Check if this is a system collection and use appropriate schema name
-        const isSystemCollection = relatedCollection.startsWith('directus_');
-        const baseCollectionName = isSystemCollection 
-          ? relatedCollection.replace('directus_', '') 
-          : relatedCollection;
-        const collectionName = this.toSingular(this.toPascalCase(baseCollectionName));
-        const relatedSchemaName = isSystemCollection 
-          ? `DrxDirectus${collectionName}Schema` 
-          : `Drx${collectionName}Schema`;
-        
         // Check if this is a self-reference (same collection)
         const currentCollectionName = field.meta?.collection || '';
         const isSelfReference = currentCollectionName === relatedCollection;
-        
+
         // M2O relations are single objects
         if (special.includes('m2o')) {
-          if (isSelfReference) {
-            // For self-references, use the correct schema name without double prefix
-            const selfSchemaName = isSystemCollection 
-              ? `DrxDirectus${this.toSingular(this.toPascalCase(relatedCollection.replace('directus_', '')))}Schema`
-              : `Drx${this.toSingular(this.toPascalCase(relatedCollection))}Schema`;
-            // Use z.lazy() for self-references to handle circular dependencies
-            return `z.lazy(() => ${selfSchemaName})`;
-          }
-          return relatedSchemaName;
+          // The foreign key column has the type of the related primary key.
+          // Use z.lazy() for self-references to handle circular dependencies
+          return this.wrapRelation(PrimaryKeyUtils.getZodType(field), () => this.referenceSchema(relatedCollection, isSelfReference));
         }
         
         // O2M relations are arrays
         if (special.includes('o2m')) {
-          return `z.array(${relatedSchemaName})`;
+          return `z.array(${this.wrapRelation(this.getPrimaryKeySchema(relatedCollection), () => this.referenceSchema(relatedCollection, true))})`;
         }
         
-        // M2A relations are arrays
-        if (special.includes('m2a')) {
-          return `z.array(${relatedSchemaName})`;
-        }
-        
-        // M2M relations are arrays (many-to-many)
-        if (special.includes('m2m') || this.isManyToManyJunctionField(field)) {
-          return `z.array(${relatedSchemaName})`;
-        }
       }
     }
 
@@ -1053,36 +1237,21 @@ ${omitFieldsString}
   }
 
   /**
-   * Generate complete schema file content
+   * Generate complete schema file content. Schemas are expected in dependency order,
+   * see DependencyUtils.sortTopologically.
    */
   generateSchemaFile(schemas: GeneratedSchema[]): string {
-    const imports = `import { z } from 'zod';
-
-`;
-    
     const schemaDefinitions = schemas
+      .filter(schema => schema.schema)
       .map(schema => schema.schema)
       .join('\n\n');
 
-    return imports + schemaDefinitions;
-  }
-
-  /**
-   * Convert string to PascalCase
-   */
-  private toPascalCase(str: string): string {
-    return str
-      .split(/[-_\s]+/)
-      .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
-      .join('');
-  }
+    let imports = `import { z } from 'zod';\n`;
+    if (schemas.some(schema => schema.references?.files)) {
+      imports += ImportUtils.generateFileSchemaImportStatement('./file-schemas', this.naming);
+    }
 
-  /**
-   * Convert plural word to singular
-   */
-  private toSingular(word: string): string {
-    // Use the shared StringUtils method instead of duplicating logic
-    return StringUtils.toSingular(word);
+    return `${imports}\n${schemaDefinitions}`;
   }
 
   /**
@@ -1091,8 +1260,7 @@ ${omitFieldsString}
   generateTypesFromSchemas(schemas: GeneratedSchema[]): string {
     const typeDefinitions = schemas
       .map(schema => {
-        const collectionName = this.toPascalCase(schema.collectionName);
-        return `export type ${collectionName} = z.infer<typeof ${collectionName}Schema>;`;
+        return `export type ${this.naming.getTypeName(schema.collectionName)} = z.infer<typeof ${this.naming.getSchemaName(schema.collectionName)}>;`;
       })
       .join('\n');
 
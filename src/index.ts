@@ -1,8 +1,9 @@
-import { ZodirectusConfig, GeneratedSchema } from './types';
+import { ZodirectusConfig, GeneratedSchema, DirectusCollectionWithFields, DirectusAccess, DirectusRelation, SchemaSource, SchemaReferences, StaleFile, WatchOptions, SchemaWatcher } from './types';
 import { DirectusClient } from './utils/directus-client';
+import { SnapshotClient } from './utils/snapshot-client';
 import { ZodGenerator } from './generators/zod-generator';
 import { TypeGenerator } from './generators/type-generator';
-import { StringUtils, DependencyUtils, FileSchemaUtils, CollectionUtils, ImportUtils, FileWriterUtils } from './lib';
+import { NamingUtils, DependencyUtils, FileSchemaUtils, CollectionUtils, ImportUtils, FileWriterUtils, WatchUtils, PermissionUtils, RolePermissions, FormLayoutUtils } from './lib';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -11,11 +12,14 @@ import * as path from 'path';
  */
 export class Zodirectus {
   private config: ZodirectusConfig;
-  private client: DirectusClient;
+  private client: SchemaSource;
   private zodGenerator: ZodGenerator;
   private typeGenerator: TypeGenerator;
+  /** Fetched collections and their first-pass results, reused when watch regenerates only some collections */
+  private collectionsWithFields = new Map<string, DirectusCollectionWithFields>();
+  private baseResults = new Map<string, GeneratedSchema>();
 
-  constructor(config: ZodirectusConfig) {
+  constructor(config: ZodirectusConfig, source?: SchemaSource) {
     this.config = {
       outputDir: './generated',
       generateTypes: true,
@@ -26,7 +30,10 @@ export class Zodirectus {
       ...config,
     };
     
-    this.client = new DirectusClient(this.config);
+    // Use the given schema source, then a schema snapshot file, then the live instance
+    this.client = source ?? (this.config.snapshotPath
+      ? new SnapshotClient(this.config)
+      : new DirectusClient(this.config));
     this.zodGenerator = new ZodGenerator(this.config, this.client);
     this.typeGenerator = new TypeGenerator(this.config, this.client);
   }
@@ -36,85 +43,259 @@ export class Zodirectus {
    */
   async generate(): Promise<GeneratedSchema[]> {
     try {
-      // Authenticate with Directus
-      await this.client.authenticate();
+      const results = await this.buildResults();
 
-      // Load relationships data for proper M2M field resolution
-      await this.zodGenerator.setRelationships();
-      await this.typeGenerator.setRelationships();
+      // Write files to output directory
+      await this.writeFiles(results);
 
-      // Get collections
-      const collections = await this.client.getCollections();
-      
-      // Filter collections using CollectionUtils
-      const actualCollections = CollectionUtils.filterCollections(collections, this.config);
-
-      console.log(`Found ${collections.length} total collections`);
-      console.log(`After filtering: ${actualCollections.length} collections to process`);
-      console.log('Collections to process:', actualCollections.map(c => c.collection));
-
-      const results: GeneratedSchema[] = [];
-
-      // Generate schemas and types for each collection
-      for (const collection of actualCollections) {
-        try {
-          const collectionWithFields = await this.client.getCollectionWithFields(collection.collection);
-          
-          if (this.config.generateSchemas) {
-            const schema = this.zodGenerator.generateSchema(collectionWithFields);
+      return results;
+    } catch (error) {
+      throw new Error(`Failed to generate schemas: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Run the whole pipeline in memory and report generated files that differ from
+   * the ones in the output directory. An empty list means the output is up to date.
+   */
+  async check(): Promise<StaleFile[]> {
+    try {
+      const results = await this.buildResults();
+      const files = await this.renderFiles(results);
+
+      return FileWriterUtils.findStaleFiles(files, this.config.outputDir!);
+    } catch (error) {
+      throw new Error(`Failed to check generated files: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Generate once, then poll the schema and regenerate the changed collections and the
+   * ones related to them whenever a collection, field or relation changes. Only files
+   * whose content changed are rewritten.
+   */
+  async watch(options: WatchOptions = {}): Promise<SchemaWatcher> {
+    const interval = options.interval ?? 5000;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+
+    // Fingerprint before generating so changes made in the meantime are picked up by the first poll
+    let { fingerprints } = await this.fetchSchemaState();
+    const results = await this.generate();
+    options.onGenerate?.(results, [...fingerprints.keys()]);
+
+    const poll = async () => {
+      try {
+        const { fingerprints: current, relations } = await this.fetchSchemaState();
+        const changedCollections = WatchUtils.getChangedCollections(fingerprints, current);
+
+        if (changedCollections.length > 0) {
+          console.log('Schema changed:', changedCollections);
+          const affectedCollections = WatchUtils.getAffectedCollections(changedCollections, relations);
+          const results = await this.buildResults(new Set(affectedCollections));
+          await this.writeFiles(results);
+          fingerprints = current;
+          options.onGenerate?.(results, changedCollections);
+        }
+      } catch (error) {
+        const watchError = error instanceof Error ? error : new Error('Unknown error');
+        if (options.onError) {
+          options.onError(watchError);
+        } else {
+          console.error('Watch error:', watchError.message);
+        }
+      }
+
+      if (!stopped) {
+        timer = setTimeout(poll, interval);
+      }
+    };
+
+    timer = setTimeout(poll, interval);
+
+    return {
+      stop: () => {
+        stopped = true;
+        if (timer) {
+          clearTimeout(timer);
+        }
+      },
+    };
+  }
+
+  /**
+   * Fetch the raw schema and hash it per collection
+   */
+  private async fetchSchemaState(): Promise<{ fingerprints: Map<string, string>; relations: DirectusRelation[] }> {
+    await this.client.authenticate();
+
+    const [collections, fields, relations] = await Promise.all([
+      this.client.getCollections(),
+      this.client.getFields(),
+      this.client.getRelationships(),
+    ]);
+
+    return {
+      fingerprints: WatchUtils.fingerprint(CollectionUtils.filterCollections(collections, this.config), fields, relations),
+      relations,
+    };
+  }
+
+  /**
+   * Fetch the schema and generate schemas and types without writing anything.
+   * With `refresh`, only those collections are fetched and generated again; the others
+   * reuse the results of the previous run.
+   */
+  private async buildResults(refresh?: Set<string>): Promise<GeneratedSchema[]> {
+    // Authenticate with Directus (or load the schema snapshot)
+    await this.client.authenticate();
+
+    // Load relationships data for proper M2M field resolution
+    await this.zodGenerator.setRelationships();
+    await this.typeGenerator.setRelationships();
+
+    // Get collections
+    const collections = await this.client.getCollections();
+    
+    // Filter collections using CollectionUtils
+    const actualCollections = CollectionUtils.filterCollections(collections, this.config);
+
+    console.log(`Found ${collections.length} total collections`);
+    console.log(`After filtering: ${actualCollections.length} collections to process`);
+    console.log('Collections to process:', actualCollections.map(c => c.collection));
+
+    const results: GeneratedSchema[] = [];
+    const collectionNames = actualCollections.map(c => c.collection);
+
+    // Forget collections that were removed or filtered out since the previous run
+    for (const cache of [this.collectionsWithFields, this.baseResults]) {
+      [...cache.keys()].filter(name => !collectionNames.includes(name)).forEach(name => cache.delete(name));
+    }
+
+    // Generate schemas and types for each collection
+    for (const collection of actualCollections) {
+      const cachedResult = this.baseResults.get(collection.collection);
+      if (refresh && !refresh.has(collection.collection) && cachedResult) {
+        results.push({ ...cachedResult });
+        continue;
+      }
+
+      try {
+        const collectionWithFields = await this.client.getCollectionWithFields(collection.collection);
+        this.collectionsWithFields.set(collection.collection, collectionWithFields);
+        
+        if (this.config.generateSchemas) {
+          const schema = this.zodGenerator.generateSchema(collectionWithFields);
+          results.push({
+            collectionName: collection.collection,
+            schema,
+            references: this.zodGenerator.getReferences(collection.collection),
+          });
+        }
+
+        if (this.config.generateTypes) {
+          const type = this.typeGenerator.generateType(collectionWithFields);
+          const references = this.typeGenerator.getReferences(collection.collection);
+          const existingResult = results.find(r => r.collectionName === collection.collection);
+          if (existingResult) {
+            existingResult.type = type;
+            existingResult.references = this.mergeReferences(existingResult.references, references);
+          } else {
             results.push({
               collectionName: collection.collection,
-              schema,
+              type,
+              references,
             });
           }
+        }
+
+        const result = results.find(r => r.collectionName === collection.collection);
+        if (result) {
+          this.baseResults.set(collection.collection, { ...result });
+        }
+      } catch (error) {
+        this.collectionsWithFields.delete(collection.collection);
+        this.baseResults.delete(collection.collection);
+        console.log(`Collection '${collection.collection}' skipped due to access error:`, error instanceof Error ? error.message : 'Unknown error');
+      }
+    }
 
-          if (this.config.generateTypes) {
-            const type = this.typeGenerator.generateType(collectionWithFields);
-            const existingResult = results.find(r => r.collectionName === collection.collection);
-            if (existingResult) {
-              existingResult.type = type;
-            } else {
-              results.push({
-                collectionName: collection.collection,
-                type,
-              });
-            }
+    // After all schemas are generated, detect circular dependencies and regenerate lazy schemas.
+    // Collection files in a cycle import each other, so lazy references count there; in a
+    // single schema file they only have to point at schemas declared later.
+    const isPerCollection = (this.config.outputLayout ?? 'per-collection') === 'per-collection';
+    const dependencyGraph = DependencyUtils.buildDependencyGraph(results, isPerCollection);
+    const circularDeps = DependencyUtils.detectCircularDependencies(dependencyGraph);
+    
+    // Regenerate schemas for collections that are part of circular dependencies
+    for (const result of results) {
+      if (result.schema) {
+        const isPartOfCircularDependency = circularDeps.some(cycle => 
+          cycle.includes(result.collectionName)
+        );
+        
+        if (isPartOfCircularDependency) {
+          // Regenerate the collection with lazy schemas
+          const collectionWithFields = this.collectionsWithFields.get(result.collectionName);
+          if (collectionWithFields) {
+            result.schema = this.zodGenerator.generateSchema(collectionWithFields, true);
           }
-        } catch (error) {
-          console.log(`Collection '${collection.collection}' skipped due to access error:`, error instanceof Error ? error.message : 'Unknown error');
         }
       }
+    }
 
-      // After all schemas are generated, detect circular dependencies and regenerate lazy schemas
-      const dependencyGraph = DependencyUtils.buildDependencyGraph(results);
-      const circularDeps = DependencyUtils.detectCircularDependencies(dependencyGraph);
-      
-      // Regenerate schemas for collections that are part of circular dependencies
+    // Append the per-role variants after the lazy schemas are settled
+    const rolePermissions = await this.loadRolePermissions();
+    if (rolePermissions.length > 0) {
       for (const result of results) {
+        const collectionWithFields = this.collectionsWithFields.get(result.collectionName);
+        const access = PermissionUtils.getCollectionAccess(result.collectionName, rolePermissions);
+        if (!collectionWithFields || access.length === 0) {
+          continue;
+        }
+
         if (result.schema) {
-          const currentCollectionName = StringUtils.toSingular(StringUtils.toPascalCase(result.collectionName));
-          const isPartOfCircularDependency = circularDeps.some(cycle => 
-            cycle.includes(currentCollectionName)
-          );
-          
-          if (isPartOfCircularDependency) {
-            // Find the collection and regenerate with lazy schemas
-            const collection = actualCollections.find(c => c.collection === result.collectionName);
-            if (collection) {
-              const collectionWithFields = await this.client.getCollectionWithFields(collection.collection);
-              result.schema = this.zodGenerator.generateSchema(collectionWithFields, true);
-            }
-          }
+          result.schema += `\n\n${this.zodGenerator.generateRoleSchemas(collectionWithFields, access)}`;
+        }
+
+        if (result.type) {
+          result.type += `\n\n${this.typeGenerator.generateRoleTypes(collectionWithFields, access)}`;
         }
       }
+    }
 
-      // Write files to output directory
-      await this.writeFiles(results);
+    return results;
+  }
 
-      return results;
-    } catch (error) {
-      throw new Error(`Failed to generate schemas: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  /**
+   * Fetch the permissions of the roles in the `roles` option
+   */
+  private async loadRolePermissions(): Promise<RolePermissions[]> {
+    if (!this.config.roles || this.config.roles.length === 0) {
+      return [];
+    }
+
+    // Schema snapshots hold no roles or permissions
+    if (!this.client.getPermissions || !this.client.getRoles) {
+      throw new Error('Role variants need the roles and permissions of a live Directus instance, which the schema source does not provide');
     }
+
+    const roles = await this.client.getRoles();
+    const permissions = await this.client.getPermissions();
+    // Directus 10 has no /access endpoint; its public permissions have no role instead
+    const access = this.client.getAccess ? await this.client.getAccess().catch((): DirectusAccess[] => []) : [];
+    return PermissionUtils.resolveRoles(this.config.roles, roles, permissions, access);
+  }
+
+  /**
+   * Combine the references recorded by the schema and type generators
+   */
+  private mergeReferences(schemaReferences: SchemaReferences = { collections: [], files: false }, typeReferences: SchemaReferences): SchemaReferences {
+    return {
+      collections: [...new Set([...schemaReferences.collections, ...typeReferences.collections])],
+      deferred: schemaReferences.deferred,
+      files: schemaReferences.files || typeReferences.files,
+    };
   }
 
   /**
@@ -131,10 +312,12 @@ export class Zodirectus {
 
       if (this.config.generateSchemas) {
         result.schema = this.zodGenerator.generateSchema(collectionWithFields);
+        result.references = this.zodGenerator.getReferences(collectionName);
       }
 
       if (this.config.generateTypes) {
         result.type = this.typeGenerator.generateType(collectionWithFields);
+        result.references = this.mergeReferences(result.references, this.typeGenerator.getReferences(collectionName));
       }
 
       return result;
@@ -144,30 +327,119 @@ export class Zodirectus {
   }
 
   /**
-   * Write file schemas to the output directory based on actual Directus file collection structure
+   * Render every generated file in memory, keyed by file path
    */
-  private async writeFileSchemas(outputDir: string): Promise<void> {
-    await FileWriterUtils.writeFileSchemas(outputDir, this.client);
-  }
+  private async renderFiles(results: GeneratedSchema[]): Promise<Map<string, string>> {
+    const outputDir = this.config.outputDir!;
+    const files = new Map<string, string>();
+
+    // File schemas are based on the actual Directus file collection structure
+    files.set(path.join(outputDir, 'file-schemas.ts'), await FileWriterUtils.renderFileSchemas(this.client, new NamingUtils(this.config.naming)));
+
+    const isPerCollection = (this.config.outputLayout ?? 'per-collection') === 'per-collection';
+    if (!isPerCollection) {
+      this.renderLayoutFiles(results, files);
+    }
+
+    if (this.config.generateTypes || this.config.generateSchemas) {
+      await this.renderQueryFiles(results, files);
+    }
 
+    // Field groups, order and widths for re-creating the admin app forms
+    if (this.config.generateFormLayouts) {
+      const collections = await this.getCollectionsWithFields(results);
+      files.set(path.join(outputDir, 'form-layouts.ts'), FormLayoutUtils.generateFormLayoutFile(collections, new NamingUtils(this.config.naming)));
+    }
+
+    // The index.ts barrels re-export everything rendered so far
+    const modules = [...files.keys()].map(filePath => path.basename(filePath, '.ts'));
+    if (isPerCollection) {
+      for (const [filePath, content] of FileWriterUtils.renderFiles(results, outputDir, modules, this.config)) {
+        files.set(filePath, content);
+      }
+    } else {
+      files.set(path.join(outputDir, 'index.ts'), FileWriterUtils.generateIndexContent(results, modules, this.config));
+    }
+
+    // The manifest tells check which files in the output directory are generated
+    files.set(path.join(outputDir, FileWriterUtils.MANIFEST_FILE_NAME), FileWriterUtils.renderManifest(files, outputDir));
+
+    return files;
+  }
 
   /**
-   * Write generated files to the output directory
+   * Render the schemas and types of all collections into `schemaFileName` and `typesFileName`.
+   * Collections come after the ones they reference, so only real cycles need lazy schemas.
    */
-  private async writeFiles(results: GeneratedSchema[]): Promise<void> {
+  private renderLayoutFiles(results: GeneratedSchema[], files: Map<string, string>): void {
     const outputDir = this.config.outputDir!;
-    
-    // Write file schemas first
-    await this.writeFileSchemas(outputDir);
+    const sortedResults = DependencyUtils.sortTopologically(results);
+    const { schemaFileName, typesFileName } = FileWriterUtils.getLayoutFileNames(this.config);
+    const hasSchemas = results.some(result => result.schema);
+    const hasTypes = results.some(result => result.type);
+
+    if (this.config.outputLayout === 'single-file') {
+      const parts: string[] = [];
+      if (hasSchemas) {
+        parts.push(this.zodGenerator.generateSchemaFile(sortedResults));
+      }
+      if (hasTypes) {
+        parts.push(this.typeGenerator.generateTypeFile(sortedResults, !hasSchemas));
+      }
+      files.set(path.join(outputDir, schemaFileName), `${parts.join('\n\n')}\n`);
+      return;
+    }
 
-    // Write individual collection files
-    await FileWriterUtils.writeFiles(results, outputDir);
+    if (hasSchemas) {
+      files.set(path.join(outputDir, schemaFileName), `${this.zodGenerator.generateSchemaFile(sortedResults)}\n`);
+    }
+    if (hasTypes) {
+      files.set(path.join(outputDir, typesFileName), `${this.typeGenerator.generateTypeFile(sortedResults)}\n`);
+    }
   }
 
+  /**
+   * Get the collections of the results, fetching only the ones that are not cached
+   */
+  private async getCollectionsWithFields(results: GeneratedSchema[]): Promise<DirectusCollectionWithFields[]> {
+    return Promise.all(
+      results.map(result => this.collectionsWithFields.get(result.collectionName) ?? this.client.getCollectionWithFields(result.collectionName))
+    );
+  }
 
+  /**
+   * Render the query result, Directus SDK schema and filter files
+   */
+  private async renderQueryFiles(results: GeneratedSchema[], files: Map<string, string>): Promise<void> {
+    const outputDir = this.config.outputDir!;
+    const collections = await this.getCollectionsWithFields(results);
 
+    // Query result helpers and the Directus SDK schema over the generated interfaces
+    if (this.config.generateTypes) {
+      files.set(path.join(outputDir, 'query-types.ts'), this.typeGenerator.generateQueryTypes(collections));
+      files.set(path.join(outputDir, 'directus-schema.ts'), this.typeGenerator.generateDirectusSchema(collections));
+    }
 
+    // Filter and query types and schemas, typed per field
+    const filterParts: string[] = [];
+    if (this.config.generateSchemas) {
+      filterParts.push(`import { z } from 'zod';\n`);
+    }
+    if (this.config.generateTypes) {
+      filterParts.push(this.typeGenerator.generateFilterTypes(collections));
+    }
+    if (this.config.generateSchemas) {
+      filterParts.push(this.zodGenerator.generateFilterSchemas(collections, !!this.config.generateTypes));
+    }
+    files.set(path.join(outputDir, 'filters.ts'), filterParts.join('\n'));
+  }
 
+  /**
+   * Write generated files to the output directory
+   */
+  private async writeFiles(results: GeneratedSchema[]): Promise<void> {
+    FileWriterUtils.writeRenderedFiles(await this.renderFiles(results));
+  }
 
   /**
    * Get available collections from Directus
@@ -184,3 +456,6 @@ export * from './types';
 export * from './generators/zod-generator';
 export * from './generators/type-generator';
 export * from './utils/directus-client';
+export * from './utils/snapshot-client';
+export * from './utils/memory-client';
+export { defineConfig } from './lib';
@@ -1,13 +1,13 @@
-import { ZodirectusConfig } from '../types';
+import { ZodirectusConfig, SchemaSource } from '../types';
 
 /**
  * Base generator class with common functionality
  */
 export abstract class BaseGenerator {
   protected config: ZodirectusConfig;
-  protected client: any;
+  protected client?: SchemaSource;
 
-  constructor(config: ZodirectusConfig, client?: any) {
+  constructor(config: ZodirectusConfig, client?: SchemaSource) {
     this.config = config;
     this.client = client;
   }
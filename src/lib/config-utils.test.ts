@@ -0,0 +1,161 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigUtils } from './config-utils';
+
+describe('ConfigUtils', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'zodirectus-config-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('findConfigFile', () => {
+    it('should prefer .ts over .js and .json', () => {
+      fs.writeFileSync(path.join(tmpDir, 'zodirectus.config.json'), '{}');
+      fs.writeFileSync(path.join(tmpDir, 'zodirectus.config.ts'), 'export default {};');
+
+      expect(ConfigUtils.findConfigFile(tmpDir)).toBe(path.join(tmpDir, 'zodirectus.config.ts'));
+    });
+
+    it('should return undefined when there is no config file', () => {
+      expect(ConfigUtils.findConfigFile(tmpDir)).toBeUndefined();
+    });
+  });
+
+  describe('loadConfigFile', () => {
+    it('should load a JSON config with environment variables', () => {
+      const filePath = path.join(tmpDir, 'zodirectus.config.json');
+      fs.writeFileSync(filePath, JSON.stringify({
+        directusUrl: 'https://${HOST}',
+        token: '${DIRECTUS_TOKEN}',
+        customFieldMappings: { geometry: 'z.any()' },
+        naming: { schemaPrefix: '' },
+      }));
+
+      const config = ConfigUtils.loadConfigFile(filePath, { HOST: 'cms.example.com' });
+
+      expect(config).toEqual({
+        directusUrl: 'https://cms.example.com',
+        customFieldMappings: { geometry: 'z.any()' },
+        naming: { schemaPrefix: '' },
+      });
+    });
+
+    it('should load a TypeScript config with a default export', () => {
+      const filePath = path.join(tmpDir, 'zodirectus.config.ts');
+      fs.writeFileSync(filePath, [
+        'const collections: string[] = ["articles"];',
+        'export default { collections, token: "${DIRECTUS_TOKEN}" };',
+      ].join('\n'));
+
+      const config = ConfigUtils.loadConfigFile(filePath, { DIRECTUS_TOKEN: 'secret' });
+
+      expect(config).toEqual({ collections: ['articles'], token: 'secret' });
+    });
+
+    it('should suggest installing ts-node or using another config format when ts-node is missing', () => {
+      const filePath = path.join(tmpDir, 'zodirectus.config.ts');
+      fs.writeFileSync(filePath, 'export default {};');
+
+      jest.isolateModules(() => {
+        jest.doMock('ts-node', () => {
+          throw new Error("Cannot find module 'ts-node'");
+        });
+        const { ConfigUtils: IsolatedConfigUtils } = jest.requireActual<typeof import('./config-utils')>('./config-utils');
+
+        expect(() => IsolatedConfigUtils.loadConfigFile(filePath)).toThrow(
+          'requires ts-node and typescript (npm install -D ts-node typescript); use zodirectus.config.js or zodirectus.config.json instead'
+        );
+      });
+      jest.dontMock('ts-node');
+    });
+
+    it('should load a CommonJS config', () => {
+      const filePath = path.join(tmpDir, 'zodirectus.config.js');
+      fs.writeFileSync(filePath, 'module.exports = { outputDir: "./types" };');
+
+      expect(ConfigUtils.loadConfigFile(filePath)).toEqual({ outputDir: './types' });
+    });
+
+    it('should throw for missing or invalid config files', () => {
+      const filePath = path.join(tmpDir, 'zodirectus.config.json');
+      fs.writeFileSync(filePath, '[]');
+
+      expect(() => ConfigUtils.loadConfigFile(path.join(tmpDir, 'missing.json'))).toThrow('Config file not found');
+      expect(() => ConfigUtils.loadConfigFile(filePath)).toThrow('Config must be an object');
+    });
+  });
+
+  describe('applyEnvDefaults', () => {
+    const env = {
+      DIRECTUS_URL: 'https://env.example.com',
+      DIRECTUS_TOKEN: 'env-token',
+      DIRECTUS_EMAIL: 'env@example.com',
+      DIRECTUS_PASSWORD: 'env-password',
+    };
+
+    it('should fill in the URL and token from the environment', () => {
+      expect(ConfigUtils.applyEnvDefaults({ outputDir: './types' }, env)).toEqual({
+        outputDir: './types',
+        directusUrl: 'https://env.example.com',
+        token: 'env-token',
+      });
+    });
+
+    it('should not override explicit values', () => {
+      const config = ConfigUtils.applyEnvDefaults({ directusUrl: 'https://cli.example.com', email: 'me@example.com', password: 'secret' }, env);
+
+      expect(config).toEqual({ directusUrl: 'https://cli.example.com', email: 'me@example.com', password: 'secret' });
+    });
+
+    it('should fall back to email and password when no token is set', () => {
+      const config = ConfigUtils.applyEnvDefaults({}, { DIRECTUS_EMAIL: 'env@example.com', DIRECTUS_PASSWORD: 'env-password' });
+
+      expect(config).toEqual({ email: 'env@example.com', password: 'env-password' });
+    });
+  });
+
+  describe('loadEnvFile', () => {
+    it('should load variables without overriding ones already set', () => {
+      const filePath = path.join(tmpDir, '.env');
+      fs.writeFileSync(filePath, [
+        '# Directus',
+        'DIRECTUS_URL=https://cms.example.com # production',
+        'export DIRECTUS_TOKEN="quoted token"',
+        "DIRECTUS_EMAIL='me@example.com'",
+        'DIRECTUS_PASSWORD=from-file',
+        '',
+      ].join('\n'));
+      const env: Record<string, string | undefined> = { DIRECTUS_PASSWORD: 'from-env' };
+
+      expect(ConfigUtils.loadEnvFile(filePath, env)).toBe(true);
+      expect(env).toEqual({
+        DIRECTUS_URL: 'https://cms.example.com',
+        DIRECTUS_TOKEN: 'quoted token',
+        DIRECTUS_EMAIL: 'me@example.com',
+        DIRECTUS_PASSWORD: 'from-env',
+      });
+    });
+
+    it('should return false when the file does not exist', () => {
+      expect(ConfigUtils.loadEnvFile(path.join(tmpDir, '.env'), {})).toBe(false);
+    });
+  });
+
+  describe('mergeConfig', () => {
+    it('should let later sources win and ignore undefined values', () => {
+      const config = ConfigUtils.mergeConfig(
+        { outputDir: './generated' },
+        { outputDir: './types', token: 'from-file' },
+        { outputDir: undefined, token: 'from-cli' }
+      );
+
+      expect(config).toEqual({ outputDir: './types', token: 'from-cli' });
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ZodirectusConfig } from '../types';
+
+/**
+ * Config file names looked up in the working directory, in order
+ */
+export const CONFIG_FILE_NAMES = ['zodirectus.config.ts', 'zodirectus.config.js', 'zodirectus.config.json'];
+
+/**
+ * Utilities for loading zodirectus.config.{ts,js,json} files
+ */
+export class ConfigUtils {
+  private static tsNodeRegistered = false;
+
+  /**
+   * Find the first config file in a directory
+   */
+  static findConfigFile(cwd: string = process.cwd()): string | undefined {
+    return CONFIG_FILE_NAMES
+      .map(fileName => path.join(cwd, fileName))
+      .find(filePath => fs.existsSync(filePath));
+  }
+
+  /**
+   * Load a config file and interpolate `${VAR}` references to environment variables
+   */
+  static loadConfigFile(filePath: string, env: Record<string, string | undefined> = process.env): ZodirectusConfig {
+    const absolutePath = path.resolve(filePath);
+
+    if (!fs.existsSync(absolutePath)) {
+      throw new Error(`Config file not found: ${filePath}`);
+    }
+
+    let config: unknown;
+    try {
+      config = path.extname(absolutePath) === '.json'
+        ? JSON.parse(fs.readFileSync(absolutePath, 'utf8'))
+        : this.loadModule(absolutePath);
+    } catch (error) {
+      throw new Error(`Failed to load config file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    if (!config || typeof config !== 'object' || Array.isArray(config)) {
+      throw new Error(`Failed to load config file ${filePath}: Config must be an object`);
+    }
+
+    return this.interpolateEnv(config, env) as ZodirectusConfig;
+  }
+
+  /**
+   * Replace `${VAR}` references in every string value. Unset variables become empty
+   * strings, and options that end up empty are dropped so other sources can provide them.
+   * Options that are empty to begin with, such as a naming prefix, are kept.
+   */
+  static interpolateEnv(value: unknown, env: Record<string, string | undefined> = process.env): unknown {
+    if (typeof value === 'string') {
+      return value.replace(/\$\{(\w+)\}/g, (_, name: string) => env[name] ?? '');
+    }
+
+    if (Array.isArray(value)) {
+      return value.map(item => this.interpolateEnv(item, env));
+    }
+
+    if (value && typeof value === 'object') {
+      const result: Record<string, unknown> = {};
+      for (const [key, entry] of Object.entries(value)) {
+        const interpolated = this.interpolateEnv(entry, env);
+        if (interpolated !== '' || entry === '') {
+          result[key] = interpolated;
+        }
+      }
+      return result;
+    }
+
+    return value;
+  }
+
+  /**
+   * Fill in the URL and credentials from DIRECTUS_URL, DIRECTUS_TOKEN, DIRECTUS_EMAIL
+   * and DIRECTUS_PASSWORD. Credentials from the environment are only used when the
+   * config has none, so an explicit email/password is never overridden by a token.
+   */
+  static applyEnvDefaults(config: ZodirectusConfig, env: Record<string, string | undefined> = process.env): ZodirectusConfig {
+    const result = { ...config };
+
+    if (!result.directusUrl && env.DIRECTUS_URL) {
+      result.directusUrl = env.DIRECTUS_URL;
+    }
+
+    if (!result.token && !(result.email && result.password)) {
+      if (env.DIRECTUS_TOKEN) {
+        result.token = env.DIRECTUS_TOKEN;
+      } else {
+        result.email = result.email || env.DIRECTUS_EMAIL;
+        result.password = result.password || env.DIRECTUS_PASSWORD;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Load KEY=VALUE lines from a .env file into the environment. Variables that are
+   * already set win over the file. Returns false when the file does not exist.
+   */
+  static loadEnvFile(filePath: string, env: Record<string, string | undefined> = process.env): boolean {
+    if (!fs.existsSync(filePath)) {
+      return false;
+    }
+
+    for (const line of fs.readFileSync(filePath, 'utf8').split(/\r?\n/)) {
+      const match = line.match(/^\s*(?:export\s+)?([\w.-]+)\s*=\s*(.*?)\s*$/);
+      if (!match) {
+        continue;
+      }
+
+      const [, key, rawValue] = match;
+      let value = rawValue;
+      const quote = value[0];
+
+      if ((quote === '"' || quote === "'") && value.endsWith(quote) && value.length > 1) {
+        value = value.slice(1, -1);
+        if (quote === '"') {
+          value = value.replace(/\\n/g, '\n');
+        }
+      } else {
+        // Unquoted values may carry a trailing comment
+        value = value.replace(/\s+#.*$/, '');
+      }
+
+      if (env[key] === undefined) {
+        env[key] = value;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Merge config sources from lowest to highest precedence, ignoring undefined values
+   */
+  static mergeConfig(...configs: Array<Partial<ZodirectusConfig> | undefined>): ZodirectusConfig {
+    const merged: Record<string, unknown> = {};
+
+    for (const config of configs) {
+      for (const [key, value] of Object.entries(config || {})) {
+        if (value !== undefined) {
+          merged[key] = value;
+        }
+      }
+    }
+
+    return merged as ZodirectusConfig;
+  }
+
+  /**
+   * Load a CommonJS .js or .ts config module through require. TypeScript configs are
+   * compiled by ts-node, which is registered on first use; ES module configs are not supported.
+   */
+  private static loadModule(filePath: string): unknown {
+    if (path.extname(filePath) === '.ts') {
+      this.registerTsNode(filePath);
+    }
+
+    delete require.cache[require.resolve(filePath)];
+    const exported: unknown = require(filePath);
+
+    return exported && typeof exported === 'object' && 'default' in exported ? exported.default : exported;
+  }
+
+  /**
+   * Register ts-node from the project, falling back to our own, so require can load .ts files
+   */
+  private static registerTsNode(filePath: string): void {
+    if (this.tsNodeRegistered) {
+      return;
+    }
+
+    try {
+      const tsNode: typeof import('ts-node') = require(require.resolve('ts-node', { paths: [path.dirname(filePath), __dirname] }));
+      tsNode.register({
+        transpileOnly: true,
+        skipProject: true,
+        compilerOptions: { module: 'commonjs', target: 'es2020', esModuleInterop: true },
+      });
+    } catch (error) {
+      throw new Error(
+        'Loading a .ts config file requires ts-node and typescript (npm install -D ts-node typescript); ' +
+        `use zodirectus.config.js or zodirectus.config.json instead otherwise (${error instanceof Error ? error.message : 'Unknown error'})`
+      );
+    }
+    this.tsNodeRegistered = true;
+  }
+}
+
+/**
+ * Identity helper that gives zodirectus.config.ts files type checking
+ */
+export function defineConfig(config: ZodirectusConfig): ZodirectusConfig {
+  return config;
+}
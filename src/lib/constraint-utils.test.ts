@@ -0,0 +1,62 @@
+import { z } from 'zod';
+import { ConstraintUtils } from './constraint-utils';
+import { DirectusField } from '../types';
+
+describe('ConstraintUtils', () => {
+  const mockField = (dataType: string, schema: { max_length?: number; numeric_precision?: number; numeric_scale?: number }): DirectusField => ({
+    field: 'value',
+    type: dataType,
+    schema: {
+      name: 'value',
+      table: 'products',
+      data_type: dataType,
+      is_nullable: true,
+      is_unique: false,
+      is_primary_key: false,
+      has_auto_increment: false,
+      ...schema,
+    },
+  });
+
+  describe('getConstraintChain', () => {
+    it('should limit string length to max_length', () => {
+      expect(ConstraintUtils.getConstraintChain(mockField('varchar', { max_length: 255 }), 'z.string()')).toBe('.max(255)');
+    });
+
+    it('should ignore max_length on enums and missing metadata', () => {
+      expect(ConstraintUtils.getConstraintChain(mockField('varchar', { max_length: 255 }), 'z.enum(["a"])')).toBe('');
+      expect(ConstraintUtils.getConstraintChain(mockField('text', {}), 'z.string()')).toBe('');
+    });
+
+    it('should bound decimals by precision and scale', () => {
+      const chain = ConstraintUtils.getConstraintChain(mockField('decimal', { numeric_precision: 5, numeric_scale: 2 }), 'z.number()');
+
+      expect(chain).toBe('.gt(-1000).lt(1000).multipleOf(0.01)');
+      const schema = new Function('z', `return z.number()${chain};`)(z) as z.ZodTypeAny;
+      expect(schema.safeParse(999.99).success).toBe(true);
+      expect(schema.safeParse(1000).success).toBe(false);
+      expect(schema.safeParse(1.234).success).toBe(false);
+    });
+
+    it('should require integers for decimals without a scale', () => {
+      expect(ConstraintUtils.getConstraintChain(mockField('numeric', { numeric_precision: 3, numeric_scale: 0 }), 'z.number()')).toBe('.gt(-1000).lt(1000).int()');
+    });
+
+    it('should check the digits of decimals typed as strings', () => {
+      const chain = ConstraintUtils.getConstraintChain(mockField('numeric', { numeric_precision: 5, numeric_scale: 2 }), 'z.string()');
+
+      expect(chain).toBe('.regex(/^-?\\d{1,3}(\\.\\d{1,2})?$/)');
+      const schema = new Function('z', `return z.string()${chain};`)(z) as z.ZodTypeAny;
+      expect(schema.safeParse('999.99').success).toBe(true);
+      expect(schema.safeParse('-12.5').success).toBe(true);
+      expect(schema.safeParse('1000').success).toBe(false);
+      expect(schema.safeParse('1.234').success).toBe(false);
+      expect(schema.safeParse('abc').success).toBe(false);
+      expect(ConstraintUtils.getConstraintChain(mockField('numeric', { numeric_precision: 10, numeric_scale: 0 }), 'z.string()')).toBe('.regex(/^-?\\d{1,10}$/)');
+    });
+
+    it('should not bound floating point columns', () => {
+      expect(ConstraintUtils.getConstraintChain(mockField('float', { numeric_precision: 53 }), 'z.number()')).toBe('');
+    });
+  });
+});
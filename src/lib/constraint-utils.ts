@@ -0,0 +1,57 @@
+import { DirectusField } from '../types';
+
+/**
+ * Utilities for turning database column metadata into Zod constraints
+ */
+export class ConstraintUtils {
+  /**
+   * Get Zod calls for the column's length, precision and scale, e.g. `.max(255)`.
+   * Returns an empty string when the column has no usable metadata.
+   */
+  static getConstraintChain(field: DirectusField, zodType: string): string {
+    const schema = field.schema;
+    if (!schema) {
+      return '';
+    }
+
+    const dataType = schema.data_type || field.type;
+    const isDecimal = (dataType === 'decimal' || dataType === 'numeric') && this.isPositiveInteger(schema.numeric_precision);
+    const scale = this.isPositiveInteger(schema.numeric_scale) ? schema.numeric_scale! : 0;
+    const integerDigits = (schema.numeric_precision ?? 0) - scale;
+
+    // Postgres numeric(p, s) values are strings, so their digits are checked instead
+    if (zodType.startsWith('z.string()') && isDecimal) {
+      const integerPart = integerDigits > 0 ? `\\d{1,${integerDigits}}` : '0?';
+      const fractionPart = scale > 0 ? `(\\.\\d{1,${scale}})?` : '';
+      return `.regex(/^-?${integerPart}${fractionPart}$/)`;
+    }
+
+    // varchar(n) / char(n)
+    if (zodType.startsWith('z.string()') && this.isPositiveInteger(schema.max_length)) {
+      return `.max(${schema.max_length})`;
+    }
+
+    // decimal(p, s) holds up to p - s digits before the point and s digits after it
+    if (zodType.startsWith('z.number()') && isDecimal) {
+      const limit = Number(`1e${integerDigits}`);
+      let chain = `.gt(-${limit}).lt(${limit})`;
+
+      if (scale === 0) {
+        chain += zodType.includes('.int()') ? '' : '.int()';
+      } else {
+        chain += `.multipleOf(${Number(`1e-${scale}`)})`;
+      }
+
+      return chain;
+    }
+
+    return '';
+  }
+
+  /**
+   * Check whether column metadata holds a usable size
+   */
+  private static isPositiveInteger(value: unknown): boolean {
+    return typeof value === 'number' && Number.isInteger(value) && value > 0;
+  }
+}
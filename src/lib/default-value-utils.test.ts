@@ -0,0 +1,49 @@
+import { DefaultValueUtils } from './default-value-utils';
+import { DirectusField } from '../types';
+
+describe('DefaultValueUtils', () => {
+  const mockField = (defaultValue: any, dataType = 'varchar'): DirectusField => ({
+    field: 'value',
+    type: dataType,
+    schema: {
+      name: 'value',
+      table: 'articles',
+      data_type: dataType,
+      default_value: defaultValue,
+      is_nullable: true,
+      is_unique: false,
+      is_primary_key: false,
+      has_auto_increment: false,
+    },
+  });
+
+  describe('hasDefaultValue', () => {
+    it('should detect fields with a database default', () => {
+      expect(DefaultValueUtils.hasDefaultValue(mockField('draft'))).toBe(true);
+      expect(DefaultValueUtils.hasDefaultValue(mockField(false))).toBe(true);
+      expect(DefaultValueUtils.hasDefaultValue(mockField(null))).toBe(false);
+      expect(DefaultValueUtils.hasDefaultValue({ field: 'alias', type: 'alias' })).toBe(false);
+    });
+  });
+
+  describe('toZodDefault', () => {
+    it('should convert defaults to the Zod type of the field', () => {
+      expect(DefaultValueUtils.toZodDefault(mockField('draft'), 'z.string()')).toBe('"draft"');
+      expect(DefaultValueUtils.toZodDefault(mockField('5', 'integer'), 'z.number().int()')).toBe('5');
+      expect(DefaultValueUtils.toZodDefault(mockField('true', 'boolean'), 'z.boolean()')).toBe('true');
+      expect(DefaultValueUtils.toZodDefault(mockField({ a: 1 }, 'json'), 'z.any()')).toBe('{"a":1}');
+    });
+
+    it('should only use enum defaults that are one of the choices', () => {
+      expect(DefaultValueUtils.toZodDefault(mockField('draft'), 'z.enum(["draft", "published"])')).toBe('"draft"');
+      expect(DefaultValueUtils.toZodDefault(mockField('archived'), 'z.enum(["draft", "published"])')).toBeUndefined();
+    });
+
+    it('should skip database expressions and values that do not fit', () => {
+      expect(DefaultValueUtils.toZodDefault(mockField('CURRENT_TIMESTAMP', 'timestamp'), 'z.string().datetime()')).toBeUndefined();
+      expect(DefaultValueUtils.toZodDefault(mockField('gen_random_uuid()', 'uuid'), 'z.string().uuid()')).toBeUndefined();
+      expect(DefaultValueUtils.toZodDefault(mockField('abc', 'integer'), 'z.number().int()')).toBeUndefined();
+      expect(DefaultValueUtils.toZodDefault(mockField('5', 'uuid'), 'DrxAuthorSchema')).toBeUndefined();
+    });
+  });
+});
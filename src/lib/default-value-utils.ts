@@ -0,0 +1,74 @@
+import { DirectusField } from '../types';
+
+/**
+ * Utilities for database column defaults (`schema.default_value`)
+ */
+export class DefaultValueUtils {
+  /**
+   * Check whether the database fills in the field when it is left out of a create payload
+   */
+  static hasDefaultValue(field: DirectusField): boolean {
+    return field.schema?.default_value !== undefined && field.schema?.default_value !== null;
+  }
+
+  /**
+   * Get the default as a literal for `.default()`, converted to the field's Zod type.
+   * Returns undefined for database expressions such as `CURRENT_TIMESTAMP` and for
+   * values that don't fit the Zod type; such fields can only be made optional.
+   */
+  static toZodDefault(field: DirectusField, zodType: string): string | undefined {
+    if (!this.hasDefaultValue(field)) {
+      return undefined;
+    }
+
+    const value = field.schema!.default_value;
+    if (typeof value === 'string' && this.isDatabaseExpression(value)) {
+      return undefined;
+    }
+
+    if (zodType.startsWith('z.number()')) {
+      const number = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+      return isNaN(number) ? undefined : String(number);
+    }
+
+    if (zodType.startsWith('z.boolean()')) {
+      if (value === true || value === 'true' || value === 1 || value === '1') {
+        return 'true';
+      }
+      if (value === false || value === 'false' || value === 0 || value === '0') {
+        return 'false';
+      }
+      return undefined;
+    }
+
+    if (zodType.startsWith('z.string()')) {
+      return ['string', 'number', 'boolean'].includes(typeof value) ? JSON.stringify(String(value)) : undefined;
+    }
+
+    // The default must be one of the choices or the generated code won't type check
+    if (zodType.startsWith('z.enum(')) {
+      const literal = typeof value === 'string' ? JSON.stringify(value) : String(value);
+      return zodType.includes(literal) ? literal : undefined;
+    }
+
+    if (zodType.startsWith('z.array(')) {
+      return Array.isArray(value) ? JSON.stringify(value) : undefined;
+    }
+
+    if (zodType.startsWith('z.any()')) {
+      return JSON.stringify(value);
+    }
+
+    // Relations, files and custom mappings can't take a column default literal
+    return undefined;
+  }
+
+  /**
+   * Check whether a default is evaluated by the database, e.g. `now()` or `CURRENT_TIMESTAMP`
+   */
+  static isDatabaseExpression(value: string): boolean {
+    return /^(CURRENT_TIMESTAMP|CURRENT_DATE|CURRENT_TIME|LOCALTIMESTAMP|LOCALTIME)$/i.test(value.trim())
+      || /^[a-z_][\w.]*\(.*\)$/i.test(value.trim())
+      || value.includes('::');
+  }
+}
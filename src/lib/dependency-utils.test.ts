@@ -2,25 +2,35 @@ import { DependencyUtils } from './dependency-utils';
 import { GeneratedSchema } from '../types';
 
 describe('DependencyUtils', () => {
-  const createMockSchema = (collectionName: string, schema?: string, type?: string): GeneratedSchema => ({
+  const createMockSchema = (collectionName: string, schema?: string, collections: string[] = [], deferred: string[] = []): GeneratedSchema => ({
     collectionName,
     schema,
-    type,
+    references: { collections, deferred, files: false },
   });
 
   describe('buildDependencyGraph', () => {
     it('should build dependency graph correctly', () => {
       const results: GeneratedSchema[] = [
-        createMockSchema('users', 'export const DrxUserSchema = z.object({ posts: DrxPostSchema.nullable().optional() });'),
-        createMockSchema('posts', 'export const DrxPostSchema = z.object({ author: DrxUserSchema.nullable().optional() });'),
-        createMockSchema('comments', 'export const DrxCommentSchema = z.object({ post: DrxPostSchema.nullable().optional() });'),
+        createMockSchema('users', 'export const DrxUserSchema = z.object({ posts: DrxPostSchema.nullable().optional() });', ['posts']),
+        createMockSchema('posts', 'export const DrxPostSchema = z.object({ author: DrxUserSchema.nullable().optional() });', ['users']),
+        createMockSchema('comments', 'export const DrxCommentSchema = z.object({ post: DrxPostSchema.nullable().optional() });', ['posts']),
       ];
 
       const graph = DependencyUtils.buildDependencyGraph(results);
 
-      expect(graph.get('User')).toEqual(new Set(['Post']));
-      expect(graph.get('Post')).toEqual(new Set(['User']));
-      expect(graph.get('Comment')).toEqual(new Set(['Post']));
+      expect(graph.get('users')).toEqual(new Set(['posts']));
+      expect(graph.get('posts')).toEqual(new Set(['users']));
+      expect(graph.get('comments')).toEqual(new Set(['posts']));
+    });
+
+    it('should not depend on the generated names', () => {
+      const results: GeneratedSchema[] = [
+        createMockSchema('blog_posts', 'export const ArticleModel = z.object({ author: PersonModel });', ['people', 'blog_posts']),
+      ];
+
+      const graph = DependencyUtils.buildDependencyGraph(results);
+
+      expect(graph.get('blog_posts')).toEqual(new Set(['people']));
     });
 
     it('should handle schemas with no dependencies', () => {
@@ -30,7 +40,7 @@ describe('DependencyUtils', () => {
 
       const graph = DependencyUtils.buildDependencyGraph(results);
 
-      expect(graph.get('User')).toBeUndefined();
+      expect(graph.get('users')).toBeUndefined();
     });
 
     it('should handle empty results', () => {
@@ -38,6 +48,16 @@ describe('DependencyUtils', () => {
       const graph = DependencyUtils.buildDependencyGraph(results);
       expect(graph.size).toBe(0);
     });
+
+    it('should leave out lazy references when asked to', () => {
+      const results: GeneratedSchema[] = [
+        createMockSchema('posts', 'export const DrxPostSchema = z.object({ author: DrxUserSchema });', ['users']),
+        createMockSchema('users', 'export const DrxUserSchema = z.object({ posts: z.array(z.lazy(() => DrxPostSchema)) });', ['posts'], ['posts']),
+      ];
+
+      expect(DependencyUtils.buildDependencyGraph(results).get('users')).toEqual(new Set(['posts']));
+      expect(DependencyUtils.buildDependencyGraph(results, false).get('users')).toBeUndefined();
+    });
   });
 
   describe('detectCircularDependencies', () => {
@@ -84,6 +104,43 @@ describe('DependencyUtils', () => {
     });
   });
 
+  describe('sortTopologically', () => {
+    it('should place collections after the collections they reference', () => {
+      const results: GeneratedSchema[] = [
+        createMockSchema('comments', 'export const DrxCommentSchema = z.object({ post: DrxPostSchema.nullable().optional() });', ['posts']),
+        createMockSchema('posts', 'export const DrxPostSchema = z.object({ author: DrxUserSchema.nullable().optional() });', ['users']),
+        createMockSchema('users', 'export const DrxUserSchema = z.object({ name: z.string() });'),
+      ];
+
+      const sorted = DependencyUtils.sortTopologically(results);
+
+      expect(sorted.map(result => result.collectionName)).toEqual(['users', 'posts', 'comments']);
+    });
+
+    it('should keep every result when collections reference each other', () => {
+      const results: GeneratedSchema[] = [
+        createMockSchema('comments', 'export const DrxCommentSchema = z.object({ post: DrxPostSchema.nullable().optional() });', ['posts']),
+        createMockSchema('users', 'export const DrxUserSchema = z.lazy(() => z.object({ posts: DrxPostSchema }));', ['posts']),
+        createMockSchema('posts', 'export const DrxPostSchema = z.lazy(() => z.object({ author: DrxUserSchema }));', ['users']),
+      ];
+
+      const sorted = DependencyUtils.sortTopologically(results).map(result => result.collectionName);
+
+      expect(sorted).toHaveLength(3);
+      expect(sorted.indexOf('comments')).toBeGreaterThan(sorted.indexOf('posts'));
+      expect(sorted.indexOf('comments')).toBeGreaterThan(sorted.indexOf('users'));
+    });
+
+    it('should let lazy back-references point forward', () => {
+      const results: GeneratedSchema[] = [
+        createMockSchema('users', 'export const DrxUserSchema = z.object({ posts: z.array(z.lazy(() => DrxPostSchema)) });', ['posts'], ['posts']),
+        createMockSchema('posts', 'export const DrxPostSchema = z.object({ author: DrxUserSchema });', ['users']),
+      ];
+
+      expect(DependencyUtils.sortTopologically(results).map(result => result.collectionName)).toEqual(['users', 'posts']);
+    });
+  });
+
   describe('isCircularDependency', () => {
     it('should identify circular dependencies correctly', () => {
       const circularDeps = [
@@ -1,50 +1,27 @@
 import { GeneratedSchema } from '../types';
-import { StringUtils } from './string-utils';
 
 /**
  * Utilities for handling dependency graphs and circular dependencies
  */
 export class DependencyUtils {
   /**
-   * Build a dependency graph from generated schemas
+   * Build a dependency graph of collection names from the references the generators recorded.
+   * Without `includeDeferred`, references that are only used inside z.lazy() are left out.
    */
-  static buildDependencyGraph(results: GeneratedSchema[]): Map<string, Set<string>> {
+  static buildDependencyGraph(results: GeneratedSchema[], includeDeferred: boolean = true): Map<string, Set<string>> {
     const graph = new Map<string, Set<string>>();
     
     for (const result of results) {
-      const currentCollectionName = StringUtils.toSingular(StringUtils.toPascalCase(result.collectionName));
-      const dependencies = new Set<string>();
-      
-      // Extract dependencies from schema
-      if (result.schema) {
-        const schemaMatches = result.schema.match(/Drx[A-Z][a-zA-Z]*Schema/g);
-        if (schemaMatches) {
-          schemaMatches.forEach(match => {
-            const singularName = match.replace('Drx', '').replace('Schema', '');
-            // Skip Create, Update, Get schemas
-            if (!singularName.endsWith('Create') && !singularName.endsWith('Update') && !singularName.endsWith('Get') && singularName !== currentCollectionName) {
-              dependencies.add(singularName);
-            }
-          });
-        }
-      }
-      
-      // Extract dependencies from type
-      if (result.type) {
-        const typeMatches = result.type.match(/Drs[A-Z][a-zA-Z]*/g);
-        if (typeMatches) {
-          typeMatches.forEach(match => {
-            const singularName = match.replace('Drs', '');
-            // Skip Create, Update, Get types
-            if (!singularName.endsWith('Create') && !singularName.endsWith('Update') && !singularName.endsWith('Get') && singularName !== currentCollectionName) {
-              dependencies.add(singularName);
-            }
-          });
+      const dependencies = new Set(result.references?.collections ?? []);
+      dependencies.delete(result.collectionName);
+      if (!includeDeferred) {
+        for (const deferred of result.references?.deferred ?? []) {
+          dependencies.delete(deferred);
         }
       }
       
       if (dependencies.size > 0) {
-        graph.set(currentCollectionName, dependencies);
+        graph.set(result.collectionName, dependencies);
       }
     }
     
@@ -90,6 +67,37 @@ export class DependencyUtils {
     return Array.from(circularDeps);
   }
 
+  /**
+   * Order results so that every collection comes after the collections it references directly.
+   * Lazy references may point forward, and members of a cycle keep their original order;
+   * their references are lazy anyway.
+   */
+  static sortTopologically(results: GeneratedSchema[]): GeneratedSchema[] {
+    const graph = this.buildDependencyGraph(results, false);
+    const resultsByName = new Map(results.map(result => [result.collectionName, result]));
+    const visited = new Set<string>();
+    const sorted: GeneratedSchema[] = [];
+
+    const visit = (name: string): void => {
+      const result = resultsByName.get(name);
+      if (visited.has(name) || !result) {
+        return;
+      }
+
+      visited.add(name);
+      for (const dependency of graph.get(name) || []) {
+        visit(dependency);
+      }
+      sorted.push(result);
+    };
+
+    for (const name of resultsByName.keys()) {
+      visit(name);
+    }
+
+    return sorted;
+  }
+
   /**
    * Check if there's a circular dependency between two collections
    */
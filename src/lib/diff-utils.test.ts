@@ -0,0 +1,52 @@
+import { DiffUtils } from './diff-utils';
+
+describe('DiffUtils', () => {
+  describe('createUnifiedDiff', () => {
+    it('should return an empty string for equal texts', () => {
+      expect(DiffUtils.createUnifiedDiff('a\nb\n', 'a\nb\n', 'old', 'new')).toBe('');
+    });
+
+    it('should produce a unified diff for changed lines', () => {
+      const diff = DiffUtils.createUnifiedDiff('a\nb\nc', 'a\nB\nc', 'users.ts', 'users.ts');
+
+      expect(diff).toBe([
+        '--- users.ts',
+        '+++ users.ts',
+        '@@ -1,3 +1,3 @@',
+        ' a',
+        '-b',
+        '+B',
+        ' c',
+        '',
+      ].join('\n'));
+    });
+
+    it('should diff a new file against an empty one', () => {
+      const diff = DiffUtils.createUnifiedDiff('', 'a\nb', '/dev/null', 'users.ts');
+
+      expect(diff).toContain('@@ -0,0 +1,2 @@');
+      expect(diff).toContain('+a\n+b');
+    });
+
+    it('should split distant changes into separate hunks', () => {
+      const oldLines = Array.from({ length: 20 }, (_, i) => `line ${i}`);
+      const newLines = [...oldLines];
+      newLines[1] = 'changed 1';
+      newLines[18] = 'changed 18';
+
+      const diff = DiffUtils.createUnifiedDiff(oldLines.join('\n'), newLines.join('\n'), 'a', 'b');
+
+      expect(diff.match(/^@@/gm)).toHaveLength(2);
+      expect(diff).toContain('@@ -1,5 +1,5 @@');
+      expect(diff).toContain('@@ -16,5 +16,5 @@');
+    });
+
+    it('should handle inserted and removed lines', () => {
+      const diff = DiffUtils.createUnifiedDiff('a\nb\nc\nd', 'a\nc\nd\ne', 'a', 'b');
+
+      expect(diff).toContain('-b');
+      expect(diff).toContain('+e');
+      expect(diff).not.toContain('-c');
+    });
+  });
+});
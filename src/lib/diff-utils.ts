@@ -0,0 +1,144 @@
+/**
+ * A single line in a line-based diff
+ */
+interface DiffLine {
+  type: ' ' | '-' | '+';
+  text: string;
+  oldLine: number;
+  newLine: number;
+}
+
+/**
+ * Utilities for producing unified diffs between two versions of a file
+ */
+export class DiffUtils {
+  /**
+   * Create a unified diff between two texts. Returns an empty string when they are equal.
+   */
+  static createUnifiedDiff(
+    oldText: string,
+    newText: string,
+    oldLabel: string,
+    newLabel: string,
+    context: number = 3
+  ): string {
+    if (oldText === newText) {
+      return '';
+    }
+
+    const oldLines = oldText === '' ? [] : oldText.split('\n');
+    const newLines = newText === '' ? [] : newText.split('\n');
+    const lines = this.diffLines(oldLines, newLines);
+    const hunks = this.buildHunks(lines, context);
+
+    return [`--- ${oldLabel}`, `+++ ${newLabel}`, ...hunks].join('\n') + '\n';
+  }
+
+  /**
+   * Compute the line-level edit script between two arrays of lines
+   */
+  private static diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+    // Skip the common prefix and suffix so the LCS table only covers the changed region
+    let start = 0;
+    while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+      start++;
+    }
+
+    let oldEnd = oldLines.length;
+    let newEnd = newLines.length;
+    while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+      oldEnd--;
+      newEnd--;
+    }
+
+    const oldMiddle = oldLines.slice(start, oldEnd);
+    const newMiddle = newLines.slice(start, newEnd);
+    const width = newMiddle.length + 1;
+    const lcs = new Uint32Array((oldMiddle.length + 1) * width);
+
+    for (let i = oldMiddle.length - 1; i >= 0; i--) {
+      for (let j = newMiddle.length - 1; j >= 0; j--) {
+        lcs[i * width + j] = oldMiddle[i] === newMiddle[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    const result: DiffLine[] = [];
+    let oldLine = 0;
+    let newLine = 0;
+    const push = (type: DiffLine['type'], text: string) => {
+      if (type !== '+') oldLine++;
+      if (type !== '-') newLine++;
+      result.push({ type, text, oldLine, newLine });
+    };
+
+    for (let k = 0; k < start; k++) {
+      push(' ', oldLines[k]);
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < oldMiddle.length || j < newMiddle.length) {
+      if (i < oldMiddle.length && j < newMiddle.length && oldMiddle[i] === newMiddle[j]) {
+        push(' ', oldMiddle[i++]);
+        j++;
+      } else if (j >= newMiddle.length || (i < oldMiddle.length && lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+        push('-', oldMiddle[i++]);
+      } else {
+        push('+', newMiddle[j++]);
+      }
+    }
+
+    for (let k = oldEnd; k < oldLines.length; k++) {
+      push(' ', oldLines[k]);
+    }
+
+    return result;
+  }
+
+  /**
+   * Group diff lines into unified diff hunks with the given amount of context
+   */
+  private static buildHunks(lines: DiffLine[], context: number): string[] {
+    const hunks: string[] = [];
+    let index = 0;
+
+    while (index < lines.length) {
+      // Find the next change
+      while (index < lines.length && lines[index].type === ' ') {
+        index++;
+      }
+      if (index >= lines.length) {
+        break;
+      }
+
+      const hunkStart = Math.max(0, index - context);
+      let hunkEnd = index;
+
+      // Extend the hunk while changes are within 2 * context lines of each other
+      let lastChange = index;
+      while (hunkEnd < lines.length && hunkEnd - lastChange <= context * 2) {
+        if (lines[hunkEnd].type !== ' ') {
+          lastChange = hunkEnd;
+        }
+        hunkEnd++;
+      }
+      hunkEnd = Math.min(lines.length, lastChange + context + 1);
+
+      const hunkLines = lines.slice(hunkStart, hunkEnd);
+      const oldCount = hunkLines.filter(line => line.type !== '+').length;
+      const newCount = hunkLines.filter(line => line.type !== '-').length;
+      const first = lines[hunkStart];
+      const oldStart = first.type === '+' ? first.oldLine + 1 : first.oldLine;
+      const newStart = first.type === '-' ? first.newLine + 1 : first.newLine;
+
+      hunks.push(`@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${newCount === 0 ? newStart - 1 : newStart},${newCount} @@`);
+      hunkLines.forEach(line => hunks.push(`${line.type}${line.text}`));
+
+      index = hunkEnd;
+    }
+
+    return hunks;
+  }
+}
@@ -44,6 +44,32 @@ describe('FieldUtils', () => {
     });
   });
 
+  describe('isPresentationField', () => {
+    it('should identify alias fields without data', () => {
+      expect(FieldUtils.isPresentationField(mockField('divider', 'alias', [], 'divider'))).toBe(true);
+      expect(FieldUtils.isPresentationField(mockField('notice', 'alias', ['alias', 'no-data'], 'presentation-notice'))).toBe(true);
+      expect(FieldUtils.isPresentationField(mockField('details', 'alias', ['alias', 'no-data', 'group'], 'group-detail'))).toBe(true);
+      expect(FieldUtils.isPresentationField(mockField('links', 'alias', undefined, 'presentation-links'))).toBe(true);
+    });
+
+    it('should keep relational alias fields and regular fields', () => {
+      expect(FieldUtils.isPresentationField(mockField('comments', 'alias', ['o2m'], 'list-o2m'))).toBe(false);
+      expect(FieldUtils.isPresentationField(mockField('tags', 'alias', ['m2m'], 'list-m2m'))).toBe(false);
+      expect(FieldUtils.isPresentationField(mockField('blocks', 'alias', ['m2a'], 'list-m2a'))).toBe(false);
+      expect(FieldUtils.isPresentationField(mockField('gallery', 'alias', ['files'], 'files'))).toBe(false);
+      expect(FieldUtils.isPresentationField(mockField('translations', 'alias', ['translations'], 'translations'))).toBe(false);
+      expect(FieldUtils.isPresentationField(mockField('name', 'varchar', [], 'input'))).toBe(false);
+    });
+  });
+
+  describe('isGroupField', () => {
+    it('should identify group fields by special or interface', () => {
+      expect(FieldUtils.isGroupField(mockField('details', 'alias', ['alias', 'no-data', 'group'], 'group-detail'))).toBe(true);
+      expect(FieldUtils.isGroupField(mockField('seo', 'alias', [], 'group-accordion'))).toBe(true);
+      expect(FieldUtils.isGroupField(mockField('notice', 'alias', ['alias', 'no-data'], 'presentation-notice'))).toBe(false);
+    });
+  });
+
   describe('isRelationField', () => {
     it('should identify relation fields correctly', () => {
       expect(FieldUtils.isRelationField(mockField('user_id', 'uuid', ['m2o']))).toBe(true);
@@ -187,4 +213,34 @@ describe('FieldUtils', () => {
       expect(fieldsToOmit).not.toContain('name');
     });
   });
+
+  const withMeta = (field: DirectusField, meta: { readonly?: boolean; hidden?: boolean }): DirectusField => ({
+    ...field,
+    meta: field.meta && { ...field.meta, ...meta },
+  });
+
+  describe('isOmittedFromPayload', () => {
+    it('should omit readonly fields, and hidden fields only when asked to', () => {
+      const readonlyField = withMeta(mockField('slug', 'varchar'), { readonly: true });
+      const hiddenField = withMeta(mockField('legacy_id', 'varchar'), { hidden: true });
+
+      expect(FieldUtils.isOmittedFromPayload(readonlyField)).toBe(true);
+      expect(FieldUtils.isOmittedFromPayload(hiddenField)).toBe(false);
+      expect(FieldUtils.isOmittedFromPayload(hiddenField, true)).toBe(true);
+      expect(FieldUtils.isOmittedFromPayload(mockField('title', 'varchar'), true)).toBe(false);
+    });
+  });
+
+  describe('getFieldsToOmitForUpdate', () => {
+    it('should omit readonly fields but keep the id', () => {
+      const fields = [
+        withMeta(mockField('id', 'integer'), { readonly: true }),
+        withMeta(mockField('slug', 'varchar'), { readonly: true }),
+        mockField('title', 'varchar'),
+      ];
+
+      expect(FieldUtils.getFieldsToOmitForUpdate(fields)).toEqual(['slug']);
+      expect(FieldUtils.getFieldsToOmitForCreate(fields, true)).toEqual(['id', 'slug']);
+    });
+  });
 });
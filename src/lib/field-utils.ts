@@ -1,5 +1,7 @@
 import { DirectusField, DirectusCollectionWithFields } from '../types';
 
+const NUMERIC_DATA_TYPES = ['integer', 'bigint', 'bigInteger', 'smallint', 'tinyint', 'decimal', 'numeric', 'float', 'double', 'real'];
+
 /**
  * Shared utilities for field detection and processing
  */
@@ -17,10 +19,46 @@ export class FieldUtils {
     if (field.meta?.interface === 'divider') {
       return true;
     }
+
+    // Check if field type is 'divider'
+    if (field.type === 'divider') {
+      return true;
+    }
     
     return false;
   }
 
+  /**
+   * Check if a field groups other fields in the admin app form (`group-detail`, `group-accordion`, `group-raw`)
+   */
+  static isGroupField(field: DirectusField): boolean {
+    return (field.meta?.special || []).includes('group') || (field.meta?.interface || '').startsWith('group-');
+  }
+
+  /**
+   * Check if a field only exists in the admin app, such as a divider, notice or group.
+   * These alias fields have no column and no value in the API. Relational aliases
+   * (O2M, M2M, M2A, files and translations) return their related items and are kept.
+   */
+  static isPresentationField(field: DirectusField): boolean {
+    if (this.isDividerField(field)) {
+      return true;
+    }
+
+    const special = field.meta?.special || [];
+    if (['o2m', 'm2m', 'm2a', 'files', 'translations'].some(relation => special.includes(relation))) {
+      return false;
+    }
+
+    const interface_ = field.meta?.interface || '';
+    return field.type === 'alias'
+      || special.includes('alias')
+      || special.includes('no-data')
+      || special.includes('group')
+      || interface_.startsWith('presentation-')
+      || interface_.startsWith('group-');
+  }
+
   /**
    * Check if a field is a file field
    */
@@ -92,6 +130,14 @@ export class FieldUtils {
     return directusType === 'date' || directusType === 'datetime' || directusType === 'time';
   }
 
+  /**
+   * Check if a field is stored in a numeric column. Decimals and big integers among them
+   * may be typed as strings, such as Postgres `numeric`.
+   */
+  static isNumericField(field: DirectusField): boolean {
+    return NUMERIC_DATA_TYPES.includes(field.schema?.data_type || field.type);
+  }
+
   /**
    * Check if a field is an autocomplete field
    */
@@ -136,10 +182,18 @@ export class FieldUtils {
     return foreignKeyFields.length >= 2;
   }
 
+  /**
+   * Check if a field is left out of create and update payloads: readonly fields,
+   * and hidden fields when `omitHiddenFields` is set
+   */
+  static isOmittedFromPayload(field: DirectusField, omitHiddenFields: boolean = false): boolean {
+    return field.meta?.readonly === true || (omitHiddenFields && field.meta?.hidden === true);
+  }
+
   /**
    * Get fields to omit for create operations
    */
-  static getFieldsToOmitForCreate(fields: DirectusField[], hasIdField: boolean): string[] {
+  static getFieldsToOmitForCreate(fields: DirectusField[], hasIdField: boolean, omitHiddenFields: boolean = false): string[] {
     const fieldsToOmit: string[] = [];
     
     // Always omit ID field for create operations
@@ -155,7 +209,22 @@ export class FieldUtils {
         fieldsToOmit.push(systemField);
       }
     });
+
+    for (const field of fields) {
+      if (!fieldsToOmit.includes(field.field) && this.isOmittedFromPayload(field, omitHiddenFields)) {
+        fieldsToOmit.push(field.field);
+      }
+    }
     
     return fieldsToOmit;
   }
+
+  /**
+   * Get fields to omit for update operations. The id always stays, as it addresses the item.
+   */
+  static getFieldsToOmitForUpdate(fields: DirectusField[], omitHiddenFields: boolean = false): string[] {
+    return fields
+      .filter(field => field.field !== 'id' && this.isOmittedFromPayload(field, omitHiddenFields))
+      .map(field => field.field);
+  }
 }
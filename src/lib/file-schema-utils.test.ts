@@ -90,6 +90,15 @@ describe('FileSchemaUtils', () => {
       expect(result).toContain('folder: z.string().uuid().nullable()');
     });
 
+    it('should apply column length constraints', () => {
+      const title = createMockFileField('title', 'varchar', true, false, false);
+      const fileFields = [{ ...title, schema: { ...title.schema, max_length: 255 } }];
+
+      const result = FileSchemaUtils.generateFileSchemaFields(fileFields);
+
+      expect(result).toContain('title: z.string().max(255).nullable()');
+    });
+
     it('should handle empty fields array', () => {
       const fileFields: any[] = [];
       const result = FileSchemaUtils.generateFileSchemaFields(fileFields);
@@ -1,3 +1,5 @@
+import { ConstraintUtils } from './constraint-utils';
+
 /**
  * Utilities for generating file schema fields
  */
@@ -64,6 +66,8 @@ export class FileSchemaUtils {
           zodType = 'z.any()';
       }
       
+      zodType += ConstraintUtils.getConstraintChain(field, zodType);
+
       // Apply nullable and optional modifiers
       if (isNullable) {
         zodType += '.nullable()';
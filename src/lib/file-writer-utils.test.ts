@@ -1,5 +1,5 @@
 import { FileWriterUtils } from './file-writer-utils';
-import { GeneratedSchema } from '../types';
+import { GeneratedSchema, SchemaReferences } from '../types';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -13,10 +13,11 @@ describe('FileWriterUtils', () => {
   });
 
   describe('generateFileContent', () => {
-    const createMockSchema = (collectionName: string, schema?: string, type?: string): GeneratedSchema => ({
+    const createMockSchema = (collectionName: string, schema?: string, type?: string, references?: SchemaReferences): GeneratedSchema => ({
       collectionName,
       schema,
       type,
+      references,
     });
 
     it('should generate file content with schema only', () => {
@@ -59,7 +60,9 @@ describe('FileWriterUtils', () => {
     it('should add file schema imports when needed', () => {
       const result = createMockSchema(
         'users',
-        'export const DrxUserSchema = z.object({ avatar: DrxFileSchema.nullable().optional() });'
+        'export const DrxUserSchema = z.object({ avatar: DrxFileSchema.nullable().optional() });',
+        undefined,
+        { collections: [], files: true }
       );
       const results = [result];
       const circularDeps: string[][] = [];
@@ -72,7 +75,9 @@ describe('FileWriterUtils', () => {
     it('should add file schema imports with parent path for system collections', () => {
       const result = createMockSchema(
         'directus_users',
-        'export const DrxDirectusUserSchema = z.object({ avatar: DrxFileSchema.nullable().optional() });'
+        'export const DrxDirectusUserSchema = z.object({ avatar: DrxFileSchema.nullable().optional() });',
+        undefined,
+        { collections: [], files: true }
       );
       const results = [result];
       const circularDeps: string[][] = [];
@@ -135,6 +140,7 @@ describe('FileWriterUtils', () => {
       expect(result).toContain('export interface DrsImageFile {');
       expect(result).toContain('id: z.string().uuid()');
       expect(result).toContain('filename_disk: z.string()');
+      expect(result).toContain('width: z.number().int().optional()');
     });
   });
 
@@ -194,6 +200,189 @@ describe('FileWriterUtils', () => {
     });
   });
 
+  describe('renderFiles', () => {
+    it('should key rendered files by path without touching the disk', () => {
+      const results: GeneratedSchema[] = [
+        { collectionName: 'directus_users', schema: 'export const DrxDirectusUserSchema = z.object({});' },
+        { collectionName: 'users', schema: 'export const DrxUserSchema = z.object({});' },
+      ];
+
+      const files = FileWriterUtils.renderFiles(results, './test-output');
+
+      expect([...files.keys()]).toEqual([
+        path.join('./test-output', 'system', 'directus-users.ts'),
+        path.join('./test-output', 'users.ts'),
+        path.join('./test-output', 'system', 'index.ts'),
+        path.join('./test-output', 'index.ts'),
+      ]);
+      expect(files.get(path.join('./test-output', 'users.ts'))).toContain('export const DrxUserSchema');
+      expect(mockedFs.writeFileSync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('generateIndexContent', () => {
+    const results: GeneratedSchema[] = [
+      { collectionName: 'directus_users', schema: 'export const DrxDirectusUserSchema = z.object({});' },
+      { collectionName: 'blog_posts', schema: 'export const DrxBlogPostSchema = z.object({});', type: 'export interface DrsBlogPost {}' },
+    ];
+
+    it('should re-export every collection file, the system barrel and the given modules', () => {
+      const result = FileWriterUtils.generateIndexContent(results, ['file-schemas', 'filters']);
+
+      expect(result).toContain("export * from './blog-posts';");
+      expect(result).toContain("export * from './system';");
+      expect(result).toContain("export * from './file-schemas';");
+      expect(result).toContain("export * from './filters';");
+      expect(result).not.toContain("export * from './system/directus-users';");
+    });
+
+    it('should map collection names to their schemas', () => {
+      const result = FileWriterUtils.generateIndexContent(results);
+
+      expect(result).toContain("import { DrxBlogPostSchema, DrxBlogPostCreateSchema, DrxBlogPostUpdateSchema, DrxBlogPostGetSchema } from './blog-posts';");
+      expect(result).toContain("import { DrxDirectusUserSchema, DrxDirectusUserCreateSchema, DrxDirectusUserUpdateSchema, DrxDirectusUserGetSchema } from './system/directus-users';");
+      expect(result).toContain('export const collections = {');
+      expect(result).toContain('  blog_posts: {\n    schema: DrxBlogPostSchema,\n    create: DrxBlogPostCreateSchema,\n    update: DrxBlogPostUpdateSchema,\n    get: DrxBlogPostGetSchema,\n  },');
+    });
+
+    it('should import the collections map from the schema file in the single-file layout', () => {
+      const result = FileWriterUtils.generateIndexContent(results, ['schemas', 'filters'], { outputLayout: 'single-file' });
+
+      expect(result).toContain("import { DrxDirectusUserSchema, DrxDirectusUserCreateSchema, DrxDirectusUserUpdateSchema, DrxDirectusUserGetSchema, DrxBlogPostSchema, DrxBlogPostCreateSchema, DrxBlogPostUpdateSchema, DrxBlogPostGetSchema } from './schemas';");
+      expect(result).toContain("export * from './schemas';\nexport * from './filters';\n");
+      expect(result).not.toContain("export * from './blog-posts';");
+      expect(result).not.toContain("export * from './system';");
+    });
+
+    it('should leave out the collections map when no schemas are generated', () => {
+      const result = FileWriterUtils.generateIndexContent([{ collectionName: 'blog_posts', type: 'export interface DrsBlogPost {}' }]);
+
+      expect(result).toBe("export * from './blog-posts';\n");
+    });
+
+    it('should map collection names to the configured schema names', () => {
+      const result = FileWriterUtils.generateIndexContent(
+        [{ collectionName: 'blog_posts', schema: 'export const PostModel = z.object({});' }],
+        [],
+        { naming: { schemaPrefix: '', schemaSuffix: 'Model', createSuffix: 'Input', overrides: { blog_posts: 'Post' } } }
+      );
+
+      expect(result).toContain("import { PostModel, PostInputModel, PostUpdateModel, PostGetModel } from './blog-posts';");
+      expect(result).toContain('    create: PostInputModel,');
+    });
+  });
+
+  describe('getModulePath', () => {
+    it('should point at the collection file in the per-collection layout', () => {
+      expect(FileWriterUtils.getModulePath('blog_posts')).toBe('./blog-posts');
+      expect(FileWriterUtils.getModulePath('directus_users', 'type')).toBe('./system/directus-users');
+    });
+
+    it('should point at the schema or types file in the split layout', () => {
+      const config = { outputLayout: 'schemas-and-types-split' as const, typesFileName: 'models.ts' };
+
+      expect(FileWriterUtils.getModulePath('blog_posts', 'schema', config)).toBe('./schemas');
+      expect(FileWriterUtils.getModulePath('blog_posts', 'type', config)).toBe('./models');
+    });
+
+    it('should point at one file in the single-file layout', () => {
+      expect(FileWriterUtils.getModulePath('blog_posts', 'type', { outputLayout: 'single-file' })).toBe('./schemas');
+      expect(FileWriterUtils.getModulePath('blog_posts', 'type', { outputLayout: 'single-file', generateSchemas: false })).toBe('./types');
+    });
+  });
+
+  describe('generateSystemIndexContent', () => {
+    it('should re-export every system collection file', () => {
+      const result = FileWriterUtils.generateSystemIndexContent([
+        { collectionName: 'directus_users', schema: 'export const DrxDirectusUserSchema = z.object({});' },
+        { collectionName: 'directus_files', schema: 'export const DrxDirectusFileSchema = z.object({});' },
+      ]);
+
+      expect(result).toBe("export * from './directus-users';\nexport * from './directus-files';\n");
+    });
+  });
+
+  describe('writeRenderedFiles', () => {
+    it('should only write files whose content changed', () => {
+      const outputDir = './test-output';
+      const usersPath = path.join(outputDir, 'users.ts');
+      const postsPath = path.join(outputDir, 'posts.ts');
+      mockedFs.existsSync.mockReturnValue(true);
+      mockedFs.readFileSync.mockImplementation(((p: string) => p === usersPath ? 'users\n' : 'old posts\n') as any);
+
+      const written = FileWriterUtils.writeRenderedFiles(new Map([
+        [usersPath, 'users\n'],
+        [postsPath, 'new posts\n'],
+      ]));
+
+      expect(written).toEqual([postsPath]);
+      expect(mockedFs.writeFileSync).toHaveBeenCalledTimes(1);
+      expect(mockedFs.writeFileSync).toHaveBeenCalledWith(postsPath, 'new posts\n');
+    });
+  });
+
+  describe('findStaleFiles', () => {
+    const outputDir = './test-output';
+    const usersPath = path.join(outputDir, 'users.ts');
+    const postsPath = path.join(outputDir, 'posts.ts');
+
+    const manifestPath = path.join(outputDir, FileWriterUtils.MANIFEST_FILE_NAME);
+    const manifest = JSON.stringify({ files: ['old.ts', 'posts.ts', 'users.ts'] });
+
+    beforeEach(() => {
+      mockedFs.existsSync.mockImplementation(p => p !== postsPath);
+      mockedFs.readFileSync.mockImplementation(((p: string) => {
+        if (p === manifestPath) {
+          return manifest;
+        }
+        return p === usersPath ? 'old content\n' : 'stale\n';
+      }) as any);
+    });
+
+    it('should report changed, missing and unexpected files', () => {
+      const files = new Map([
+        [usersPath, 'new content\n'],
+        [postsPath, 'posts\n'],
+      ]);
+
+      const staleFiles = FileWriterUtils.findStaleFiles(files, outputDir);
+
+      expect(staleFiles.map(f => [f.filePath, f.status])).toEqual([
+        [usersPath, 'changed'],
+        [postsPath, 'missing'],
+        [path.join(outputDir, 'old.ts'), 'unexpected'],
+      ]);
+      expect(staleFiles[0].diff).toContain('-old content');
+      expect(staleFiles[0].diff).toContain('+new content');
+    });
+
+    it('should return nothing when files are up to date', () => {
+      const files = new Map([[usersPath, 'old content\n']]);
+      mockedFs.existsSync.mockImplementation(p => p === usersPath);
+
+      expect(FileWriterUtils.findStaleFiles(files, outputDir)).toEqual([]);
+    });
+
+    it('should leave files that are not in the manifest alone', () => {
+      const files = new Map([[usersPath, 'old content\n']]);
+      mockedFs.existsSync.mockImplementation(p => p === usersPath || p === manifestPath || p === path.join(outputDir, 'helpers.ts'));
+
+      expect(FileWriterUtils.findStaleFiles(files, outputDir)).toEqual([]);
+    });
+
+    it('should list the rendered files relative to the output directory in the manifest', () => {
+      const files = new Map([
+        [usersPath, ''],
+        [path.join(outputDir, 'system', 'directus-users.ts'), ''],
+        [postsPath, ''],
+      ]);
+
+      expect(JSON.parse(FileWriterUtils.renderManifest(files, outputDir))).toEqual({
+        files: ['posts.ts', 'system/directus-users.ts', 'users.ts'],
+      });
+    });
+  });
+
   describe('writeFileSchemas', () => {
     const mockClient = {
       getCollectionWithFields: jest.fn(),
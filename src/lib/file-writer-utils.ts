@@ -1,14 +1,23 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { GeneratedSchema } from '../types';
+import { GeneratedSchema, SchemaSource, StaleFile, ZodirectusConfig } from '../types';
 import { StringUtils } from './string-utils';
 import { DependencyUtils } from './dependency-utils';
 import { ImportUtils } from './import-utils';
+import { DiffUtils } from './diff-utils';
+import { NamingUtils } from './naming-utils';
+
+type OutputLayoutConfig = Pick<ZodirectusConfig, 'outputLayout' | 'schemaFileName' | 'typesFileName' | 'generateSchemas' | 'naming'>;
 
 /**
  * Utilities for writing generated files to the output directory
  */
 export class FileWriterUtils {
+  /**
+   * File in the output directory that lists the generated files
+   */
+  static readonly MANIFEST_FILE_NAME = '.zodirectus-manifest.json';
+
   /**
    * Write generated files to the output directory
    */
@@ -24,6 +33,18 @@ export class FileWriterUtils {
       fs.mkdirSync(systemDir, { recursive: true });
     }
 
+    this.writeRenderedFiles(this.renderFiles(results, outputDir));
+  }
+
+  /**
+   * Render the per-collection files and the index.ts barrels in memory, keyed by file path.
+   * `modules` are other files in the output directory for the barrel to re-export, e.g. `query-types`.
+   */
+  static renderFiles(results: GeneratedSchema[], outputDir: string, modules: string[] = [], config: OutputLayoutConfig = {}): Map<string, string> {
+    const files = new Map<string, string>();
+    const systemDir = path.join(outputDir, 'system');
+    const naming = new NamingUtils(config.naming);
+
     // Build dependency graph and detect circular dependencies
     const dependencyGraph = DependencyUtils.buildDependencyGraph(results);
     const circularDeps = DependencyUtils.detectCircularDependencies(dependencyGraph);
@@ -32,31 +53,220 @@ export class FileWriterUtils {
     const systemCollections = results.filter(r => r.collectionName.startsWith('directus_'));
     const regularCollections = results.filter(r => !r.collectionName.startsWith('directus_'));
 
-    // Write system collections to system/ subfolder
+    // System collections go to the system/ subfolder
     for (const result of systemCollections) {
-      console.log(`Writing system file for collection: ${result.collectionName}`);
       const fileName = StringUtils.toKebabCase(result.collectionName);
-      const filePath = path.join(systemDir, `${fileName}.ts`);
-      
-      const fileContent = this.generateFileContent(result, results, circularDeps, true);
-      
-      // Write the file
-      fs.writeFileSync(filePath, fileContent);
+      files.set(path.join(systemDir, `${fileName}.ts`), this.generateFileContent(result, results, circularDeps, true, naming));
     }
 
-    // Write regular collections to root folder
+    // Regular collections go to the root folder
     for (const result of regularCollections) {
-      console.log(`Writing file for collection: ${result.collectionName}`);
       const fileName = StringUtils.toKebabCase(result.collectionName);
-      const filePath = path.join(outputDir, `${fileName}.ts`);
-      
-      const fileContent = this.generateFileContent(result, results, circularDeps, false);
-      
-      // Write the file
-      fs.writeFileSync(filePath, fileContent);
+      files.set(path.join(outputDir, `${fileName}.ts`), this.generateFileContent(result, results, circularDeps, false, naming));
+    }
+
+    if (systemCollections.length > 0) {
+      files.set(path.join(systemDir, 'index.ts'), this.generateSystemIndexContent(systemCollections));
+    }
+    files.set(path.join(outputDir, 'index.ts'), this.generateIndexContent(results, modules, config));
+
+    return files;
+  }
+
+  /**
+   * Generate the system/index.ts barrel re-exporting every system collection file
+   */
+  static generateSystemIndexContent(systemCollections: GeneratedSchema[]): string {
+    return systemCollections
+      .map(result => `export * from './${StringUtils.toKebabCase(result.collectionName)}';`)
+      .join('\n') + '\n';
+  }
+
+  /**
+   * Generate the index.ts barrel re-exporting every collection file and the given modules,
+   * with a `collections` map from collection name to its schemas. In the single-file and
+   * split layouts the collection files are among `modules` already.
+   */
+  static generateIndexContent(results: GeneratedSchema[], modules: string[] = [], config: OutputLayoutConfig = {}): string {
+    const isPerCollection = (config.outputLayout ?? 'per-collection') === 'per-collection';
+    const regularCollections = isPerCollection ? results.filter(r => !r.collectionName.startsWith('directus_')) : [];
+    const hasSystemCollections = isPerCollection && results.some(r => r.collectionName.startsWith('directus_'));
+    const schemaResults = results.filter(r => r.schema);
+    const naming = new NamingUtils(config.naming);
+
+    // One import per module, in the order the collections come in
+    const importedNames = new Map<string, string[]>();
+    for (const result of schemaResults) {
+      const { schema, create, update, get } = this.getSchemaNames(result.collectionName, naming);
+      const modulePath = this.getModulePath(result.collectionName, 'schema', config);
+      importedNames.set(modulePath, [...(importedNames.get(modulePath) || []), schema, create, update, get]);
+    }
+    const imports = [...importedNames].map(([modulePath, names]) => `import { ${names.join(', ')} } from '${modulePath}';`);
+
+    const exports = [
+      ...regularCollections.map(result => `export * from './${StringUtils.toKebabCase(result.collectionName)}';`),
+      ...(hasSystemCollections ? [`export * from './system';`] : []),
+      ...modules.map(module => `export * from './${module}';`),
+    ];
+
+    let content = imports.length > 0 ? `${imports.join('\n')}\n\n` : '';
+    content += `${exports.join('\n')}\n`;
+
+    if (schemaResults.length > 0) {
+      const entries = schemaResults.map(result => {
+        const { schema, create, update, get } = this.getSchemaNames(result.collectionName, naming);
+        return `  ${result.collectionName}: {\n    schema: ${schema},\n    create: ${create},\n    update: ${update},\n    get: ${get},\n  },`;
+      });
+
+      content += `\n/**\n * Schemas of each collection keyed by collection name\n */\nexport const collections = {\n${entries.join('\n')}\n} as const;\n`;
+    }
+
+    return content;
+  }
+
+  /**
+   * Get the module holding a collection's schemas or types, relative to the output directory
+   */
+  static getModulePath(collectionName: string, kind: 'schema' | 'type' = 'schema', config: OutputLayoutConfig = {}): string {
+    const layout = config.outputLayout ?? 'per-collection';
+
+    if (layout === 'per-collection') {
+      const fileName = StringUtils.toKebabCase(collectionName);
+      return collectionName.startsWith('directus_') ? `./system/${fileName}` : `./${fileName}`;
+    }
+
+    const { schemaFileName, typesFileName } = this.getLayoutFileNames(config);
+    return `./${path.basename(kind === 'schema' ? schemaFileName : typesFileName, '.ts')}`;
+  }
+
+  /**
+   * Get the files the single-file and split layouts write schemas and types to.
+   * The single-file layout writes both to `schemaFileName`, or to `typesFileName` without schemas.
+   */
+  static getLayoutFileNames(config: OutputLayoutConfig = {}): { schemaFileName: string; typesFileName: string } {
+    const schemaFileName = config.schemaFileName ?? 'schemas.ts';
+    const typesFileName = config.typesFileName ?? 'types.ts';
+
+    if (config.outputLayout === 'single-file') {
+      const fileName = config.generateSchemas === false ? typesFileName : schemaFileName;
+      return { schemaFileName: fileName, typesFileName: fileName };
+    }
+
+    return { schemaFileName, typesFileName };
+  }
+
+  /**
+   * Get the names of the schemas generated for a collection
+   */
+  private static getSchemaNames(collectionName: string, naming: NamingUtils): { schema: string; create: string; update: string; get: string } {
+    return {
+      schema: naming.getSchemaName(collectionName),
+      create: naming.getSchemaName(collectionName, 'create'),
+      update: naming.getSchemaName(collectionName, 'update'),
+      get: naming.getSchemaName(collectionName, 'get'),
+    };
+  }
+
+
+  /**
+   * Write rendered files to disk, creating parent directories as needed.
+   * Files whose content is unchanged are left alone; the written paths are returned.
+   */
+  static writeRenderedFiles(files: Map<string, string>): string[] {
+    const writtenFiles: string[] = [];
+
+    for (const [filePath, content] of files) {
+      const dir = path.dirname(filePath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+
+      if (fs.existsSync(filePath) && fs.readFileSync(filePath, 'utf8') === content) {
+        continue;
+      }
+
+      console.log(`Writing file: ${filePath}`);
+      fs.writeFileSync(filePath, content);
+      writtenFiles.push(filePath);
+    }
+
+    return writtenFiles;
+  }
+
+  /**
+   * Render the manifest listing the rendered files, relative to the output directory
+   */
+  static renderManifest(files: Map<string, string>, outputDir: string): string {
+    const generatedFiles = [...files.keys()]
+      .map(filePath => path.relative(outputDir, filePath).split(path.sep).join('/'))
+      .filter(filePath => filePath !== this.MANIFEST_FILE_NAME)
+      .sort();
+
+    return `${JSON.stringify({ files: generatedFiles }, null, 2)}\n`;
+  }
+
+  /**
+   * Read the files listed in the output directory's manifest. Returns nothing when there is no manifest.
+   */
+  static readManifest(outputDir: string): string[] {
+    const manifestPath = path.join(outputDir, this.MANIFEST_FILE_NAME);
+    if (!fs.existsSync(manifestPath)) {
+      return [];
+    }
+
+    try {
+      const manifest: { files?: unknown } = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+      return Array.isArray(manifest.files)
+        ? manifest.files.filter((file): file is string => typeof file === 'string').map(file => path.join(outputDir, file))
+        : [];
+    } catch (error) {
+      throw new Error(`Failed to read ${manifestPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Compare rendered files with what is on disk and report every file that differs.
+   * Files listed in the existing manifest that would no longer be generated are
+   * reported as unexpected; hand-written files in the output directory are left alone.
+   */
+  static findStaleFiles(files: Map<string, string>, outputDir: string): StaleFile[] {
+    const staleFiles: StaleFile[] = [];
+
+    for (const [filePath, content] of files) {
+      if (!fs.existsSync(filePath)) {
+        staleFiles.push({
+          filePath,
+          status: 'missing',
+          diff: DiffUtils.createUnifiedDiff('', content, '/dev/null', filePath),
+        });
+        continue;
+      }
+
+      const existing = fs.readFileSync(filePath, 'utf8');
+      if (existing !== content) {
+        staleFiles.push({
+          filePath,
+          status: 'changed',
+          diff: DiffUtils.createUnifiedDiff(existing, content, filePath, filePath),
+        });
+      }
+    }
+
+    for (const filePath of this.readManifest(outputDir)) {
+      if (files.has(filePath) || !fs.existsSync(filePath)) {
+        continue;
+      }
+
+      staleFiles.push({
+        filePath,
+        status: 'unexpected',
+        diff: DiffUtils.createUnifiedDiff(fs.readFileSync(filePath, 'utf8'), '', filePath, '/dev/null'),
+      });
+    }
+
+    return staleFiles;
+  }
+
   /**
    * Generate file content for a single collection
    */
@@ -64,7 +274,8 @@ export class FileWriterUtils {
     result: GeneratedSchema,
     results: GeneratedSchema[],
     circularDeps: string[][],
-    isSystemCollection: boolean = false
+    isSystemCollection: boolean = false,
+    naming: NamingUtils = new NamingUtils()
   ): string {
     let fileContent = '';
     
@@ -72,10 +283,10 @@ export class FileWriterUtils {
     fileContent += ImportUtils.generateZodImport(result);
     
     // Add file schemas import if needed
-    fileContent += ImportUtils.generateFileSchemaImport(result, isSystemCollection);
+    fileContent += ImportUtils.generateFileSchemaImport(result, isSystemCollection, naming);
     
     // Add imports for related collections
-    fileContent += ImportUtils.generateImportStatements(result, results, circularDeps, isSystemCollection);
+    fileContent += ImportUtils.generateImportStatements(result, results, circularDeps, isSystemCollection, naming);
     
     // Add spacing after imports
     if (fileContent.includes('import')) {
@@ -98,32 +309,33 @@ export class FileWriterUtils {
   /**
    * Write file schemas to the output directory
    */
-  static async writeFileSchemas(outputDir: string, client: any): Promise<void> {
+  static async writeFileSchemas(outputDir: string, client: Pick<SchemaSource, 'getCollectionWithFields'>): Promise<void> {
     const fileSchemasPath = path.join(outputDir, 'file-schemas.ts');
     
+    fs.writeFileSync(fileSchemasPath, await this.renderFileSchemas(client));
+    console.log(`Generated: ${fileSchemasPath}`);
+  }
+
+  /**
+   * Render the file schemas based on the actual Directus file collection structure
+   */
+  static async renderFileSchemas(client: Pick<SchemaSource, 'getCollectionWithFields'>, naming: NamingUtils = new NamingUtils()): Promise<string> {
     try {
       // Try to fetch the actual file collection structure from Directus
       const fileCollection = await client.getCollectionWithFields('directus_files');
-      const fileFields = fileCollection.fields;
       
-      const fileSchemasContent = this.generateDynamicFileSchemas(fileFields);
-      
-      fs.writeFileSync(fileSchemasPath, fileSchemasContent);
-      console.log(`Generated: ${fileSchemasPath}`);
+      return this.generateDynamicFileSchemas(fileCollection.fields, naming);
     } catch (error) {
       console.log('Could not fetch file collection structure, using fallback schema');
       // Fallback to static schema if we can't access the file collection
-      const fallbackContent = this.generateFallbackFileSchemas();
-      
-      fs.writeFileSync(fileSchemasPath, fallbackContent);
-      console.log(`Generated: ${fileSchemasPath} (fallback)`);
+      return this.generateFallbackFileSchemas(naming);
     }
   }
 
   /**
    * Generate dynamic file schemas based on actual Directus structure
    */
-  static generateDynamicFileSchemas(fileFields: any[]): string {
+  static generateDynamicFileSchemas(fileFields: any[], naming: NamingUtils = new NamingUtils()): string {
     const { FileSchemaUtils } = require('./file-schema-utils');
     
     const fileSchemaFields = FileSchemaUtils.generateFileSchemaFields(fileFields);
@@ -134,25 +346,25 @@ export class FileWriterUtils {
 /**
  * Directus file object schema (generated from actual Directus structure)
  */
-export const DrxFileSchema = z.object({
+export const ${naming.getSharedSchemaName('File')} = z.object({
 ${fileSchemaFields}
 });
 
 /**
  * Directus image file object schema (generated from actual Directus structure)
  */
-export const DrxImageFileSchema = z.object({
+export const ${naming.getSharedSchemaName('ImageFile')} = z.object({
 ${imageFileSchemaFields}
 });
 
 /**
  * TypeScript interfaces for Directus file objects
  */
-export interface DrsFile {
+export interface ${naming.getSharedTypeName('File')} {
 ${FileSchemaUtils.generateFileInterfaceFields(fileFields)}
 }
 
-export interface DrsImageFile {
+export interface ${naming.getSharedTypeName('ImageFile')} {
 ${FileSchemaUtils.generateImageFileInterfaceFields(fileFields)}
 }
 `;
@@ -161,13 +373,13 @@ ${FileSchemaUtils.generateImageFileInterfaceFields(fileFields)}
   /**
    * Generate fallback file schemas when Directus structure cannot be accessed
    */
-  static generateFallbackFileSchemas(): string {
+  static generateFallbackFileSchemas(naming: NamingUtils = new NamingUtils()): string {
     return `import { z } from 'zod';
 
 /**
  * Directus file object schema (fallback)
  */
-export const DrxFileSchema = z.object({
+export const ${naming.getSharedSchemaName('File')} = z.object({
   id: z.string().uuid(),
   filename_disk: z.string(),
   filename_download: z.string(),
@@ -189,7 +401,7 @@ export const DrxFileSchema = z.object({
 /**
  * Directus image file object schema (fallback)
  */
-export const DrxImageFileSchema = z.object({
+export const ${naming.getSharedSchemaName('ImageFile')} = z.object({
   id: z.string().uuid(),
   filename_disk: z.string(),
   filename_download: z.string(),
@@ -203,19 +415,19 @@ export const DrxImageFileSchema = z.object({
   modified_on: z.string().datetime(),
   charset: z.string().optional(),
   filesize: z.number().int(),
-  width?: number;
-  height?: number;
-  duration?: number;
-  embed?: string;
-  location?: string;
-  tags?: string[];
-  metadata?: Record<string, any>;
+  width: z.number().int().optional(),
+  height: z.number().int().optional(),
+  duration: z.number().int().optional(),
+  embed: z.string().optional(),
+  location: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  metadata: z.record(z.any()).optional()
 });
 
 /**
  * TypeScript interfaces for Directus file objects (fallback)
  */
-export interface DrsFile {
+export interface ${naming.getSharedTypeName('File')} {
   id: string;
   filename_disk: string;
   filename_download: string;
@@ -234,7 +446,7 @@ export interface DrsFile {
   metadata?: Record<string, any>;
 }
 
-export interface DrsImageFile {
+export interface ${naming.getSharedTypeName('ImageFile')} {
   id: string;
   filename_disk: string;
   filename_download: string;
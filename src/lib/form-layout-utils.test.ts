@@ -0,0 +1,100 @@
+import { FormLayoutUtils } from './form-layout-utils';
+import { NamingUtils } from './naming-utils';
+import { DirectusField } from '../types';
+
+describe('FormLayoutUtils', () => {
+  const field = (name: string, meta: Partial<NonNullable<DirectusField['meta']>> = {}, type: string = 'string'): DirectusField => ({
+    field: name,
+    type,
+    meta: { id: 1, collection: 'articles', field: name, required: false, readonly: false, hidden: false, ...meta },
+  });
+  const group = (name: string, meta: Partial<NonNullable<DirectusField['meta']>> = {}): DirectusField =>
+    field(name, { special: ['alias', 'no-data', 'group'], ...meta }, 'alias');
+
+  describe('buildLayout', () => {
+    it('should nest fields in their groups, ordered by sort', () => {
+      const layout = FormLayoutUtils.buildLayout([
+        field('title', { sort: 2, width: 'half' }),
+        group('seo', { sort: 3, interface: 'group-accordion' }),
+        field('meta_description', { sort: 2, group: 'seo' }),
+        field('meta_title', { sort: 1, group: 'seo', required: true }),
+        field('id', { sort: 1, readonly: true, hidden: true }),
+      ]);
+
+      expect(layout.map(node => node.field)).toEqual(['id', 'title', 'seo']);
+      expect(layout[1]).toEqual({ kind: 'field', field: 'title', interface: null, width: 'half', required: false, readonly: false, hidden: false, note: null });
+      expect(layout[2].kind).toBe('group');
+      expect(layout[2].interface).toBe('group-accordion');
+      expect(layout[2].children?.map(node => node.field)).toEqual(['meta_title', 'meta_description']);
+      expect(layout[2].children?.[0].required).toBe(true);
+    });
+
+    it('should nest groups in groups', () => {
+      const layout = FormLayoutUtils.buildLayout([
+        group('details', { interface: 'group-detail' }),
+        group('advanced', { interface: 'group-raw', group: 'details' }),
+        field('slug', { group: 'advanced' }),
+      ]);
+
+      expect(layout).toHaveLength(1);
+      expect(layout[0].children?.[0].field).toBe('advanced');
+      expect(layout[0].children?.[0].children?.map(node => node.field)).toEqual(['slug']);
+    });
+
+    it('should put groups that are nested in each other at the top level', () => {
+      const layout = FormLayoutUtils.buildLayout([
+        group('details', { sort: 1, group: 'advanced' }),
+        group('advanced', { sort: 2, group: 'details' }),
+        group('loop', { sort: 3, group: 'loop' }),
+        field('slug', { group: 'details' }),
+        field('title', { sort: 4 }),
+      ]);
+
+      expect(layout.map(node => node.field)).toEqual(['details', 'advanced', 'loop', 'title']);
+      expect(layout[0].children?.map(node => node.field)).toEqual(['slug']);
+    });
+
+    it('should put fields of unknown groups at the top level and default the width to full', () => {
+      const layout = FormLayoutUtils.buildLayout([
+        field('title', { group: 'missing', width: 'wide' }),
+        field('body', {}, 'text'),
+      ]);
+
+      expect(layout.map(node => [node.field, node.width])).toEqual([['title', 'full'], ['body', 'full']]);
+    });
+  });
+
+  describe('generateFormLayoutFile', () => {
+    it('should generate the node types and the layouts keyed by collection', () => {
+      const result = FormLayoutUtils.generateFormLayoutFile([
+        { collection: 'articles', fields: [field('title', { width: 'half' }), group('seo'), field('meta_title', { group: 'seo' })] },
+        { collection: 'tags', fields: [] },
+      ]);
+
+      expect(result).toContain('export type DrsFormWidth = "half" | "half-left" | "half-right" | "full" | "fill";');
+      expect(result).toContain('export type DrsFormNode = DrsFormField | DrsFormGroup;');
+      expect(result).toContain('export const formLayouts: Record<"articles" | "tags", DrsFormNode[]> = {');
+      expect(result).toContain('    { kind: "field", field: "title", interface: null, width: "half", required: false, readonly: false, hidden: false, note: null },');
+      expect(result).toContain(`    {
+      kind: "group", field: "seo", interface: null, width: "full", required: false, readonly: false, hidden: false, note: null,
+      children: [
+        { kind: "field", field: "meta_title", interface: null, width: "full", required: false, readonly: false, hidden: false, note: null },
+      ],
+    },`);
+      expect(result).toContain('  "tags": [],');
+    });
+
+    it('should quote collection names that are not identifiers', () => {
+      const result = FormLayoutUtils.generateFormLayoutFile([{ collection: 'blog-posts', fields: [] }, { collection: '2fa_codes', fields: [] }]);
+
+      expect(result).toContain('  "blog-posts": [],\n  "2fa_codes": [],');
+    });
+
+    it('should name the node types after the naming strategy', () => {
+      const result = FormLayoutUtils.generateFormLayoutFile([], new NamingUtils({ typePrefix: 'I' }));
+
+      expect(result).toContain('export type IFormNode = IFormField | IFormGroup;');
+      expect(result).toContain('export const formLayouts: Record<never, IFormNode[]> = {');
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { DirectusCollectionWithFields, DirectusField, FormLayoutNode, FormWidth } from '../types';
+import { FieldUtils } from './field-utils';
+import { NamingUtils } from './naming-utils';
+
+const FORM_WIDTHS: FormWidth[] = ['half', 'half-left', 'half-right', 'full', 'fill'];
+
+/**
+ * Utilities for describing the admin app form of a collection: its field groups, order and widths
+ */
+export class FormLayoutUtils {
+  /**
+   * Build the form layout of a collection. Fields are nested in their group (`meta.group`)
+   * and ordered by `meta.sort` within it; fields in an unknown group, and groups that end up
+   * inside themselves (A in B, B in A), are put at the top level.
+   */
+  static buildLayout(fields: DirectusField[]): FormLayoutNode[] {
+    const groups = new Set(fields.filter(field => FieldUtils.isGroupField(field)).map(field => field.field));
+    const parents = new Map<string, string | null>(
+      fields.map(field => [field.field, field.meta?.group && groups.has(field.meta.group) ? field.meta.group : null])
+    );
+    const children = new Map<string | null, DirectusField[]>();
+
+    for (const field of fields) {
+      const group = this.isInGroupCycle(field.field, parents) ? null : parents.get(field.field) ?? null;
+      children.set(group, [...(children.get(group) || []), field]);
+    }
+
+    // Cycles are broken above, so walking down from the top level always ends
+    const buildNodes = (group: string | null): FormLayoutNode[] => this.sortFields(children.get(group) || [])
+      .map(field => {
+        const node = this.toNode(field);
+        if (node.kind === 'group') {
+          node.children = buildNodes(field.field);
+        }
+        return node;
+      });
+
+    return buildNodes(null);
+  }
+
+  /**
+   * Generate form-layouts.ts: the node types and a `formLayouts` map from collection name to its layout
+   */
+  static generateFormLayoutFile(collections: DirectusCollectionWithFields[], naming: NamingUtils = new NamingUtils()): string {
+    const widthType = naming.getSharedTypeName('FormWidth');
+    const fieldType = naming.getSharedTypeName('FormField');
+    const groupType = naming.getSharedTypeName('FormGroup');
+    const nodeType = naming.getSharedTypeName('FormNode');
+    const collectionNames = collections.length > 0 ? collections.map(c => JSON.stringify(c.collection)).join(' | ') : 'never';
+    const entries = collections.map(collection => {
+      const nodes = this.buildLayout(collection.fields);
+      const key = JSON.stringify(collection.collection);
+      return nodes.length > 0
+        ? `  ${key}: [\n${this.renderNodes(nodes, '    ')}\n  ],`
+        : `  ${key}: [],`;
+    });
+
+    return `/**
+ * Width of a field in the admin app form
+ */
+export type ${widthType} = ${FORM_WIDTHS.map(width => JSON.stringify(width)).join(' | ')};
+
+/**
+ * Field in the admin app form
+ */
+export interface ${fieldType} {
+  kind: "field";
+  field: string;
+  interface: string | null;
+  width: ${widthType};
+  required: boolean;
+  readonly: boolean;
+  hidden: boolean;
+  note: string | null;
+}
+
+/**
+ * Group of fields in the admin app form, e.g. a detail section or an accordion
+ */
+export interface ${groupType} extends Omit<${fieldType}, "kind"> {
+  kind: "group";
+  children: ${nodeType}[];
+}
+
+export type ${nodeType} = ${fieldType} | ${groupType};
+
+/**
+ * Form layout of each collection keyed by collection name, in the admin app field order
+ */
+export const formLayouts: Record<${collectionNames}, ${nodeType}[]> = {
+${entries.join('\n')}
+};
+`;
+  }
+
+  /**
+   * Check if following the groups up from a field leads back to the field itself
+   */
+  private static isInGroupCycle(fieldName: string, parents: Map<string, string | null>): boolean {
+    const visited = new Set<string>();
+    let current = parents.get(fieldName) ?? null;
+
+    while (current !== null && !visited.has(current)) {
+      if (current === fieldName) {
+        return true;
+      }
+      visited.add(current);
+      current = parents.get(current) ?? null;
+    }
+
+    return false;
+  }
+
+  /**
+   * Render layout nodes as object literals, one field per line
+   */
+  private static renderNodes(nodes: FormLayoutNode[], indent: string): string {
+    return nodes.map(node => {
+      const { children, ...props } = node;
+      const properties = Object.entries(props).map(([key, value]) => `${key}: ${JSON.stringify(value)}`).join(', ');
+
+      if (node.kind !== 'group') {
+        return `${indent}{ ${properties} },`;
+      }
+
+      const childNodes = children && children.length > 0 ? `[\n${this.renderNodes(children, `${indent}    `)}\n${indent}  ]` : '[]';
+      return `${indent}{\n${indent}  ${properties},\n${indent}  children: ${childNodes},\n${indent}},`;
+    }).join('\n');
+  }
+
+  /**
+   * Turn a field into a layout node without children
+   */
+  private static toNode(field: DirectusField): FormLayoutNode {
+    const width = field.meta?.width as FormWidth | undefined;
+
+    return {
+      kind: FieldUtils.isGroupField(field) ? 'group' : 'field',
+      field: field.field,
+      interface: field.meta?.interface ?? null,
+      width: width && FORM_WIDTHS.includes(width) ? width : 'full',
+      required: field.meta?.required ?? false,
+      readonly: field.meta?.readonly ?? false,
+      hidden: field.meta?.hidden ?? false,
+      note: field.meta?.note ?? null,
+    };
+  }
+
+  /**
+   * Order fields by `meta.sort`, keeping the given order for ties and unsorted fields
+   */
+  private static sortFields(fields: DirectusField[]): DirectusField[] {
+    return fields
+      .map((field, index) => ({ field, index }))
+      .sort((a, b) => {
+        const sortA = a.field.meta?.sort ?? Number.MAX_SAFE_INTEGER;
+        const sortB = b.field.meta?.sort ?? Number.MAX_SAFE_INTEGER;
+        return sortA - sortB || a.index - b.index;
+      })
+      .map(({ field }) => field);
+  }
+}
@@ -1,68 +1,45 @@
 import { ImportUtils } from './import-utils';
+import { NamingUtils } from './naming-utils';
 import { GeneratedSchema } from '../types';
 
 describe('ImportUtils', () => {
-  const createMockSchema = (collectionName: string, schema?: string, type?: string): GeneratedSchema => ({
+  const createMockSchema = (collectionName: string, schema?: string, collections: string[] = [], files: boolean = false): GeneratedSchema => ({
     collectionName,
     schema,
-    type,
+    references: { collections, files },
   });
 
   describe('extractRelatedCollections', () => {
-    it('should extract related collections from schema', () => {
+    it('should extract the referenced collections', () => {
       const result = createMockSchema(
         'posts',
-        'export const DrxPostSchema = z.object({ author: DrxUserSchema.nullable().optional(), comments: z.array(DrxCommentSchema).optional() });'
+        'export const DrxPostSchema = z.object({ author: DrxUserSchema.nullable().optional(), comments: z.array(DrxCommentSchema).optional() });',
+        ['users', 'comments']
       );
 
       const relatedCollections = ImportUtils.extractRelatedCollections(result);
 
-      expect(relatedCollections).toContain('User');
-      expect(relatedCollections).toContain('Comment');
-    });
-
-    it('should extract related collections from type', () => {
-      const result = createMockSchema(
-        'posts',
-        undefined,
-        'export interface DrsPost { author: DrsUser; comments: DrsComment[]; }'
-      );
-
-      const relatedCollections = ImportUtils.extractRelatedCollections(result);
-
-      expect(relatedCollections).toContain('User');
-      expect(relatedCollections).toContain('Comment');
+      expect([...relatedCollections]).toEqual(['users', 'comments']);
     });
 
     it('should not extract self-references', () => {
       const result = createMockSchema(
         'users',
-        'export const DrxUserSchema = z.object({ posts: DrxPostSchema.nullable().optional(), parent: DrxUserSchema.nullable().optional() });'
+        'export const DrxUserSchema = z.object({ posts: DrxPostSchema.nullable().optional(), parent: DrxUserSchema.nullable().optional() });',
+        ['posts', 'users']
       );
 
       const relatedCollections = ImportUtils.extractRelatedCollections(result);
 
-      expect(relatedCollections).toContain('Post');
-      expect(relatedCollections).not.toContain('User');
+      expect(relatedCollections).toContain('posts');
+      expect(relatedCollections).not.toContain('users');
     });
 
-    it('should not extract file schema references', () => {
-      const result = createMockSchema(
-        'users',
-        'export const DrxUserSchema = z.object({ avatar: DrxFileSchema.nullable().optional(), image: DrxImageFileSchema.nullable().optional() });'
-      );
-
-      const relatedCollections = ImportUtils.extractRelatedCollections(result);
-
-      expect(relatedCollections).not.toContain('File');
-      expect(relatedCollections).not.toContain('ImageFile');
-    });
-
-    it('should handle schemas with no related collections', () => {
-      const result = createMockSchema(
-        'users',
-        'export const DrxUserSchema = z.object({ name: z.string(), email: z.string() });'
-      );
+    it('should handle results without references', () => {
+      const result: GeneratedSchema = {
+        collectionName: 'users',
+        schema: 'export const DrxUserSchema = z.object({ author: DrxAuthorSchema });',
+      };
 
       const relatedCollections = ImportUtils.extractRelatedCollections(result);
 
@@ -73,7 +50,7 @@ describe('ImportUtils', () => {
   describe('generateImportStatements', () => {
     const mockResults: GeneratedSchema[] = [
       createMockSchema('users', 'export const DrxUserSchema = z.object({ name: z.string() });'),
-      createMockSchema('posts', 'export const DrxPostSchema = z.object({ author: DrxUserSchema.nullable().optional() });'),
+      createMockSchema('posts', 'export const DrxPostSchema = z.object({ author: DrxUserSchema.nullable().optional() });', ['users']),
       createMockSchema('directus_users', 'export const DrxDirectusUserSchema = z.object({ email: z.string() });'),
       createMockSchema('directus_roles', 'export const DrxDirectusRoleSchema = z.object({ name: z.string() });'),
     ];
@@ -81,7 +58,8 @@ describe('ImportUtils', () => {
     it('should generate import statements for regular collections', () => {
       const result = createMockSchema(
         'comments',
-        'export const DrxCommentSchema = z.object({ post: DrxPostSchema.nullable().optional() });'
+        'export const DrxCommentSchema = z.object({ post: DrxPostSchema.nullable().optional() });',
+        ['posts']
       );
 
       const importStatements = ImportUtils.generateImportStatements(result, mockResults, [], false);
@@ -92,7 +70,8 @@ describe('ImportUtils', () => {
     it('should generate import statements for system collections', () => {
       const result = createMockSchema(
         'directus_policies',
-        'export const DrxDirectusPolicySchema = z.object({ role: DrxDirectusRoleSchema.nullable().optional() });'
+        'export const DrxDirectusPolicySchema = z.object({ role: DrxDirectusRoleSchema.nullable().optional() });',
+        ['directus_roles']
       );
 
       const importStatements = ImportUtils.generateImportStatements(result, mockResults, [], true);
@@ -103,7 +82,8 @@ describe('ImportUtils', () => {
     it('should generate cross-folder import statements', () => {
       const result = createMockSchema(
         'posts',
-        'export const DrxPostSchema = z.object({ author: DrxDirectusUserSchema.nullable().optional() });'
+        'export const DrxPostSchema = z.object({ author: DrxDirectusUserSchema.nullable().optional() });',
+        ['directus_users']
       );
 
       const importStatements = ImportUtils.generateImportStatements(result, mockResults, [], false);
@@ -114,7 +94,8 @@ describe('ImportUtils', () => {
     it('should generate parent folder import statements', () => {
       const result = createMockSchema(
         'directus_users',
-        'export const DrxDirectusUserSchema = z.object({ posts: DrxPostSchema.nullable().optional() });'
+        'export const DrxDirectusUserSchema = z.object({ posts: DrxPostSchema.nullable().optional() });',
+        ['posts']
       );
 
       const importStatements = ImportUtils.generateImportStatements(result, mockResults, [], true);
@@ -123,10 +104,11 @@ describe('ImportUtils', () => {
     });
 
     it('should handle circular dependencies', () => {
-      const circularDeps = [['User', 'Post', 'User']];
+      const circularDeps = [['users', 'posts', 'users']];
       const result = createMockSchema(
         'users',
-        'export const DrxUserSchema = z.object({ posts: DrxPostSchema.nullable().optional() });'
+        'export const DrxUserSchema = z.object({ posts: DrxPostSchema.nullable().optional() });',
+        ['posts']
       );
 
       const importStatements = ImportUtils.generateImportStatements(result, mockResults, circularDeps, false);
@@ -134,16 +116,29 @@ describe('ImportUtils', () => {
       expect(importStatements).toContain("import { DrxPostSchema, type DrsPost } from './posts'");
     });
 
-    it('should avoid duplicate imports', () => {
-      const result = createMockSchema(
-        'posts',
-        'export const DrxPostSchema = z.object({ author: DrxUserSchema.nullable().optional(), creator: DrxUserSchema.nullable().optional() });'
-      );
+    it('should skip collections that were not generated', () => {
+      const result = createMockSchema('comments', 'export const DrxCommentSchema = z.object({});', ['tags']);
 
       const importStatements = ImportUtils.generateImportStatements(result, mockResults, [], false);
 
-      const userImportCount = (importStatements.match(/DrxUserSchema/g) || []).length;
-      expect(userImportCount).toBe(1);
+      expect(importStatements).toBe('');
+    });
+
+    it('should use the names of the naming strategy', () => {
+      const result = createMockSchema('comments', 'export const CommentModel = z.object({ post: BlogPostModel });', ['posts']);
+      const naming = new NamingUtils({ schemaPrefix: '', schemaSuffix: 'Model', typePrefix: 'I', overrides: { posts: 'BlogPost' } });
+
+      const importStatements = ImportUtils.generateImportStatements(result, mockResults, [], false, naming);
+
+      expect(importStatements).toBe("import { BlogPostModel, type IBlogPost } from './posts';\n");
+    });
+
+    it('should import the plural names when singularization is turned off', () => {
+      const result = createMockSchema('comments', 'export const DrxCommentsSchema = z.object({ post: DrxPostsSchema });', ['posts']);
+
+      const importStatements = ImportUtils.generateImportStatements(result, mockResults, [], false, new NamingUtils({ singularize: false }));
+
+      expect(importStatements).toBe("import { DrxPostsSchema, type DrsPosts } from './posts';\n");
     });
   });
 
@@ -151,7 +146,9 @@ describe('ImportUtils', () => {
     it('should generate file schema import when needed', () => {
       const result = createMockSchema(
         'users',
-        'export const DrxUserSchema = z.object({ avatar: DrxFileSchema.nullable().optional() });'
+        'export const DrxUserSchema = z.object({ avatar: DrxFileSchema.nullable().optional() });',
+        [],
+        true
       );
 
       const importStatement = ImportUtils.generateFileSchemaImport(result, false);
@@ -161,7 +158,9 @@ describe('ImportUtils', () => {
     it('should generate file schema import for system collections', () => {
       const result = createMockSchema(
         'directus_users',
-        'export const DrxDirectusUserSchema = z.object({ avatar: DrxFileSchema.nullable().optional() });'
+        'export const DrxDirectusUserSchema = z.object({ avatar: DrxFileSchema.nullable().optional() });',
+        [],
+        true
       );
 
       const importStatement = ImportUtils.generateFileSchemaImport(result, true);
@@ -179,6 +178,14 @@ describe('ImportUtils', () => {
     });
   });
 
+  describe('generateFileSchemaImportStatement', () => {
+    it('should import only the file types when asked to', () => {
+      const naming = new NamingUtils({ typePrefix: 'I' });
+
+      expect(ImportUtils.generateFileSchemaImportStatement('./file-schemas', naming, true)).toBe("import type { IFile, IImageFile } from './file-schemas';\n");
+    });
+  });
+
   describe('generateZodImport', () => {
     it('should generate zod import when schema exists', () => {
       const result = createMockSchema('users', 'export const DrxUserSchema = z.object({ name: z.string() });');
@@ -7,3 +7,14 @@ export { FileSchemaUtils } from './file-schema-utils';
 export { CollectionUtils } from './collection-utils';
 export { ImportUtils } from './import-utils';
 export { FileWriterUtils } from './file-writer-utils';
+export { DiffUtils } from './diff-utils';
+export { SchemaDiffUtils } from './schema-diff-utils';
+export { WatchUtils } from './watch-utils';
+export { ConfigUtils, CONFIG_FILE_NAMES, defineConfig } from './config-utils';
+export { ValidationUtils } from './validation-utils';
+export { ConstraintUtils } from './constraint-utils';
+export { DefaultValueUtils } from './default-value-utils';
+export { PrimaryKeyUtils } from './primary-key-utils';
+export { NamingUtils } from './naming-utils';
+export { PermissionUtils, RolePermissions } from './permission-utils';
+export { FormLayoutUtils } from './form-layout-utils';
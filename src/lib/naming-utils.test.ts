@@ -0,0 +1,85 @@
+import { NamingUtils } from './naming-utils';
+
+describe('NamingUtils', () => {
+  describe('with the default strategy', () => {
+    const naming = new NamingUtils();
+
+    it('should name schemas and types after the singular collection name', () => {
+      expect(naming.getSchemaName('blog_posts')).toBe('DrxBlogPostSchema');
+      expect(naming.getTypeName('blog_posts')).toBe('DrsBlogPost');
+      expect(naming.getSchemaName('directus_users')).toBe('DrxDirectusUserSchema');
+    });
+
+    it('should add the variant between the base name and the suffix', () => {
+      expect(naming.getSchemaName('articles', 'create')).toBe('DrxArticleCreateSchema');
+      expect(naming.getSchemaName('articles', 'update')).toBe('DrxArticleUpdateSchema');
+      expect(naming.getSchemaName('articles', 'get')).toBe('DrxArticleGetSchema');
+      expect(naming.getSchemaName('articles', 'filter')).toBe('DrxArticleFilterSchema');
+      expect(naming.getTypeName('articles', 'query')).toBe('DrsArticleQuery');
+    });
+
+    it('should end role variants in the role name', () => {
+      expect(naming.getSchemaName('articles', undefined, 'Editor')).toBe('DrxArticleSchema_Editor');
+      expect(naming.getSchemaName('articles', 'create', 'Public')).toBe('DrxArticleCreateSchema_Public');
+      expect(naming.getTypeName('articles', 'update', 'content editor')).toBe('DrsArticleUpdate_ContentEditor');
+    });
+
+    it('should name shared schemas and types', () => {
+      expect(naming.getSharedSchemaName('ImageFile')).toBe('DrxImageFileSchema');
+      expect(naming.getSharedTypeName('StringFilter')).toBe('DrsStringFilter');
+    });
+  });
+
+  describe('with a custom strategy', () => {
+    it('should use the configured prefixes and suffixes', () => {
+      const naming = new NamingUtils({
+        schemaPrefix: '',
+        schemaSuffix: 'Validator',
+        typePrefix: 'I',
+        createSuffix: 'Input',
+        updateSuffix: 'Patch',
+        getSuffix: 'Output',
+      });
+
+      expect(naming.getSchemaName('articles')).toBe('ArticleValidator');
+      expect(naming.getSchemaName('articles', 'create')).toBe('ArticleInputValidator');
+      expect(naming.getTypeName('articles', 'update')).toBe('IArticlePatch');
+      expect(naming.getTypeName('articles', 'get')).toBe('IArticleOutput');
+      expect(naming.getSharedSchemaName('File')).toBe('FileValidator');
+      expect(naming.getSharedTypeName('File')).toBe('IFile');
+    });
+
+    it('should use the casing function for the base name', () => {
+      const naming = new NamingUtils({ casing: collection => collection.toUpperCase() });
+
+      expect(naming.getSchemaName('news')).toBe('DrxNEWSSchema');
+      expect(naming.getTypeName('news', 'filter')).toBe('DrsNEWSFilter');
+    });
+
+    it('should prefer per-collection overrides over the casing function', () => {
+      const naming = new NamingUtils({
+        casing: collection => collection.toUpperCase(),
+        overrides: { news: 'NewsItem', directus_users: 'User' },
+      });
+
+      expect(naming.getBaseName('news')).toBe('NewsItem');
+      expect(naming.getTypeName('directus_users')).toBe('DrsUser');
+      expect(naming.getBaseName('articles')).toBe('ARTICLES');
+    });
+
+    it('should use the irregular plurals when singularizing', () => {
+      const naming = new NamingUtils({ irregularPlurals: { kunden: 'kunde' } });
+
+      expect(naming.getSchemaName('shop_kunden')).toBe('DrxShopKundeSchema');
+      expect(naming.getTypeName('articles')).toBe('DrsArticle');
+    });
+
+    it('should keep collection names plural when singularization is turned off', () => {
+      const naming = new NamingUtils({ singularize: false, overrides: { people: 'Person' } });
+
+      expect(naming.getSchemaName('blog_posts')).toBe('DrxBlogPostsSchema');
+      expect(naming.getTypeName('directus_users', 'create')).toBe('DrsDirectusUsersCreate');
+      expect(naming.getTypeName('people')).toBe('DrsPerson');
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { NamingStrategy } from '../types';
+import { StringUtils } from './string-utils';
+
+/**
+ * Variants of a collection's schemas and types, e.g. `DrxArticleCreateSchema` or `DrsArticleFilter`
+ */
+export type NameVariant = 'create' | 'update' | 'get' | 'filter' | 'sort' | 'deep' | 'query';
+
+/**
+ * Builds every generated identifier from the naming strategy in the config
+ */
+export class NamingUtils {
+  private strategy: NamingStrategy;
+
+  constructor(strategy: NamingStrategy = {}) {
+    this.strategy = strategy;
+  }
+
+  /**
+   * Get the base of a collection's identifiers, e.g. `BlogPost` for `blog_posts`
+   */
+  getBaseName(collection: string): string {
+    const override = this.strategy.overrides?.[collection];
+    if (override) {
+      return override;
+    }
+
+    if (this.strategy.casing) {
+      return this.strategy.casing(collection);
+    }
+
+    const baseName = StringUtils.toPascalCase(collection);
+    return this.strategy.singularize === false ? baseName : StringUtils.toSingular(baseName, this.strategy.irregularPlurals);
+  }
+
+  /**
+   * Get the name of a collection's schema, e.g. `DrxBlogPostSchema` or `DrxBlogPostCreateSchema`.
+   * Role variants end in the role name, e.g. `DrxBlogPostCreateSchema_Editor`.
+   */
+  getSchemaName(collection: string, variant?: NameVariant, role?: string): string {
+    return `${this.getSharedSchemaName(`${this.getBaseName(collection)}${this.getVariantSuffix(variant)}`)}${this.getRoleSuffix(role)}`;
+  }
+
+  /**
+   * Get the name of a collection's type, e.g. `DrsBlogPost` or `DrsBlogPostCreate`.
+   * Role variants end in the role name, e.g. `DrsBlogPost_Editor`.
+   */
+  getTypeName(collection: string, variant?: NameVariant, role?: string): string {
+    return `${this.getSharedTypeName(`${this.getBaseName(collection)}${this.getVariantSuffix(variant)}`)}${this.getRoleSuffix(role)}`;
+  }
+
+  /**
+   * Get the name of a schema that doesn't belong to a collection, e.g. `DrxFileSchema` for `File`
+   */
+  getSharedSchemaName(name: string): string {
+    return `${this.strategy.schemaPrefix ?? 'Drx'}${name}${this.strategy.schemaSuffix ?? 'Schema'}`;
+  }
+
+  /**
+   * Get the name of a type that doesn't belong to a collection, e.g. `DrsFile` for `File`
+   */
+  getSharedTypeName(name: string): string {
+    return `${this.strategy.typePrefix ?? 'Drs'}${name}`;
+  }
+
+  /**
+   * Get the suffix of a role variant, e.g. `_ContentEditor` for `Content Editor`
+   */
+  private getRoleSuffix(role?: string): string {
+    if (!role) {
+      return '';
+    }
+
+    return `_${role
+      .split(/[^A-Za-z0-9]+/)
+      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+      .join('')}`;
+  }
+
+  /**
+   * Get the suffix that goes between the base name and the schema suffix
+   */
+  private getVariantSuffix(variant?: NameVariant): string {
+    switch (variant) {
+      case 'create':
+        return this.strategy.createSuffix ?? 'Create';
+      case 'update':
+        return this.strategy.updateSuffix ?? 'Update';
+      case 'get':
+        return this.strategy.getSuffix ?? 'Get';
+      case 'filter':
+        return 'Filter';
+      case 'sort':
+        return 'Sort';
+      case 'deep':
+        return 'Deep';
+      case 'query':
+        return 'Query';
+      default:
+        return '';
+    }
+  }
+}
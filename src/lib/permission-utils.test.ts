@@ -0,0 +1,83 @@
+import { PermissionUtils } from './permission-utils';
+import { DirectusAccess, DirectusPermission, DirectusRole } from '../types';
+
+describe('PermissionUtils', () => {
+  const roles: DirectusRole[] = [
+    { id: 'role-editor', name: 'Editor' },
+    { id: 'role-admin', name: 'Administrator', admin_access: true },
+    { id: 'role-author', name: 'Author', policies: [{ policy: 'policy-author' }] },
+  ];
+
+  const permissions: DirectusPermission[] = [
+    { role: 'role-editor', collection: 'articles', action: 'read', fields: ['*'] },
+    { role: 'role-editor', collection: 'articles', action: 'update', fields: ['title', 'body'] },
+    { role: 'role-editor', collection: 'articles', action: 'update', fields: ['status'] },
+    { role: null, collection: 'articles', action: 'read', fields: ['id', 'title'] },
+    { policy: 'policy-author', collection: 'articles', action: 'create', fields: ['title'] },
+    { policy: 'policy-other', collection: 'articles', action: 'delete', fields: null },
+  ];
+
+  describe('resolveRoles', () => {
+    it('should match roles by name and collect their permissions', () => {
+      const resolved = PermissionUtils.resolveRoles(['editor', 'Author'], roles, permissions);
+
+      expect(resolved.map(r => r.role)).toEqual(['editor', 'Author']);
+      expect(resolved[0].permissions).toHaveLength(3);
+      expect(resolved[1].permissions).toEqual([permissions[4]]);
+    });
+
+    it('should resolve Public to the permissions without a role', () => {
+      const [publicRole] = PermissionUtils.resolveRoles(['Public'], roles, permissions);
+
+      expect(publicRole.permissions).toEqual([permissions[3]]);
+    });
+
+    it('should resolve Public to the policies attached to no role or user on Directus 11', () => {
+      const policyPermissions: DirectusPermission[] = [
+        { policy: 'policy-public', collection: 'articles', action: 'read', fields: ['id', 'title'] },
+        { policy: 'policy-author', collection: 'articles', action: 'read', fields: ['*'] },
+      ];
+      const access: DirectusAccess[] = [
+        { role: null, user: null, policy: 'policy-public' },
+        { role: 'role-author', user: null, policy: 'policy-author' },
+        { role: null, user: 'user-1', policy: 'policy-author' },
+      ];
+
+      const [publicRole] = PermissionUtils.resolveRoles(['Public'], roles, policyPermissions, access);
+
+      expect(publicRole.permissions).toEqual([policyPermissions[0]]);
+    });
+
+    it('should throw for unknown roles and list the available ones', () => {
+      expect(() => PermissionUtils.resolveRoles(['Editor', 'Reviewer'], roles, permissions)).toThrow(
+        'Role Reviewer not found. Available roles: Editor, Administrator, Author, Public'
+      );
+    });
+  });
+
+  describe('getCollectionAccess', () => {
+    it('should merge the fields of each action and leave out missing actions', () => {
+      const resolved = PermissionUtils.resolveRoles(['Editor', 'Public'], roles, permissions);
+
+      expect(PermissionUtils.getCollectionAccess('articles', resolved)).toEqual([
+        { role: 'Editor', read: ['*'], create: undefined, update: ['title', 'body', 'status'] },
+        { role: 'Public', read: ['id', 'title'], create: undefined, update: undefined },
+      ]);
+    });
+
+    it('should give admin roles every field and skip roles without permissions', () => {
+      const resolved = PermissionUtils.resolveRoles(['Administrator', 'Editor'], roles, permissions);
+
+      expect(PermissionUtils.getCollectionAccess('authors', resolved)).toEqual([
+        { role: 'Administrator', read: ['*'], create: ['*'], update: ['*'] },
+      ]);
+    });
+  });
+
+  describe('getAllowedFields', () => {
+    it('should keep the allowed fields in collection order', () => {
+      expect(PermissionUtils.getAllowedFields(['body', 'id', 'unknown'], ['id', 'title', 'body'])).toEqual(['id', 'body']);
+      expect(PermissionUtils.getAllowedFields(['*'], ['id', 'title'])).toEqual(['id', 'title']);
+    });
+  });
+});
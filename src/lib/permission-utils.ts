@@ -0,0 +1,115 @@
+import { CollectionAccess, DirectusAccess, DirectusPermission, DirectusRole } from '../types';
+
+/**
+ * Permissions of one role, resolved from /roles and /permissions
+ */
+export interface RolePermissions {
+  /** Role name as given in the `roles` option */
+  role: string;
+  /** Admin roles may access every field of every collection */
+  admin: boolean;
+  permissions: DirectusPermission[];
+}
+
+/**
+ * Utilities for turning Directus permissions into per-role field lists
+ */
+export class PermissionUtils {
+  /**
+   * Name of the role that stands for unauthenticated requests
+   */
+  static readonly PUBLIC_ROLE = 'Public';
+
+  /**
+   * Find the permissions of each named role. Roles are matched by name, case-insensitively;
+   * `Public` matches the public role unless a role of that name exists. Public permissions
+   * have no role on Directus 10 and belong to the policies in `access` that are attached
+   * to neither a role nor a user on Directus 11. Throws for role names that match no role.
+   */
+  static resolveRoles(roleNames: string[], roles: DirectusRole[], permissions: DirectusPermission[], access: DirectusAccess[] = []): RolePermissions[] {
+    const resolved: RolePermissions[] = [];
+
+    for (const roleName of roleNames) {
+      const role = roles.find(r => r.name.toLowerCase() === roleName.toLowerCase());
+
+      if (role) {
+        const policies = this.getPolicyIds(role);
+        resolved.push({
+          role: roleName,
+          admin: role.admin_access === true,
+          permissions: permissions.filter(p => p.role === role.id || (!!p.policy && policies.includes(p.policy))),
+        });
+      } else if (roleName.toLowerCase() === this.PUBLIC_ROLE.toLowerCase()) {
+        const publicPolicies = access.filter(a => !a.role && !a.user).map(a => a.policy);
+        resolved.push({
+          role: roleName,
+          admin: false,
+          permissions: permissions.filter(p => (p.policy ? publicPolicies.includes(p.policy) : !p.role)),
+        });
+      } else {
+        const available = [...new Set([...roles.map(r => r.name), this.PUBLIC_ROLE])].join(', ');
+        throw new Error(`Role ${roleName} not found. Available roles: ${available}`);
+      }
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Get the fields each role may read, create and update in a collection.
+   * Roles without any permission on the collection are left out.
+   */
+  static getCollectionAccess(collection: string, rolePermissions: RolePermissions[]): CollectionAccess[] {
+    const access: CollectionAccess[] = [];
+
+    for (const { role, admin, permissions } of rolePermissions) {
+      if (admin) {
+        access.push({ role, read: ['*'], create: ['*'], update: ['*'] });
+        continue;
+      }
+
+      const collectionPermissions = permissions.filter(p => p.collection === collection);
+      if (collectionPermissions.length === 0) {
+        continue;
+      }
+
+      access.push({
+        role,
+        read: this.getActionFields(collectionPermissions, 'read'),
+        create: this.getActionFields(collectionPermissions, 'create'),
+        update: this.getActionFields(collectionPermissions, 'update'),
+      });
+    }
+
+    return access;
+  }
+
+  /**
+   * Narrow a collection's fields down to the allowed ones, keeping their order
+   */
+  static getAllowedFields(allowed: string[], fields: string[]): string[] {
+    return allowed.includes('*') ? fields : fields.filter(field => allowed.includes(field));
+  }
+
+  /**
+   * Merge the fields of every permission for an action. Returns undefined when there is none.
+   */
+  private static getActionFields(permissions: DirectusPermission[], action: DirectusPermission['action']): string[] | undefined {
+    const actionPermissions = permissions.filter(p => p.action === action);
+    if (actionPermissions.length === 0) {
+      return undefined;
+    }
+
+    const fields = new Set(actionPermissions.flatMap(p => p.fields || []));
+    return fields.has('*') ? ['*'] : [...fields];
+  }
+
+  /**
+   * Get the ids of the policies attached to a role (Directus 11)
+   */
+  private static getPolicyIds(role: DirectusRole): string[] {
+    return (role.policies || [])
+      .map(policy => (typeof policy === 'string' ? policy : policy.policy))
+      .filter((policy): policy is string => !!policy);
+  }
+}
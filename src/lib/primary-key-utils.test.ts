@@ -0,0 +1,61 @@
+import { PrimaryKeyUtils } from './primary-key-utils';
+import { DirectusField } from '../types';
+
+describe('PrimaryKeyUtils', () => {
+  const createField = (collection: string, field: string, type: string, dataType: string, isPrimaryKey: boolean): DirectusField => ({
+    collection,
+    field,
+    type,
+    schema: {
+      name: field,
+      table: collection,
+      data_type: dataType,
+      is_nullable: !isPrimaryKey,
+      is_unique: isPrimaryKey,
+      is_primary_key: isPrimaryKey,
+      has_auto_increment: isPrimaryKey && type === 'integer',
+    },
+  });
+
+  describe('getPrimaryKeyFields', () => {
+    it('should map each collection to its primary key field', () => {
+      const fields = [
+        createField('articles', 'id', 'integer', 'integer', true),
+        createField('articles', 'title', 'string', 'character varying', false),
+        createField('authors', 'uuid', 'uuid', 'uuid', true),
+      ];
+
+      const primaryKeys = PrimaryKeyUtils.getPrimaryKeyFields(fields);
+
+      expect([...primaryKeys.keys()]).toEqual(['articles', 'authors']);
+      expect(primaryKeys.get('authors')?.field).toBe('uuid');
+    });
+
+    it('should skip fields without schema information', () => {
+      const field: DirectusField = { collection: 'articles', field: 'comments', type: 'alias' };
+
+      expect(PrimaryKeyUtils.getPrimaryKeyFields([field]).size).toBe(0);
+    });
+  });
+
+  describe('getZodType', () => {
+    it('should map key columns to Zod types', () => {
+      expect(PrimaryKeyUtils.getZodType(createField('a', 'id', 'uuid', 'uuid', true))).toBe('z.string().uuid()');
+      expect(PrimaryKeyUtils.getZodType(createField('a', 'id', 'integer', 'integer', true))).toBe('z.number().int()');
+      expect(PrimaryKeyUtils.getZodType(createField('a', 'id', 'bigInteger', 'bigint', true))).toBe('z.number().int()');
+      expect(PrimaryKeyUtils.getZodType(createField('a', 'id', 'string', 'character varying', true))).toBe('z.string()');
+    });
+
+    it('should allow strings and numbers for unknown keys', () => {
+      expect(PrimaryKeyUtils.getZodType(undefined)).toBe('z.union([z.string(), z.number()])');
+    });
+  });
+
+  describe('getTypeScriptType', () => {
+    it('should map key columns to TypeScript types', () => {
+      expect(PrimaryKeyUtils.getTypeScriptType(createField('a', 'id', 'uuid', 'uuid', true))).toBe('string');
+      expect(PrimaryKeyUtils.getTypeScriptType(createField('a', 'id', 'integer', 'int', true))).toBe('number');
+      expect(PrimaryKeyUtils.getTypeScriptType(undefined)).toBe('string | number');
+    });
+  });
+});
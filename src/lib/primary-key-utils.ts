@@ -0,0 +1,74 @@
+import { DirectusField } from '../types';
+
+/**
+ * Utilities for the primary keys that unexpanded relation fields contain
+ */
+export class PrimaryKeyUtils {
+  /**
+   * Map each collection to its primary key field
+   */
+  static getPrimaryKeyFields(fields: DirectusField[]): Map<string, DirectusField> {
+    const primaryKeys = new Map<string, DirectusField>();
+
+    for (const field of fields) {
+      const collection = field.collection || field.meta?.collection;
+      if (collection && field.schema?.is_primary_key && !primaryKeys.has(collection)) {
+        primaryKeys.set(collection, field);
+      }
+    }
+
+    return primaryKeys;
+  }
+
+  /**
+   * Get the Zod type of a key column. Unknown keys may be strings or numbers.
+   */
+  static getZodType(field?: DirectusField): string {
+    switch (this.getKind(field)) {
+      case 'uuid':
+        return 'z.string().uuid()';
+      case 'integer':
+        return 'z.number().int()';
+      case 'string':
+        return 'z.string()';
+      default:
+        return 'z.union([z.string(), z.number()])';
+    }
+  }
+
+  /**
+   * Get the TypeScript type of a key column. Unknown keys may be strings or numbers.
+   */
+  static getTypeScriptType(field?: DirectusField): string {
+    switch (this.getKind(field)) {
+      case 'uuid':
+      case 'string':
+        return 'string';
+      case 'integer':
+        return 'number';
+      default:
+        return 'string | number';
+    }
+  }
+
+  /**
+   * Classify a key column by its database type, falling back to the Directus type
+   */
+  private static getKind(field?: DirectusField): 'uuid' | 'integer' | 'string' | undefined {
+    if (!field) {
+      return undefined;
+    }
+
+    const dataType = (field.schema?.data_type || field.type || '').toLowerCase();
+
+    if (dataType === 'uuid') {
+      return 'uuid';
+    }
+
+    if (['integer', 'int', 'biginteger', 'bigint', 'smallint', 'tinyint', 'mediumint'].includes(dataType)) {
+      return 'integer';
+    }
+
+    return dataType ? 'string' : undefined;
+  }
+}
@@ -1,5 +1,5 @@
 import { RelationshipUtils } from './relationship-utils';
-import { DirectusField } from '../types';
+import { DirectusField, DirectusRelation } from '../types';
 
 describe('RelationshipUtils', () => {
   let relationshipUtils: RelationshipUtils;
@@ -35,35 +35,38 @@ describe('RelationshipUtils', () => {
     },
   });
 
-  const mockRelationships = [
-    {
-      one_collection: 'users',
-      one_field: 'roles',
-      many_collection: 'roles',
-      many_field: 'users',
-      junction_collection: 'user_roles',
-    },
-    {
-      one_collection: 'answers',
-      one_field: 'enables',
-      many_collection: 'enablers',
-      many_field: 'answers',
-      junction_collection: 'answer_enabler',
-    },
-    {
-      one_collection: 'answers',
-      one_field: 'disables',
-      many_collection: 'enablers',
-      many_field: 'answers',
-      junction_collection: 'answer_enabler',
-    },
-    {
-      one_collection: 'audit_sessions',
-      one_field: 'activity_logs',
-      many_collection: 'audit_activity_logs',
-      many_field: 'session_id',
-      junction_collection: null,
+  const createRelation = (
+    collection: string,
+    field: string,
+    relatedCollection: string,
+    oneField: string | null,
+    junctionField: string | null = null
+  ): DirectusRelation => ({
+    collection,
+    field,
+    related_collection: relatedCollection,
+    meta: {
+      many_collection: collection,
+      many_field: field,
+      one_collection: relatedCollection,
+      one_field: oneField,
+      one_collection_field: null,
+      one_allowed_collections: null,
+      junction_field: junctionField,
+      sort_field: null,
     },
+  });
+
+  // users.roles <-> roles.users through user_roles, answers.enables and answers.disables
+  // through their own junctions, and audit_sessions.activity_logs as an O2M
+  const mockRelationships: DirectusRelation[] = [
+    createRelation('user_roles', 'users_id', 'users', 'roles', 'roles_id'),
+    createRelation('user_roles', 'roles_id', 'roles', 'users', 'users_id'),
+    createRelation('answers_enables', 'answers_id', 'answers', 'enables', 'enablers_id'),
+    createRelation('answers_enables', 'enablers_id', 'enablers', null, 'answers_id'),
+    createRelation('answers_disables', 'answers_id', 'answers', 'disables', 'enablers_id'),
+    createRelation('answers_disables', 'enablers_id', 'enablers', null, 'answers_id'),
+    createRelation('audit_activity_logs', 'session_id', 'audit_sessions', 'activity_logs'),
   ];
 
   beforeEach(() => {
@@ -114,112 +117,67 @@ describe('RelationshipUtils', () => {
         relationshipUtils.setRelationships(mockRelationships);
       });
 
-      it('should return junction table from options', () => {
-        const field = createMockField('roles', 'json', ['m2m'], { junction_table: 'user_roles' });
-        field.meta!.collection = 'users';
-        const result = relationshipUtils.getRelatedCollectionName(field);
-        expect(result).toBe('user_roles');
-      });
-
-      it('should return related collection from options', () => {
-        const field = createMockField('roles', 'json', ['m2m'], { related_collection: 'roles' });
-        field.meta!.collection = 'users';
-        const result = relationshipUtils.getRelatedCollectionName(field);
-        expect(result).toBe('roles');
-      });
-
-      it('should return junction collection from options', () => {
-        const field = createMockField('roles', 'json', ['m2m'], { junction_collection: 'user_roles' });
-        field.meta!.collection = 'users';
-        const result = relationshipUtils.getRelatedCollectionName(field);
-        expect(result).toBe('user_roles');
-      });
-
-      it('should return collection from options', () => {
-        const field = createMockField('roles', 'json', ['m2m'], { collection: 'roles' });
+      it('should return the collection on the other side of the junction', () => {
+        const field = createMockField('roles', 'alias', ['m2m'], {});
         field.meta!.collection = 'users';
         const result = relationshipUtils.getRelatedCollectionName(field);
         expect(result).toBe('roles');
       });
 
-      it('should return many_collection from options', () => {
-        const field = createMockField('roles', 'json', ['m2m'], { many_collection: 'roles' });
-        field.meta!.collection = 'users';
-        const result = relationshipUtils.getRelatedCollectionName(field);
-        expect(result).toBe('roles');
-      });
-
-      it('should return one_collection from options', () => {
-        const field = createMockField('roles', 'json', ['m2m'], { one_collection: 'roles' });
-        field.meta!.collection = 'users';
-        const result = relationshipUtils.getRelatedCollectionName(field);
-        expect(result).toBe('roles');
-      });
-
-      it('should find M2M relation from relationships data (one side)', () => {
-        const field = createMockField('roles', 'json', ['m2m'], {});
-        field.meta!.collection = 'users';
-        const result = relationshipUtils.getRelatedCollectionName(field);
-        expect(result).toBe('roles');
-      });
-
-      it('should find M2M relation from relationships data (many side)', () => {
-        const field = createMockField('users', 'json', ['m2m'], {});
+      it('should resolve the reverse side of the same junction', () => {
+        const field = createMockField('users', 'alias', ['m2m'], {});
         field.meta!.collection = 'roles';
         const result = relationshipUtils.getRelatedCollectionName(field);
         expect(result).toBe('users');
       });
 
-      it('should find junction table relationship', () => {
-        const field = createMockField('answer_id', 'uuid', ['m2m'], {});
-        field.meta!.collection = 'answer_enabler';
-        const result = relationshipUtils.getRelatedCollectionName(field);
-        // The junction collection 'answer_enabler' matches the collection name,
-        // one_collection is 'answers' (different from collection name 'answer_enabler'),
-        // so it should return one_collection which is 'answers'
-        expect(result).toBe('answers');
+      it('should resolve several M2M fields to the same collection through different junctions', () => {
+        const enables = createMockField('enables', 'alias', ['m2m'], {});
+        enables.meta!.collection = 'answers';
+        const disables = createMockField('disables', 'alias', ['m2m'], {});
+        disables.meta!.collection = 'answers';
+
+        expect(relationshipUtils.getRelatedCollectionName(enables)).toBe('enablers');
+        expect(relationshipUtils.getRelatedCollectionName(disables)).toBe('enablers');
       });
 
-      it('should infer from junction table name in options', () => {
-        const field = createMockField('roles', 'json', ['m2m'], { junction_table: 'user_roles' });
-        field.meta!.collection = 'users';
+      it('should not guess the related collection from the junction name', () => {
+        const field = createMockField('roles', 'alias', ['m2m'], { junction_table: 'user_roles' });
+        field.meta!.collection = 'customers';
         const result = relationshipUtils.getRelatedCollectionName(field);
-        expect(result).toBe('user_roles');
+        expect(result).toBeNull();
       });
 
-      it('should return null for M2M fields when no relationships are loaded and no options', () => {
-        // Create a new instance without relationships to test M2M behavior
+      it('should return null for M2M fields when no relationships are loaded', () => {
         const utilsWithoutRelationships = new RelationshipUtils([]);
-        const field = createMockField('user_id', 'uuid', ['m2m'], {});
-        field.meta!.collection = 'some_other_junction';
+        const field = createMockField('roles', 'alias', ['m2m'], {});
+        field.meta!.collection = 'users';
         const result = utilsWithoutRelationships.getRelatedCollectionName(field);
-        // M2M fields without relationships and options should return null
-        expect(result).toBeNull();
-      });
-
-      it('should return null when no relationship is found', () => {
-        const field = createMockField('unknown', 'json', ['m2m'], {});
-        field.meta!.collection = 'test_collection';
-        const result = relationshipUtils.getRelatedCollectionName(field);
         expect(result).toBeNull();
       });
     });
 
     describe('O2M relations', () => {
-      it('should return related collection from options', () => {
-        const field = createMockField('activity_logs', 'json', ['o2m'], { related_collection: 'audit_activity_logs' });
+      beforeEach(() => {
+        relationshipUtils.setRelationships(mockRelationships);
+      });
+
+      it('should return the collection holding the foreign key', () => {
+        const field = createMockField('activity_logs', 'alias', ['o2m'], {});
+        field.meta!.collection = 'audit_sessions';
         const result = relationshipUtils.getRelatedCollectionName(field);
         expect(result).toBe('audit_activity_logs');
       });
 
-      it('should handle specific O2M pattern for activity_logs', () => {
-        const field = createMockField('activity_logs', 'json', ['o2m'], {});
+      it('should not treat the parent side of a junction as an O2M', () => {
+        const field = createMockField('roles', 'alias', ['o2m'], {});
+        field.meta!.collection = 'users';
         const result = relationshipUtils.getRelatedCollectionName(field);
-        expect(result).toBe('audit_activity_logs');
+        expect(result).toBeNull();
       });
 
       it('should return null for unknown O2M fields', () => {
-        const field = createMockField('unknown_field', 'json', ['o2m'], {});
+        const field = createMockField('unknown_field', 'alias', ['o2m'], {});
         const result = relationshipUtils.getRelatedCollectionName(field);
         expect(result).toBeNull();
       });
@@ -263,61 +221,100 @@ describe('RelationshipUtils', () => {
         const result = relationshipUtils.getRelatedCollectionName(field);
         expect(result).toBeNull();
       });
+    });
+  });
 
-      it('should handle junction table name without underscores', () => {
-        const field = createMockField('roles', 'json', ['m2m'], { junction_table: 'userroles' });
-        field.meta!.collection = 'users';
-        const result = relationshipUtils.getRelatedCollectionName(field);
-        expect(result).toBe('userroles');
-      });
+  describe('getManyToManyRelation', () => {
+    it('should resolve the junction, junction field and related collection', () => {
+      relationshipUtils.setRelationships(mockRelationships);
+      const field = createMockField('roles', 'alias', ['m2m']);
+      field.meta!.collection = 'users';
 
-      it('should return null for M2M fields with no relationships and no options (field name inference unreachable)', () => {
-        // Create a new instance without relationships to test M2M behavior
-        const utilsWithoutRelationships = new RelationshipUtils([]);
-        const field = createMockField('user_id', 'uuid', ['m2m'], {}); // M2M field
-        field.meta!.collection = 'junction_table';
-        const result = utilsWithoutRelationships.getRelatedCollectionName(field);
-        // The field name inference logic appears to be unreachable in current implementation
-        expect(result).toBeNull();
+      expect(relationshipUtils.getManyToManyRelation(field)).toEqual({
+        junctionCollection: 'user_roles',
+        junctionField: 'roles_id',
+        relatedCollection: 'roles',
       });
     });
 
-    describe('Complex M2M scenarios', () => {
-      beforeEach(() => {
-        relationshipUtils.setRelationships(mockRelationships);
-      });
+    it('should return null for O2M fields', () => {
+      relationshipUtils.setRelationships(mockRelationships);
+      const field = createMockField('activity_logs', 'alias', ['o2m']);
+      field.meta!.collection = 'audit_sessions';
 
-      it('should handle enables field correctly', () => {
-        const field = createMockField('enables', 'json', ['m2m'], {});
-        field.meta!.collection = 'answers';
-        const result = relationshipUtils.getRelatedCollectionName(field);
-        expect(result).toBe('enablers');
-      });
+      expect(relationshipUtils.getManyToManyRelation(field)).toBeNull();
+    });
+  });
 
-      it('should handle disables field correctly', () => {
-        const field = createMockField('disables', 'json', ['m2m'], {});
-        field.meta!.collection = 'answers';
-        const result = relationshipUtils.getRelatedCollectionName(field);
-        expect(result).toBe('enablers');
-      });
+  describe('getRelationTarget', () => {
+    beforeEach(() => {
+      relationshipUtils.setRelationships(mockRelationships);
+    });
 
-      it('should handle junction table with different naming patterns', () => {
-        const customRelationships = [
-          {
-            one_collection: 'posts',
-            one_field: 'tags',
-            many_collection: 'tags',
-            many_field: 'posts',
-            junction_collection: 'post_tags',
-          },
-        ];
-        relationshipUtils.setRelationships(customRelationships);
-
-        const field = createMockField('tags', 'json', ['m2m'], {});
-        field.meta!.collection = 'posts';
-        const result = relationshipUtils.getRelatedCollectionName(field);
-        expect(result).toBe('tags');
+    it('should target the related item of an M2O', () => {
+      const field = createMockField('user_id', 'uuid', ['m2o'], {}, 'users');
+
+      expect(relationshipUtils.getRelationTarget(field)).toEqual({ collection: 'users', many: false });
+    });
+
+    it('should target the related item of a foreign key without the m2o special', () => {
+      relationshipUtils.setRelationships([...mockRelationships, createRelation('test_table', 'roles_id', 'roles', null, 'users_id')]);
+
+      expect(relationshipUtils.getRelationTarget(createMockField('roles_id', 'uuid'))).toEqual({ collection: 'roles', many: false });
+      expect(relationshipUtils.getRelationTarget(createMockField('owner', 'uuid', undefined, {}, 'users'))).toEqual({ collection: 'users', many: false });
+    });
+
+    it('should target the junction rows of an M2M', () => {
+      const field = createMockField('roles', 'alias', ['m2m']);
+      field.meta!.collection = 'users';
+
+      expect(relationshipUtils.getRelationTarget(field)).toEqual({ collection: 'user_roles', many: true });
+    });
+
+    it('should target the related items of an O2M', () => {
+      const field = createMockField('activity_logs', 'alias', ['o2m']);
+      field.meta!.collection = 'audit_sessions';
+
+      expect(relationshipUtils.getRelationTarget(field)).toEqual({ collection: 'audit_activity_logs', many: true });
+    });
+
+    it('should return null for plain fields', () => {
+      expect(relationshipUtils.getRelationTarget(createMockField('title', 'string'))).toBeNull();
+    });
+  });
+
+  describe('getManyToAnyRelation', () => {
+    it('should resolve the junction and allowed collections from relations', () => {
+      const m2aRelations: DirectusRelation[] = [
+        {
+          collection: 'pages_blocks',
+          field: 'pages_id',
+          related_collection: 'pages',
+          meta: { many_collection: 'pages_blocks', many_field: 'pages_id', one_collection: 'pages', one_field: 'blocks', one_collection_field: null, one_allowed_collections: null, junction_field: 'item', sort_field: null },
+        },
+        {
+          collection: 'pages_blocks',
+          field: 'item',
+          related_collection: null,
+          meta: { many_collection: 'pages_blocks', many_field: 'item', one_collection: null, one_field: null, one_collection_field: 'collection', one_allowed_collections: ['block_hero', 'block_text'], junction_field: 'pages_id', sort_field: null },
+        },
+      ];
+      relationshipUtils.setRelationships(m2aRelations);
+      const field = createMockField('blocks', 'alias', ['m2a']);
+      field.meta!.collection = 'pages';
+
+      expect(relationshipUtils.getManyToAnyRelation(field)).toEqual({
+        junctionCollection: 'pages_blocks',
+        itemField: 'item',
+        collectionField: 'collection',
+        allowedCollections: ['block_hero', 'block_text'],
       });
     });
+
+    it('should return null when the relations are missing', () => {
+      const field = createMockField('blocks', 'alias', ['m2a']);
+
+      expect(relationshipUtils.getManyToAnyRelation(field)).toBeNull();
+    });
   });
 });
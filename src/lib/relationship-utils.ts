@@ -1,157 +1,169 @@
-import { DirectusField } from '../types';
+import { DirectusField, DirectusRelation, ManyToAnyRelation, ManyToManyRelation, RelationTarget } from '../types';
+import { FieldUtils } from './field-utils';
 
 /**
  * Utilities for handling Directus relationships
  */
 export class RelationshipUtils {
-  private relationships: any[] = [];
+  private relationships: DirectusRelation[] = [];
 
-  constructor(relationships: any[] = []) {
+  constructor(relationships: DirectusRelation[] = []) {
     this.relationships = relationships;
   }
 
   /**
    * Set relationships data
    */
-  setRelationships(relationships: any[]): void {
+  setRelationships(relationships: DirectusRelation[]): void {
     this.relationships = relationships;
   }
 
   /**
-   * Get related collection name for a field
+   * Get related collection name for a field. M2M fields resolve to the collection
+   * on the other side of the junction, not to the junction itself.
    */
   getRelatedCollectionName(field: DirectusField): string | null {
     const special = field.meta?.special || [];
-    const options = field.meta?.options || {};
+    const collectionName = field.meta?.collection || field.collection;
     
     // For M2O relations, get the foreign key table
-    if (special.includes('m2o') && field.schema?.foreign_key_table) {
-      return field.schema.foreign_key_table;
+    if (special.includes('m2o')) {
+      if (field.schema?.foreign_key_table) {
+        return field.schema.foreign_key_table;
+      }
+
+      const relation = this.relationships.find(rel =>
+        rel.collection === collectionName && rel.field === field.field
+      );
+      return relation?.related_collection || null;
     }
     
-    // For M2M relations, check junction table and related collection
+    // For M2M relations, follow the junction to the related collection
     if (special.includes('m2m') || this.isManyToManyJunctionField(field)) {
-      // Check for explicit junction table configuration
-      if (options.junction_table) {
-        return options.junction_table;
-      }
-      
-      // Check for related collection in options
-      if (options.related_collection) {
-        return options.related_collection;
-      }
-      
-      // Try to infer from field name for M2M relationships
-      const fieldName = field.field;
-      
-      // For M2M fields, find the related collection from actual Directus relationships
-      if (special.includes('m2m')) {
-        // First check options for explicit configuration
-        if (options.related_collection) {
-          return options.related_collection;
-        }
-        
-        if (options.junction_collection) {
-          return options.junction_collection;
-        }
-        
-        if (options.collection) {
-          return options.collection;
-        }
-        
-        if (options.many_collection) {
-          return options.many_collection;
-        }
-        
-        if (options.one_collection) {
-          return options.one_collection;
-        }
-        
-        // If we have junction table info, try to infer from it
-        if (options.junction_table) {
-          const junctionTable = options.junction_table;
-          if (junctionTable.includes('_')) {
-            const parts = junctionTable.split('_');
-            const relatedPart = parts[parts.length - 1];
-            return relatedPart + 's';
-          }
-          return junctionTable;
-        }
-        
-        // Now try to find the relationship from the fetched relationships data
-        if (this.relationships.length > 0) {
-          const collectionName = field.meta?.collection;
-          
-          // Look for relationships where this collection is the "one" side of a many-to-many
-          const m2mRelation = this.relationships.find((rel: any) => 
-            rel.one_collection === collectionName &&
-            rel.one_field === fieldName &&
-            rel.many_collection !== collectionName
-          );
-          
-          if (m2mRelation) {
-            return m2mRelation.many_collection;
-          }
-          
-          // Look for relationships where this collection is the "many" side
-          const reverseM2mRelation = this.relationships.find((rel: any) => 
-            rel.many_collection === collectionName &&
-            rel.many_field === fieldName &&
-            rel.one_collection !== collectionName
-          );
-          
-          if (reverseM2mRelation) {
-            return reverseM2mRelation.one_collection;
-          }
-          
-          // Look for junction table relationships
-          const junctionRelation = this.relationships.find((rel: any) => 
-            rel.junction_collection === collectionName &&
-            (rel.one_collection !== collectionName || rel.many_collection !== collectionName)
-          );
-          
-          if (junctionRelation) {
-            // Return the other collection (not the current one)
-            return junctionRelation.one_collection === collectionName 
-              ? junctionRelation.many_collection 
-              : junctionRelation.one_collection;
-          }
-        }
-        
-        // No relationship found, return null
-        return null;
-      }
-      
-      // Try to infer from junction field name (for junction table fields)
-      if (fieldName.includes('_')) {
-        const parts = fieldName.split('_');
-        if (parts.length >= 2) {
-          // Assume the last part is the related collection name
-          return parts[parts.length - 1] + 's';
-        }
-      }
+      return this.getManyToManyRelation(field)?.relatedCollection || null;
     }
     
-    // For O2M relations, we need to infer from the field name or options
+    // For O2M relations, the related collection holds the foreign key
     if (special.includes('o2m')) {
-      // Check for explicit related collection
-      if (options.related_collection) {
-        return options.related_collection;
-      }
-      
-      // For O2M, the field name usually indicates the related collection
-      // e.g., 'activity_logs' field in 'audit_sessions' relates to 'audit_activity_logs'
-      const fieldName = field.field;
-      if (fieldName === 'activity_logs') {
-        return 'audit_activity_logs';
-      }
-      // Add more patterns as needed
+      const relation = this.findAliasRelation(field);
+      return relation && !relation.meta?.junction_field ? relation.meta?.many_collection || relation.collection : null;
     }
     
     // No relationship found, return null
     return null;
   }
 
+  /**
+   * Get the collection a relation field reads from in the API, as used by `fields`,
+   * `filter` and `deep`. Returns null for other fields and unresolved relations.
+   */
+  getRelationTarget(field: DirectusField): RelationTarget | null {
+    const special = field.meta?.special || [];
+
+    // M2M, M2A and multiple files fields return junction rows
+    if (special.includes('m2m') || special.includes('m2a') || special.includes('files') || this.isManyToManyJunctionField(field)) {
+      const junctionCollection = this.getManyToManyRelation(field)?.junctionCollection
+        || this.getManyToAnyRelation(field)?.junctionCollection;
+      return junctionCollection ? { collection: junctionCollection, many: true } : null;
+    }
+
+    if (FieldUtils.isFileField(field)) {
+      return { collection: 'directus_files', many: false };
+    }
+
+    if (special.includes('o2m')) {
+      const relatedCollection = this.getRelatedCollectionName(field);
+      return relatedCollection ? { collection: relatedCollection, many: true } : null;
+    }
+
+    // Foreign keys such as junction fields often have no `m2o` special
+    const relatedCollection = this.getManyToOneCollection(field);
+    return relatedCollection ? { collection: relatedCollection, many: false } : null;
+  }
+
+  /**
+   * Resolve the junction collection and related collection of a many-to-many field.
+   * The junction points back at the parent through one relation, and at the
+   * related collection through the relation on its `junction_field`.
+   */
+  getManyToManyRelation(field: DirectusField): ManyToManyRelation | null {
+    const parentRelation = this.findAliasRelation(field);
+    const junctionField = parentRelation?.meta?.junction_field;
+    if (!parentRelation?.meta || !junctionField) {
+      return null;
+    }
+
+    const junctionCollection = parentRelation.meta.many_collection || parentRelation.collection;
+    const itemRelation = this.relationships.find(rel =>
+      rel.collection === junctionCollection &&
+      rel.field === junctionField
+    );
+
+    // M2A junctions have no single related collection
+    if (!itemRelation?.related_collection) {
+      return null;
+    }
+
+    return {
+      junctionCollection,
+      junctionField: itemRelation.field,
+      relatedCollection: itemRelation.related_collection,
+    };
+  }
+
+  /**
+   * Resolve the junction collection and allowed collections of a many-to-any field.
+   * The junction points back at the parent through one relation, and at the items
+   * through a second relation that lists the allowed collections.
+   */
+  getManyToAnyRelation(field: DirectusField): ManyToAnyRelation | null {
+    const parentRelation = this.findAliasRelation(field);
+    const junctionField = parentRelation?.meta?.junction_field;
+    if (!parentRelation || !junctionField) {
+      return null;
+    }
+
+    const itemRelation = this.relationships.find(rel =>
+      rel.collection === parentRelation.collection &&
+      rel.field === junctionField
+    );
+
+    if (!itemRelation?.meta?.one_collection_field) {
+      return null;
+    }
+
+    return {
+      junctionCollection: parentRelation.collection,
+      itemField: itemRelation.field,
+      collectionField: itemRelation.meta.one_collection_field,
+      allowedCollections: itemRelation.meta.one_allowed_collections || [],
+    };
+  }
+
+  /**
+   * Get the collection a foreign key points to, from /relations or else the column's foreign key
+   */
+  private getManyToOneCollection(field: DirectusField): string | null {
+    const collectionName = field.meta?.collection || field.collection;
+    const relation = this.relationships.find(rel =>
+      rel.collection === collectionName && rel.field === field.field
+    );
+
+    return relation?.related_collection || field.schema?.foreign_key_table || null;
+  }
+
+  /**
+   * Find the relation whose `one_field` is this alias field (O2M, M2M and M2A)
+   */
+  private findAliasRelation(field: DirectusField): DirectusRelation | undefined {
+    const collectionName = field.meta?.collection || field.collection;
+
+    return this.relationships.find(rel =>
+      rel.related_collection === collectionName &&
+      rel.meta?.one_field === field.field
+    );
+  }
+
   /**
    * Check if a field is a many-to-many junction field
    */
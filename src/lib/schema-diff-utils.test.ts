@@ -0,0 +1,189 @@
+import { SchemaDiffUtils } from './schema-diff-utils';
+import { DirectusField, DirectusRelation, SchemaState } from '../types';
+import { MemoryClient } from '../utils/memory-client';
+
+describe('SchemaDiffUtils', () => {
+  const mockField = (field: string, type: string, overrides: { nullable?: boolean; required?: boolean; choices?: string[]; foreignKeyTable?: string } = {}): DirectusField => ({
+    field,
+    type,
+    schema: {
+      name: field,
+      table: 'articles',
+      data_type: type,
+      is_nullable: overrides.nullable ?? true,
+      is_unique: false,
+      is_primary_key: false,
+      has_auto_increment: false,
+      foreign_key_table: overrides.foreignKeyTable,
+    },
+    meta: {
+      id: 1,
+      collection: 'articles',
+      field,
+      required: overrides.required ?? false,
+      readonly: false,
+      hidden: false,
+      options: overrides.choices ? { choices: overrides.choices.map(value => ({ text: value, value })) } : undefined,
+    },
+  });
+
+  const createState = (fields: DirectusField[], relations: DirectusRelation[] = [], extraCollections: string[] = []): SchemaState => ({
+    collections: [
+      { collection: 'articles', fields },
+      ...extraCollections.map(collection => ({ collection, fields: [] })),
+    ],
+    relations,
+  });
+
+  describe('compare', () => {
+    it('should return no changes for identical states', () => {
+      const state = createState([mockField('title', 'string')]);
+
+      expect(SchemaDiffUtils.compare(state, state)).toEqual([]);
+    });
+
+    it('should report added and removed collections', () => {
+      const before = createState([], [], ['authors']);
+      const after = createState([], [], ['tags']);
+
+      const changes = SchemaDiffUtils.compare(before, after);
+
+      expect(changes).toEqual([
+        expect.objectContaining({ type: 'collection-removed', collection: 'authors', breaking: true }),
+        expect.objectContaining({ type: 'collection-added', collection: 'tags', breaking: false }),
+      ]);
+    });
+
+    it('should report removed fields as breaking', () => {
+      const changes = SchemaDiffUtils.compare(
+        createState([mockField('title', 'string'), mockField('body', 'text')]),
+        createState([mockField('title', 'string')])
+      );
+
+      expect(changes).toEqual([
+        expect.objectContaining({ type: 'field-removed', field: 'body', breaking: true }),
+      ]);
+    });
+
+    it('should classify added fields by whether they are required', () => {
+      const changes = SchemaDiffUtils.compare(
+        createState([]),
+        createState([mockField('summary', 'text'), mockField('slug', 'string', { required: true })])
+      );
+
+      expect(changes).toEqual([
+        expect.objectContaining({ type: 'field-added', field: 'summary', breaking: false }),
+        expect.objectContaining({ type: 'field-added', field: 'slug', breaking: true }),
+      ]);
+    });
+
+    it('should treat becoming nullable as breaking and the reverse as non-breaking', () => {
+      const changes = SchemaDiffUtils.compare(
+        createState([mockField('title', 'string', { nullable: false }), mockField('body', 'text', { nullable: true })]),
+        createState([mockField('title', 'string', { nullable: true }), mockField('body', 'text', { nullable: false })])
+      );
+
+      expect(changes).toEqual([
+        expect.objectContaining({ type: 'nullability-changed', field: 'title', breaking: true }),
+        expect.objectContaining({ type: 'nullability-changed', field: 'body', breaking: false }),
+      ]);
+    });
+
+    it('should report required changes as breaking', () => {
+      const changes = SchemaDiffUtils.compare(
+        createState([mockField('title', 'string', { required: false })]),
+        createState([mockField('title', 'string', { required: true })])
+      );
+
+      expect(changes).toEqual([
+        expect.objectContaining({ type: 'required-changed', field: 'title', breaking: true, message: 'Field became required' }),
+      ]);
+    });
+
+    it('should only treat type changes that change the generated type as breaking', () => {
+      const changes = SchemaDiffUtils.compare(
+        createState([mockField('title', 'string'), mockField('count', 'string')]),
+        createState([mockField('title', 'text'), mockField('count', 'integer')])
+      );
+
+      expect(changes).toEqual([
+        expect.objectContaining({ type: 'type-changed', field: 'title', breaking: false }),
+        expect.objectContaining({ type: 'type-changed', field: 'count', breaking: true }),
+      ]);
+    });
+
+    it('should report removed choices as breaking and added choices as non-breaking', () => {
+      const changes = SchemaDiffUtils.compare(
+        createState([mockField('status', 'string', { choices: ['draft', 'published'] }), mockField('kind', 'string', { choices: ['a'] })]),
+        createState([mockField('status', 'string', { choices: ['draft'] }), mockField('kind', 'string', { choices: ['a', 'b'] })])
+      );
+
+      expect(changes).toEqual([
+        expect.objectContaining({ type: 'choices-changed', field: 'status', breaking: true, message: 'Choices changed: removed "published"' }),
+        expect.objectContaining({ type: 'choices-changed', field: 'kind', breaking: false, message: 'Choices changed: added "b"' }),
+      ]);
+    });
+
+    it('should report retargeted relations from relations and foreign keys', () => {
+      const relation = (related: string): DirectusRelation => ({
+        collection: 'articles',
+        field: 'author',
+        related_collection: related,
+        meta: {
+          many_collection: 'articles',
+          many_field: 'author',
+          one_collection: related,
+          one_field: 'articles',
+          one_collection_field: null,
+          one_allowed_collections: null,
+          junction_field: null,
+          sort_field: null,
+        },
+      });
+
+      const changes = SchemaDiffUtils.compare(
+        createState([mockField('author', 'uuid'), mockField('editor', 'uuid', { foreignKeyTable: 'directus_users' })], [relation('authors')]),
+        createState([mockField('author', 'uuid'), mockField('editor', 'uuid', { foreignKeyTable: 'editors' })], [relation('directus_users')])
+      );
+
+      expect(changes).toEqual([
+        expect.objectContaining({ type: 'relation-changed', field: 'author', breaking: true, message: 'Relation retargeted from "authors" to "directus_users"' }),
+        expect.objectContaining({ type: 'relation-changed', field: 'editor', breaking: true }),
+      ]);
+    });
+  });
+
+  describe('loadState', () => {
+    it('should load collections with fields and relations, skipping folders', async () => {
+      const source = new MemoryClient({
+        collections: [
+          { collection: 'articles', fields: [mockField('title', 'string')] },
+          { collection: 'content', schema: null as any },
+          { collection: 'directus_users' },
+        ],
+      });
+
+      const state = await SchemaDiffUtils.loadState(source);
+
+      expect(state.collections.map(c => c.collection)).toEqual(['articles']);
+      expect(state.collections[0].fields.map(f => f.field)).toEqual(['title']);
+      expect(state.relations).toEqual([]);
+    });
+  });
+
+  describe('formatReport', () => {
+    it('should group changes by whether they are breaking', () => {
+      const report = SchemaDiffUtils.formatReport([
+        { type: 'field-removed', collection: 'articles', field: 'body', breaking: true, message: 'Field "body" was removed' },
+        { type: 'collection-added', collection: 'tags', breaking: false, message: 'Collection "tags" was added' },
+      ]);
+
+      expect(report).toContain('Breaking changes (1):\n  - [field-removed] articles.body: Field "body" was removed');
+      expect(report).toContain('Non-breaking changes (1):\n  - [collection-added] tags: Collection "tags" was added');
+    });
+
+    it('should report when there are no changes', () => {
+      expect(SchemaDiffUtils.formatReport([])).toBe('No schema changes');
+    });
+  });
+});
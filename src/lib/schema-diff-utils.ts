@@ -0,0 +1,276 @@
+import {
+  DirectusCollectionWithFields,
+  DirectusField,
+  SchemaChange,
+  SchemaSource,
+  SchemaState,
+  ZodirectusConfig,
+} from '../types';
+import { CollectionUtils } from './collection-utils';
+import { FieldUtils } from './field-utils';
+
+/**
+ * Utilities for comparing two Directus schema states and classifying the changes
+ * as breaking or non-breaking for consumers of the generated types
+ */
+export class SchemaDiffUtils {
+  /**
+   * Load collections with their fields and relations from a schema source
+   */
+  static async loadState(source: SchemaSource, config: Partial<ZodirectusConfig> = {}): Promise<SchemaState> {
+    await source.authenticate();
+
+    const collections = CollectionUtils.filterCollections(await source.getCollections(), config)
+      // Folders have no table behind them and never produce generated types
+      .filter(collection => collection.schema !== null);
+
+    const collectionsWithFields: DirectusCollectionWithFields[] = [];
+    for (const collection of collections) {
+      try {
+        collectionsWithFields.push(await source.getCollectionWithFields(collection.collection));
+      } catch (error) {
+        console.log(`Collection '${collection.collection}' skipped due to access error:`, error instanceof Error ? error.message : 'Unknown error');
+      }
+    }
+
+    return {
+      collections: collectionsWithFields,
+      relations: await source.getRelationships(),
+    };
+  }
+
+  /**
+   * Compare two schema states
+   */
+  static compare(before: SchemaState, after: SchemaState): SchemaChange[] {
+    const changes: SchemaChange[] = [];
+    const beforeTargets = this.buildRelationTargets(before);
+    const afterTargets = this.buildRelationTargets(after);
+
+    for (const beforeCollection of before.collections) {
+      const afterCollection = after.collections.find(c => c.collection === beforeCollection.collection);
+
+      if (!afterCollection) {
+        changes.push({
+          type: 'collection-removed',
+          collection: beforeCollection.collection,
+          breaking: true,
+          message: `Collection "${beforeCollection.collection}" was removed`,
+        });
+        continue;
+      }
+
+      changes.push(...this.compareFields(beforeCollection, afterCollection, beforeTargets, afterTargets));
+    }
+
+    for (const afterCollection of after.collections) {
+      if (!before.collections.some(c => c.collection === afterCollection.collection)) {
+        changes.push({
+          type: 'collection-added',
+          collection: afterCollection.collection,
+          breaking: false,
+          message: `Collection "${afterCollection.collection}" was added`,
+        });
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Format changes as a human-readable report
+   */
+  static formatReport(changes: SchemaChange[]): string {
+    if (changes.length === 0) {
+      return 'No schema changes';
+    }
+
+    const formatChange = (change: SchemaChange) => {
+      const target = change.field ? `${change.collection}.${change.field}` : change.collection;
+      return `  - [${change.type}] ${target}: ${change.message}`;
+    };
+
+    const breaking = changes.filter(change => change.breaking);
+    const nonBreaking = changes.filter(change => !change.breaking);
+    const sections: string[] = [];
+
+    if (breaking.length > 0) {
+      sections.push(`Breaking changes (${breaking.length}):\n${breaking.map(formatChange).join('\n')}`);
+    }
+
+    if (nonBreaking.length > 0) {
+      sections.push(`Non-breaking changes (${nonBreaking.length}):\n${nonBreaking.map(formatChange).join('\n')}`);
+    }
+
+    return sections.join('\n\n');
+  }
+
+  /**
+   * Compare the fields of a collection that exists in both states
+   */
+  private static compareFields(
+    before: DirectusCollectionWithFields,
+    after: DirectusCollectionWithFields,
+    beforeTargets: Map<string, string>,
+    afterTargets: Map<string, string>
+  ): SchemaChange[] {
+    const changes: SchemaChange[] = [];
+    const collection = before.collection;
+    const beforeFields = before.fields.filter(field => !FieldUtils.isPresentationField(field));
+    const afterFields = after.fields.filter(field => !FieldUtils.isPresentationField(field));
+
+    for (const beforeField of beforeFields) {
+      const field = beforeField.field;
+      const afterField = afterFields.find(f => f.field === field);
+
+      if (!afterField) {
+        changes.push({ type: 'field-removed', collection, field, breaking: true, message: `Field "${field}" was removed` });
+        continue;
+      }
+
+      // Type changes only break consumers when the generated TypeScript type changes
+      if (beforeField.type !== afterField.type) {
+        const breaking = this.getTypeFamily(beforeField.type) !== this.getTypeFamily(afterField.type);
+        changes.push({
+          type: 'type-changed',
+          collection,
+          field,
+          breaking,
+          message: `Type changed from ${beforeField.type} to ${afterField.type}`,
+        });
+      }
+
+      // Readers must start handling null when a field becomes nullable
+      const wasNullable = beforeField.schema?.is_nullable ?? true;
+      const isNullable = afterField.schema?.is_nullable ?? true;
+      if (wasNullable !== isNullable) {
+        changes.push({
+          type: 'nullability-changed',
+          collection,
+          field,
+          breaking: isNullable,
+          message: isNullable ? 'Field became nullable' : 'Field is no longer nullable',
+        });
+      }
+
+      // Required fields break create payloads, optional fields break readers
+      const wasRequired = beforeField.meta?.required ?? false;
+      const isRequired = afterField.meta?.required ?? false;
+      if (wasRequired !== isRequired) {
+        changes.push({
+          type: 'required-changed',
+          collection,
+          field,
+          breaking: true,
+          message: isRequired ? 'Field became required' : 'Field is no longer required',
+        });
+      }
+
+      // Removing a choice breaks code that still sends it, adding one does not
+      const beforeChoices = this.getChoiceValues(beforeField);
+      const afterChoices = this.getChoiceValues(afterField);
+      const removedChoices = beforeChoices.filter(choice => !afterChoices.includes(choice));
+      const addedChoices = afterChoices.filter(choice => !beforeChoices.includes(choice));
+      if (removedChoices.length > 0 || addedChoices.length > 0) {
+        const parts: string[] = [];
+        if (removedChoices.length > 0) {
+          parts.push(`removed ${removedChoices.map(c => `"${c}"`).join(', ')}`);
+        }
+        if (addedChoices.length > 0) {
+          parts.push(`added ${addedChoices.map(c => `"${c}"`).join(', ')}`);
+        }
+        changes.push({
+          type: 'choices-changed',
+          collection,
+          field,
+          breaking: removedChoices.length > 0,
+          message: `Choices changed: ${parts.join('; ')}`,
+        });
+      }
+
+      const beforeTarget = beforeTargets.get(`${collection}.${field}`) ?? beforeField.schema?.foreign_key_table;
+      const afterTarget = afterTargets.get(`${collection}.${field}`) ?? afterField.schema?.foreign_key_table;
+      if (beforeTarget && afterTarget && beforeTarget !== afterTarget) {
+        changes.push({
+          type: 'relation-changed',
+          collection,
+          field,
+          breaking: true,
+          message: `Relation retargeted from "${beforeTarget}" to "${afterTarget}"`,
+        });
+      }
+    }
+
+    for (const afterField of afterFields) {
+      if (beforeFields.some(f => f.field === afterField.field)) {
+        continue;
+      }
+
+      const isRequired = afterField.meta?.required ?? false;
+      changes.push({
+        type: 'field-added',
+        collection,
+        field: afterField.field,
+        breaking: isRequired,
+        message: isRequired ? `Required field "${afterField.field}" was added` : `Field "${afterField.field}" was added`,
+      });
+    }
+
+    return changes;
+  }
+
+  /**
+   * Map `collection.field` to the collection(s) a relational field points at
+   */
+  private static buildRelationTargets(state: SchemaState): Map<string, string> {
+    const targets = new Map<string, string>();
+
+    for (const relation of state.relations) {
+      if (relation.related_collection) {
+        targets.set(`${relation.collection}.${relation.field}`, relation.related_collection);
+
+        // The "one" side of an O2M / M2M points back at the "many" collection
+        if (relation.meta?.one_field) {
+          targets.set(`${relation.related_collection}.${relation.meta.one_field}`, relation.collection);
+        }
+      } else if (relation.meta?.one_allowed_collections) {
+        targets.set(`${relation.collection}.${relation.field}`, [...relation.meta.one_allowed_collections].sort().join(' | '));
+      }
+    }
+
+    return targets;
+  }
+
+  /**
+   * Get the generated TypeScript type family of a Directus field type
+   */
+  private static getTypeFamily(type: string): string {
+    switch (type) {
+      case 'integer':
+      case 'float':
+      case 'decimal':
+        return 'number';
+      case 'boolean':
+        return 'boolean';
+      case 'json':
+      case 'csv':
+        return 'json';
+      case 'alias':
+        return 'alias';
+      default:
+        return 'string';
+    }
+  }
+
+  /**
+   * Get the choice values configured for a field
+   */
+  private static getChoiceValues(field: DirectusField): string[] {
+    const choices = field.meta?.options?.choices;
+    if (!Array.isArray(choices)) {
+      return [];
+    }
+
+    return choices.map((choice: any) => String(choice && typeof choice === 'object' ? choice.value : choice));
+  }
+}
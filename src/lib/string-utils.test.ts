@@ -70,8 +70,33 @@ describe('StringUtils', () => {
 
     it('should preserve singular words ending in s', () => {
       expect(StringUtils.toSingular('Access')).toBe('Access');
-      expect(StringUtils.toSingular('Process')).toBe('Proces');
-      expect(StringUtils.toSingular('DirectusAccess')).toBe('DirectusAcces');
+      expect(StringUtils.toSingular('Process')).toBe('Process');
+      expect(StringUtils.toSingular('DirectusAccess')).toBe('DirectusAccess');
+      expect(StringUtils.toSingular('OrderStatus')).toBe('OrderStatus');
+    });
+
+    it('should singularize the last word of compound words like a single word', () => {
+      expect(StringUtils.toSingular('OrderStatuses')).toBe('OrderStatus');
+      expect(StringUtils.toSingular('UserAddresses')).toBe('UserAddress');
+      expect(StringUtils.toSingular('TeamPeople')).toBe('TeamPerson');
+    });
+
+    it('should keep uncountable nouns', () => {
+      expect(StringUtils.toSingular('News')).toBe('News');
+      expect(StringUtils.toSingular('BlogNews')).toBe('BlogNews');
+      expect(StringUtils.toSingular('SiteData')).toBe('SiteData');
+      expect(StringUtils.toSingular('Series')).toBe('Series');
+      expect(StringUtils.toSingular('Species')).toBe('Species');
+    });
+
+    it('should prefer the given irregular plurals over the built-in rules', () => {
+      const customPlurals = { criteria: 'criteria', kunden: 'kunde', blog_posts: 'article' };
+
+      expect(StringUtils.toSingular('Criteria', customPlurals)).toBe('Criteria');
+      expect(StringUtils.toSingular('Kunden', customPlurals)).toBe('Kunde');
+      expect(StringUtils.toSingular('ShopKunden', customPlurals)).toBe('ShopKunde');
+      expect(StringUtils.toSingular('BlogPosts', customPlurals)).toBe('Article');
+      expect(StringUtils.toSingular('Users', customPlurals)).toBe('User');
     });
 
     it('should handle irregular plurals', () => {
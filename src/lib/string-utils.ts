@@ -28,15 +28,31 @@ export class StringUtils {
   }
 
   /**
-   * Convert plural word to singular using linguistic rules
+   * Convert plural word to singular using linguistic rules. `customPlurals` maps
+   * plural words to their singular form and takes precedence over the built-in rules.
    */
-  static toSingular(word: string): string {
+  static toSingular(word: string, customPlurals: Record<string, string> = {}): string {
     // Handle empty or single character words
     if (!word || word.length <= 1) {
       return word;
     }
 
     const lowerWord = word.toLowerCase();
+
+    // Irregular plurals given by the caller, matched on the whole word first
+    const customSingulars = new Map(
+      Object.entries(customPlurals).map(([plural, singular]) => [plural.replace(/[-_\s]+/g, '').toLowerCase(), singular])
+    );
+    const customSingular = customSingulars.get(lowerWord);
+    if (customSingular !== undefined) {
+      return this.capitalizeFirst(customSingular, word);
+    }
+
+    // Compound words like "DirectusUsers" or "OrderStatuses": only the last word is plural
+    const parts = word.split(/(?=[A-Z])/);
+    if (parts.length >= 2 && word !== word.toUpperCase()) {
+      return parts.slice(0, -1).join('') + this.toSingular(parts[parts.length - 1], customPlurals);
+    }
     
     // Irregular plurals that need special handling
     const irregularPlurals: Record<string, string> = {
@@ -49,8 +65,6 @@ export class StringUtils {
       'mice': 'mouse',
       'geese': 'goose',
       'oxen': 'ox',
-      'data': 'datum',
-      'media': 'medium',
       'criteria': 'criterion',
       'phenomena': 'phenomenon',
       'indices': 'index',
@@ -69,50 +83,9 @@ export class StringUtils {
       return this.capitalizeFirst(irregularPlurals[lowerWord], word);
     }
 
-    // Handle Directus compound words first (special case)
-    if (word.startsWith('Directus') && word.length > 'Directus'.length) {
-      // For compound words like "DirectusRevisions", preserve the compound structure
-      if (word.endsWith('s') && !word.endsWith('ies')) {
-        const lastPart = word.match(/Directus([A-Z][a-z]*s?)$/);
-        if (lastPart) {
-          const root = lastPart[1].slice(0, -1); // Remove the 's'
-          return word.replace(/Directus([A-Z][a-z]*s?)$/, `Directus${root}`);
-        }
-      }
-      // For compound words like "DirectusPolicies", handle -ies -> -y
-      if (word.endsWith('ies')) {
-        const lastPart = word.match(/Directus([A-Z][a-z]*ies)$/);
-        if (lastPart) {
-          const root = lastPart[1].slice(0, -3) + 'y'; // Convert -ies to -y
-          return word.replace(/Directus([A-Z][a-z]*ies)$/, `Directus${root}`);
-        }
-      }
-    }
-
-    // Handle other compound words (like DialogueXxx, AnswerXxx, etc.)
-    if (word.match(/^[A-Z][a-z]*[A-Z]/)) {
-      // Split by capital letters to find word parts
-      const parts = word.split(/(?=[A-Z])/);
-      if (parts.length >= 2) {
-        const lastPart = parts[parts.length - 1];
-        
-        // For compound words ending in 's', preserve the compound structure
-        if (word.endsWith('s') && !word.endsWith('ies')) {
-          if (lastPart.endsWith('s') && lastPart.length > 1) {
-            const root = lastPart.slice(0, -1); // Remove the 's'
-            parts[parts.length - 1] = root;
-            return parts.join('');
-          }
-        }
-        // For compound words ending in 'ies', handle -ies -> -y
-        if (word.endsWith('ies')) {
-          if (lastPart.endsWith('ies') && lastPart.length > 3) {
-            const root = lastPart.slice(0, -3) + 'y'; // Convert -ies to -y
-            parts[parts.length - 1] = root;
-            return parts.join('');
-          }
-        }
-      }
+    // Uncountable nouns and singular words that end in s, e.g. news, data, status or address
+    if (this.isUncountable(lowerWord)) {
+      return word;
     }
 
     // Regular plural rules
@@ -168,6 +141,20 @@ export class StringUtils {
     return word;
   }
 
+  /**
+   * Check whether a word has no separate singular form
+   */
+  private static isUncountable(lowerWord: string): boolean {
+    const uncountable = [
+      'news', 'data', 'media', 'metadata', 'series', 'species', 'information', 'equipment',
+      'status', 'campus', 'bonus', 'virus', 'focus', 'census', 'radius', 'corpus', 'nexus',
+      'analysis', 'basis', 'crisis', 'thesis', 'diagnosis', 'synopsis', 'axis',
+      'canvas', 'atlas', 'alias', 'bias', 'lens',
+    ];
+
+    return uncountable.includes(lowerWord) || (lowerWord.endsWith('ss') && lowerWord.length > 3);
+  }
+
   /**
    * Capitalize the first letter while preserving the original casing pattern
    */
@@ -0,0 +1,110 @@
+import { z } from 'zod';
+import { ValidationUtils } from './validation-utils';
+import { DirectusField } from '../types';
+
+describe('ValidationUtils', () => {
+  const mockField = (field: string, validation: any, validationMessage?: string): DirectusField => ({
+    field,
+    type: 'string',
+    meta: {
+      id: 1,
+      collection: 'articles',
+      field,
+      required: false,
+      readonly: false,
+      hidden: false,
+      validation,
+      validation_message: validationMessage,
+    },
+  });
+
+  // Evaluate the generated code against the real zod package
+  const buildSchema = (zodType: string, chain: string): z.ZodTypeAny => new Function('z', `return ${zodType}${chain};`)(z);
+
+  describe('compileValidation', () => {
+    it('should return nothing without a validation rule', () => {
+      expect(ValidationUtils.compileValidation(mockField('title', null), 'z.string()')).toEqual({ chain: '', nonNullable: false });
+    });
+
+    it('should compile string operators into built-in methods with the custom message', () => {
+      const field = mockField('slug', { _and: [{ slug: { _regex: '/^[a-z-]+$/i', _starts_with: 'post-' } }] }, 'Invalid slug');
+
+      const { chain } = ValidationUtils.compileValidation(field, 'z.string()');
+
+      expect(chain).toBe('.regex(/^[a-z-]+$/i, { message: "Invalid slug" }).startsWith("post-", { message: "Invalid slug" })');
+      const schema = buildSchema('z.string()', chain);
+      expect(schema.safeParse('post-Hello').success).toBe(true);
+      const result = schema.safeParse('hello');
+      expect(result.success).toBe(false);
+      expect(!result.success && result.error.issues[0].message).toBe('Invalid slug');
+    });
+
+    it('should compile number ranges into min/max style methods', () => {
+      const field = mockField('rating', { _and: [{ rating: { _gte: '1' } }, { rating: { _lte: 5 } }] });
+
+      const { chain } = ValidationUtils.compileValidation(field, 'z.number().int()');
+
+      expect(chain).toBe('.gte(1).lte(5)');
+    });
+
+    it('should compare numeric columns typed as strings as numbers', () => {
+      const decimalField = (validation: Record<string, unknown>): DirectusField => ({
+        ...mockField('price', validation),
+        type: 'decimal',
+        schema: { name: 'price', table: 'articles', data_type: 'numeric', numeric_precision: 10, numeric_scale: 2, is_nullable: true, is_unique: false, is_primary_key: false, has_auto_increment: false },
+      });
+
+      const lte = ValidationUtils.compileValidation(decimalField({ _and: [{ price: { _lte: 100 } }] }), 'z.string()').chain;
+      const between = ValidationUtils.compileValidation(decimalField({ _and: [{ price: { _between: ['0.5', '10'] } }] }), 'z.string()').chain;
+
+      expect(lte).toBe('.refine((v) => Number(v) <= 100)');
+      expect(buildSchema('z.string()', lte).safeParse('99').success).toBe(true);
+      expect(buildSchema('z.string()', lte).safeParse('100.00').success).toBe(true);
+      expect(buildSchema('z.string()', lte).safeParse('1000').success).toBe(false);
+      expect(buildSchema('z.string()', between).safeParse('9.99').success).toBe(true);
+      expect(buildSchema('z.string()', between).safeParse('0.25').success).toBe(false);
+      expect(buildSchema('z.string()', between).safeParse('10.01').success).toBe(false);
+    });
+
+    it('should compile _in and _or groups into refinements', () => {
+      const field = mockField('code', {
+        _and: [
+          { code: { _in: ['a', 'b', 'c'] } },
+          { _or: [{ code: { _eq: 'a' } }, { code: { _contains: 'b' } }] },
+        ],
+      });
+
+      const { chain } = ValidationUtils.compileValidation(field, 'z.string()');
+      const schema = buildSchema('z.string()', chain);
+
+      expect(schema.safeParse('a').success).toBe(true);
+      expect(schema.safeParse('b').success).toBe(true);
+      expect(schema.safeParse('c').success).toBe(false);
+      expect(schema.safeParse('d').success).toBe(false);
+    });
+
+    it('should flag _nnull so the field is not made nullable', () => {
+      const field = mockField('title', { _and: [{ title: { _nnull: true } }] });
+
+      expect(ValidationUtils.compileValidation(field, 'z.string()')).toEqual({ chain: '', nonNullable: true });
+    });
+
+    it('should skip conditions on other fields and dynamic variables', () => {
+      const field = mockField('published_on', {
+        _and: [
+          { published_on: { _lte: '$NOW' } },
+          { status: { _eq: 'published' } },
+          { _or: [{ published_on: { _nnull: true } }, { status: { _eq: 'draft' } }] },
+        ],
+      });
+
+      expect(ValidationUtils.compileValidation(field, 'z.string().datetime()').chain).toBe('');
+    });
+
+    it('should not add checks to relation schemas', () => {
+      const field = mockField('author', { _and: [{ author: { _nnull: true } }] });
+
+      expect(ValidationUtils.compileValidation(field, 'DrxAuthorSchema')).toEqual({ chain: '', nonNullable: false });
+    });
+  });
+});
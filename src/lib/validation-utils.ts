@@ -0,0 +1,319 @@
+import { DirectusField } from '../types';
+import { FieldUtils } from './field-utils';
+
+/**
+ * Result of compiling a field's Directus validation rule
+ */
+export interface CompiledValidation {
+  /** Zod method calls to append to the field's base type, e.g. `.regex(/^a/)` */
+  chain: string;
+  /** The rule contains `_nnull`, so the field must not be made nullable */
+  nonNullable: boolean;
+}
+
+type ValidationRule = Record<string, any>;
+
+/** `numeric-string` stands for numeric columns typed as strings, such as Postgres `numeric` */
+type ValueKind = 'string' | 'number' | 'numeric-string' | 'other';
+
+/**
+ * Utilities for compiling Directus field validation rules (filter syntax) into Zod calls
+ */
+export class ValidationUtils {
+  /**
+   * Compile `meta.validation` and `meta.validation_message` of a field into Zod calls.
+   * Conditions on other fields and dynamic variables such as `$NOW` are left to the server.
+   */
+  static compileValidation(field: DirectusField, zodType: string): CompiledValidation {
+    const empty: CompiledValidation = { chain: '', nonNullable: false };
+    const validation = field.meta?.validation;
+
+    // Relation schemas are referenced by name and can't carry value checks
+    if (!validation || typeof validation !== 'object' || !zodType.startsWith('z.') || zodType.startsWith('z.lazy')) {
+      return empty;
+    }
+
+    const rule = this.extractFieldRule(validation, field.field);
+    if (!rule) {
+      return empty;
+    }
+
+    const message = field.meta?.validation_message
+      ? `{ message: ${JSON.stringify(field.meta.validation_message)} }`
+      : undefined;
+    const call = (method: string, ...args: string[]) => `.${method}(${(message ? [...args, message] : args).join(', ')})`;
+
+    const kind = this.getValueKind(field, zodType);
+    const nativeCalls: string[] = [];
+    const refinements: string[] = [];
+    let nonNullable = false;
+
+    for (const [operator, value] of this.flattenAnd(rule)) {
+      if (operator === '_nnull') {
+        nonNullable = nonNullable || value !== false;
+        continue;
+      }
+
+      const nativeCall = this.getNativeCall(operator, value, kind, call);
+      if (nativeCall) {
+        nativeCalls.push(nativeCall);
+        continue;
+      }
+
+      const predicate = operator === '_or' ? this.compileOr(value, kind) : this.compileOperator(operator, value, kind);
+      if (predicate) {
+        refinements.push(call('refine', `(v) => ${predicate}`));
+      }
+    }
+
+    return {
+      chain: [...nativeCalls, ...refinements].join(''),
+      nonNullable,
+    };
+  }
+
+  /**
+   * Get the kind of values a field's Zod type holds
+   */
+  private static getValueKind(field: DirectusField, zodType: string): ValueKind {
+    if (zodType.startsWith('z.number()')) {
+      return 'number';
+    }
+
+    if (zodType.startsWith('z.string()')) {
+      return FieldUtils.isNumericField(field) ? 'numeric-string' : 'string';
+    }
+
+    return 'other';
+  }
+
+  /**
+   * Reduce an item-level filter to the conditions that apply to one field.
+   * `_or` groups that mention other fields can't be checked per field and are dropped.
+   */
+  private static extractFieldRule(filter: ValidationRule, fieldName: string): ValidationRule | undefined {
+    if (!filter || typeof filter !== 'object') {
+      return undefined;
+    }
+
+    if (Array.isArray(filter._and)) {
+      const rules = filter._and
+        .map((child: ValidationRule) => this.extractFieldRule(child, fieldName))
+        .filter((child: ValidationRule | undefined): child is ValidationRule => !!child);
+      return rules.length > 0 ? { _and: rules } : undefined;
+    }
+
+    if (Array.isArray(filter._or)) {
+      const rules = filter._or.map((child: ValidationRule) => this.extractFieldRule(child, fieldName));
+      return rules.length > 0 && rules.every(Boolean) ? { _or: rules } : undefined;
+    }
+
+    const operators = filter[fieldName];
+    return operators && typeof operators === 'object' && !Array.isArray(operators) ? operators : undefined;
+  }
+
+  /**
+   * Flatten nested `_and` groups into a list of [operator, value] pairs
+   */
+  private static flattenAnd(rule: ValidationRule): Array<[string, any]> {
+    if (Array.isArray(rule._and)) {
+      return rule._and.flatMap((child: ValidationRule) => this.flattenAnd(child));
+    }
+
+    return Object.entries(rule);
+  }
+
+  /**
+   * Map an operator onto a built-in Zod string or number method where one exists
+   */
+  private static getNativeCall(
+    operator: string,
+    value: any,
+    kind: ValueKind,
+    call: (method: string, ...args: string[]) => string
+  ): string | undefined {
+    if (this.isDynamicValue(value)) {
+      return undefined;
+    }
+
+    if (kind === 'string' || kind === 'numeric-string') {
+      switch (operator) {
+        case '_regex': {
+          const regex = this.toRegExp(value);
+          return regex ? call('regex', regex) : undefined;
+        }
+        case '_contains':
+          return typeof value === 'string' ? call('includes', JSON.stringify(value)) : undefined;
+        case '_starts_with':
+          return typeof value === 'string' ? call('startsWith', JSON.stringify(value)) : undefined;
+        case '_ends_with':
+          return typeof value === 'string' ? call('endsWith', JSON.stringify(value)) : undefined;
+        case '_nempty':
+          return value !== false ? call('min', '1') : undefined;
+      }
+    }
+
+    if (kind === 'number' && this.isNumeric(value)) {
+      switch (operator) {
+        case '_gt':
+          return call('gt', String(Number(value)));
+        case '_gte':
+          return call('gte', String(Number(value)));
+        case '_lt':
+          return call('lt', String(Number(value)));
+        case '_lte':
+          return call('lte', String(Number(value)));
+      }
+    }
+
+    if (kind === 'number' && operator === '_between' && Array.isArray(value) && value.length === 2 && value.every(v => this.isNumeric(v))) {
+      return call('gte', String(Number(value[0]))) + call('lte', String(Number(value[1])));
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Compile an `_or` group into a single JavaScript predicate over `v`
+   */
+  private static compileOr(rules: ValidationRule[], kind: ValueKind): string | undefined {
+    const predicates = rules.map(rule => this.compileRule(rule, kind));
+    return predicates.every(Boolean) ? `(${predicates.join(' || ')})` : undefined;
+  }
+
+  /**
+   * Compile a rule (operators, `_and` or `_or`) into a JavaScript predicate over `v`
+   */
+  private static compileRule(rule: ValidationRule, kind: ValueKind): string | undefined {
+    if (Array.isArray(rule._or)) {
+      return this.compileOr(rule._or, kind);
+    }
+
+    const predicates = this.flattenAnd(rule).map(([operator, value]) =>
+      operator === '_or' ? this.compileOr(value, kind) : this.compileOperator(operator, value, kind)
+    );
+    return predicates.length > 0 && predicates.every(Boolean) ? `(${predicates.join(' && ')})` : undefined;
+  }
+
+  /**
+   * Compile a single filter operator into a JavaScript predicate over `v`
+   */
+  private static compileOperator(operator: string, rawValue: any, kind: ValueKind): string | undefined {
+    if (this.isDynamicValue(rawValue)) {
+      return undefined;
+    }
+
+    // Filter values are often stored as strings, match them to the field's type
+    const value = Array.isArray(rawValue)
+      ? rawValue.map(item => this.normalizeValue(item, kind))
+      : this.normalizeValue(rawValue, kind);
+    const literal = JSON.stringify(value);
+    // Numeric strings are compared as numbers, not lexicographically
+    const subject = kind === 'numeric-string' ? 'Number(v)' : 'v';
+
+    switch (operator) {
+      case '_eq':
+        return `${subject} === ${literal}`;
+      case '_neq':
+        return `${subject} !== ${literal}`;
+      case '_gt':
+        return `${subject} > ${literal}`;
+      case '_gte':
+        return `${subject} >= ${literal}`;
+      case '_lt':
+        return `${subject} < ${literal}`;
+      case '_lte':
+        return `${subject} <= ${literal}`;
+      case '_in':
+        return Array.isArray(value) ? `${literal}.includes(${subject})` : undefined;
+      case '_nin':
+        return Array.isArray(value) ? `!${literal}.includes(${subject})` : undefined;
+      case '_between':
+        return Array.isArray(value) && value.length === 2
+          ? `(${subject} >= ${JSON.stringify(value[0])} && ${subject} <= ${JSON.stringify(value[1])})`
+          : undefined;
+      case '_nbetween':
+        return Array.isArray(value) && value.length === 2
+          ? `(${subject} < ${JSON.stringify(value[0])} || ${subject} > ${JSON.stringify(value[1])})`
+          : undefined;
+      case '_contains':
+        return `String(v).includes(${literal})`;
+      case '_ncontains':
+        return `!String(v).includes(${literal})`;
+      case '_icontains':
+        return typeof value === 'string' ? `String(v).toLowerCase().includes(${JSON.stringify(value.toLowerCase())})` : undefined;
+      case '_starts_with':
+        return `String(v).startsWith(${literal})`;
+      case '_nstarts_with':
+        return `!String(v).startsWith(${literal})`;
+      case '_ends_with':
+        return `String(v).endsWith(${literal})`;
+      case '_nends_with':
+        return `!String(v).endsWith(${literal})`;
+      case '_regex': {
+        const regex = this.toRegExp(value);
+        return regex ? `${regex}.test(String(v))` : undefined;
+      }
+      case '_null':
+        return value === false ? 'v !== null' : 'v === null';
+      case '_nnull':
+        return value === false ? 'v === null' : 'v !== null';
+      case '_empty':
+      case '_nempty': {
+        const isEmpty = `(v == null || String(v) === '' || (Array.isArray(v) && v.length === 0))`;
+        return (operator === '_empty') === (value !== false) ? isEmpty : `!${isEmpty}`;
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Convert a Directus `_regex` value (`^a+$` or `/^a+$/i`) into a regex literal
+   */
+  private static toRegExp(value: unknown): string | undefined {
+    if (typeof value !== 'string') {
+      return undefined;
+    }
+
+    const match = value.match(/^\/(.*)\/([a-z]*)$/s);
+    try {
+      return String(match ? new RegExp(match[1], match[2]) : new RegExp(value));
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Dynamic variables such as `$NOW` or `$CURRENT_USER` are resolved by the server
+   */
+  private static isDynamicValue(value: unknown): boolean {
+    if (Array.isArray(value)) {
+      return value.some(item => this.isDynamicValue(item));
+    }
+
+    return typeof value === 'string' && value.startsWith('$');
+  }
+
+  /**
+   * Convert a filter value to the type of the values it is compared with
+   */
+  private static normalizeValue(value: unknown, kind: ValueKind): unknown {
+    if ((kind === 'number' || kind === 'numeric-string') && this.isNumeric(value)) {
+      return Number(value);
+    }
+
+    if (kind === 'string' && (typeof value === 'number' || typeof value === 'boolean')) {
+      return String(value);
+    }
+
+    return value;
+  }
+
+  /**
+   * Check whether a filter value is a number or a numeric string
+   */
+  private static isNumeric(value: unknown): boolean {
+    return (typeof value === 'number' || (typeof value === 'string' && value.trim() !== '')) && !isNaN(Number(value));
+  }
+}
@@ -0,0 +1,87 @@
+import { WatchUtils } from './watch-utils';
+import { DirectusCollection, DirectusField, DirectusRelation } from '../types';
+
+describe('WatchUtils', () => {
+  const collections: DirectusCollection[] = [{ collection: 'articles' }, { collection: 'authors' }, { collection: 'tags' }];
+
+  const mockField = (collection: string, field: string, type = 'string'): DirectusField => ({
+    collection,
+    field,
+    type,
+  });
+
+  const relation: DirectusRelation = {
+    collection: 'articles',
+    field: 'author',
+    related_collection: 'authors',
+  };
+
+  describe('fingerprint', () => {
+    it('should produce one stable hash per collection', () => {
+      const fields = [mockField('articles', 'title'), mockField('authors', 'name')];
+
+      const first = WatchUtils.fingerprint(collections, fields, [relation]);
+      const second = WatchUtils.fingerprint(collections, fields, [relation]);
+
+      expect([...first.keys()]).toEqual(['articles', 'authors', 'tags']);
+      expect(second).toEqual(first);
+    });
+  });
+
+  describe('getChangedCollections', () => {
+    it('should only report collections whose fields changed', () => {
+      const before = WatchUtils.fingerprint(collections, [mockField('articles', 'title')], []);
+      const after = WatchUtils.fingerprint(collections, [mockField('articles', 'title', 'text')], []);
+
+      expect(WatchUtils.getChangedCollections(before, after)).toEqual(['articles']);
+    });
+
+    it('should report both sides of a changed relation', () => {
+      const before = WatchUtils.fingerprint(collections, [], []);
+      const after = WatchUtils.fingerprint(collections, [], [relation]);
+
+      expect(WatchUtils.getChangedCollections(before, after)).toEqual(['articles', 'authors']);
+    });
+
+    it('should report added and removed collections', () => {
+      const before = WatchUtils.fingerprint(collections.slice(0, 2), [], []);
+      const after = WatchUtils.fingerprint(collections.slice(1), [], []);
+
+      expect(WatchUtils.getChangedCollections(before, after)).toEqual(['tags', 'articles']);
+    });
+
+    it('should return nothing when the schema is unchanged', () => {
+      const fingerprints = WatchUtils.fingerprint(collections, [], []);
+
+      expect(WatchUtils.getChangedCollections(fingerprints, new Map(fingerprints))).toEqual([]);
+    });
+  });
+
+  describe('getAffectedCollections', () => {
+    it('should add the collections related to the changed ones', () => {
+      expect(WatchUtils.getAffectedCollections(['authors'], [relation])).toEqual(['authors', 'articles']);
+      expect(WatchUtils.getAffectedCollections(['tags'], [relation])).toEqual(['tags']);
+    });
+
+    it('should reach across junction collections', () => {
+      const junction = (field: string, related: string, junctionField: string): DirectusRelation => ({
+        collection: 'articles_tags',
+        field,
+        related_collection: related,
+        meta: {
+          many_collection: 'articles_tags',
+          many_field: field,
+          one_collection: related,
+          one_field: null,
+          one_collection_field: null,
+          one_allowed_collections: null,
+          junction_field: junctionField,
+          sort_field: null,
+        },
+      });
+      const relations = [junction('articles_id', 'articles', 'tags_id'), junction('tags_id', 'tags', 'articles_id')];
+
+      expect(WatchUtils.getAffectedCollections(['tags'], relations).sort()).toEqual(['articles', 'articles_tags', 'tags']);
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { createHash } from 'crypto';
+import { DirectusCollection, DirectusField, DirectusRelation } from '../types';
+
+/**
+ * Utilities for detecting Directus schema changes between polls
+ */
+export class WatchUtils {
+  /**
+   * Hash the /collections, /fields and /relations payloads per collection.
+   * Relations are folded into every collection they touch.
+   */
+  static fingerprint(
+    collections: DirectusCollection[],
+    fields: DirectusField[],
+    relations: DirectusRelation[]
+  ): Map<string, string> {
+    const fingerprints = new Map<string, string>();
+
+    for (const collection of collections) {
+      const name = collection.collection;
+      const payload = {
+        collection,
+        fields: fields.filter(field => (field.collection ?? field.meta?.collection) === name),
+        relations: relations.filter(relation =>
+          relation.collection === name ||
+          relation.related_collection === name ||
+          relation.meta?.one_allowed_collections?.includes(name)
+        ),
+      };
+
+      fingerprints.set(name, createHash('sha1').update(JSON.stringify(payload)).digest('hex'));
+    }
+
+    return fingerprints;
+  }
+
+  /**
+   * List collections that were added, removed or changed between two fingerprints
+   */
+  static getChangedCollections(previous: Map<string, string>, current: Map<string, string>): string[] {
+    const changed: string[] = [];
+
+    for (const [name, hash] of current) {
+      if (previous.get(name) !== hash) {
+        changed.push(name);
+      }
+    }
+
+    for (const name of previous.keys()) {
+      if (!current.has(name)) {
+        changed.push(name);
+      }
+    }
+
+    return changed;
+  }
+
+  /**
+   * Add the collections that share a relation with the changed ones, since their schemas
+   * reference each other. Junction collections also pull in the other side of the M2M/M2A.
+   */
+  static getAffectedCollections(changed: string[], relations: DirectusRelation[]): string[] {
+    const affected = new Set(changed);
+    const getRelated = (relation: DirectusRelation): string[] =>
+      [relation.collection, relation.related_collection, ...(relation.meta?.one_allowed_collections ?? [])].filter(
+        (name): name is string => !!name
+      );
+
+    for (const relation of relations) {
+      const related = getRelated(relation);
+      if (!related.some(name => changed.includes(name))) {
+        continue;
+      }
+
+      related.forEach(name => affected.add(name));
+
+      if (relation.meta?.junction_field) {
+        relations
+          .filter(other => other.collection === relation.collection)
+          .forEach(other => getRelated(other).forEach(name => affected.add(name)));
+      }
+    }
+
+    return [...affected];
+  }
+}
@@ -2,6 +2,7 @@
  * Directus Collection Field Types
  */
 export interface DirectusField {
+  collection?: string;
   field: string;
   type: string;
   schema?: {
@@ -40,7 +41,8 @@ export interface DirectusField {
     note?: string;
     conditions?: any[];
     required: boolean;
-    group?: number;
+    /** Name of the group field this field sits in */
+    group?: string | null;
     validation?: any;
     validation_message?: string;
   };
@@ -86,14 +88,180 @@ export interface DirectusCollectionWithFields extends DirectusCollection {
   fields: DirectusField[];
 }
 
+/**
+ * Directus Relation
+ */
+export interface DirectusRelation {
+  collection: string;
+  field: string;
+  related_collection: string | null;
+  meta?: {
+    id?: number;
+    many_collection: string;
+    many_field: string;
+    one_collection: string | null;
+    one_field: string | null;
+    one_collection_field: string | null;
+    one_allowed_collections: string[] | null;
+    junction_field: string | null;
+    sort_field: string | null;
+    one_deselect_action?: string;
+  } | null;
+  schema?: {
+    table: string;
+    column: string;
+    foreign_key_table: string;
+    foreign_key_column: string;
+    constraint_name?: string | null;
+    on_update?: string;
+    on_delete?: string;
+  } | null;
+}
+
+/**
+ * Many-to-many field resolved from /relations
+ */
+export interface ManyToManyRelation {
+  junctionCollection: string;
+  /** Junction field holding the related item */
+  junctionField: string;
+  relatedCollection: string;
+}
+
+/**
+ * Collection a relation field reads from in the API. M2M and M2A fields read
+ * their junction rows, and files fields read directus_files.
+ */
+export interface RelationTarget {
+  collection: string;
+  /** The field holds a list (O2M, M2M, M2A) */
+  many: boolean;
+}
+
+/**
+ * Many-to-any field resolved from /relations
+ */
+export interface ManyToAnyRelation {
+  junctionCollection: string;
+  /** Junction field holding the related item (usually `item`) */
+  itemField: string;
+  /** Junction field holding the related collection name (usually `collection`) */
+  collectionField: string;
+  allowedCollections: string[];
+}
+
+/**
+ * Directus permission (from /permissions)
+ */
+export interface DirectusPermission {
+  id?: number;
+  /** Role the permission belongs to; null for the public role (Directus 10) */
+  role?: string | null;
+  /** Policy the permission belongs to (Directus 11) */
+  policy?: string | null;
+  collection: string;
+  action: 'create' | 'read' | 'update' | 'delete' | 'share';
+  /** Fields the action may touch; `*` stands for every field */
+  fields: string[] | null;
+  permissions?: Record<string, unknown> | null;
+  validation?: Record<string, unknown> | null;
+  presets?: Record<string, unknown> | null;
+}
+
+/**
+ * Directus role (from /roles)
+ */
+export interface DirectusRole {
+  id: string;
+  name: string;
+  /** Directus 10 only; Directus 11 grants admin access through policies */
+  admin_access?: boolean;
+  /** Policies attached to the role (Directus 11) */
+  policies?: Array<string | { policy: string | null }>;
+}
+
+/**
+ * Attachment of a policy to a role or user (from /access, Directus 11). The public
+ * policy is attached to neither.
+ */
+export interface DirectusAccess {
+  id?: string;
+  role: string | null;
+  user: string | null;
+  policy: string;
+}
+
+/**
+ * Fields a role may read, create and update in one collection. An action is
+ * left out when the role has no permission for it.
+ */
+export interface CollectionAccess {
+  /** Role name as given in the `roles` option */
+  role: string;
+  read?: string[];
+  create?: string[];
+  update?: string[];
+}
+
+/**
+ * Width of a field in the admin app form
+ */
+export type FormWidth = 'half' | 'half-left' | 'half-right' | 'full' | 'fill';
+
+/**
+ * Field or group of fields in a collection's admin app form
+ */
+export interface FormLayoutNode {
+  kind: 'field' | 'group';
+  field: string;
+  interface: string | null;
+  width: FormWidth;
+  required: boolean;
+  readonly: boolean;
+  hidden: boolean;
+  note: string | null;
+  /** Fields inside a group, in form order */
+  children?: FormLayoutNode[];
+}
+
+/**
+ * Directus schema snapshot, as produced by `directus schema snapshot`
+ */
+export interface DirectusSchemaSnapshot {
+  version: number;
+  directus: string;
+  vendor?: string;
+  collections: DirectusCollection[];
+  fields: DirectusField[];
+  relations: DirectusRelation[];
+}
+
+/**
+ * Source of Directus schema information used by the generators
+ */
+export interface SchemaSource {
+  authenticate(): Promise<void>;
+  getCollections(): Promise<DirectusCollection[]>;
+  getCollectionWithFields(collectionName: string): Promise<DirectusCollectionWithFields>;
+  getFields(): Promise<DirectusField[]>;
+  getRelationships(): Promise<DirectusRelation[]>;
+  /** Only needed for role variants (the `roles` option) */
+  getPermissions?(): Promise<DirectusPermission[]>;
+  /** Only needed for role variants (the `roles` option) */
+  getRoles?(): Promise<DirectusRole[]>;
+  /** Only needed for the `Public` role variant on Directus 11 */
+  getAccess?(): Promise<DirectusAccess[]>;
+}
+
 /**
  * Configuration for Zodirectus
  */
 export interface ZodirectusConfig {
-  directusUrl: string;
+  directusUrl?: string;
   token?: string;
   email?: string;
   password?: string;
+  snapshotPath?: string;
   collections?: string[];
   outputDir?: string;
   generateTypes?: boolean;
@@ -102,6 +270,71 @@ export interface ZodirectusConfig {
   typesFileName?: string;
   includeSystemCollections?: boolean;
   customFieldMappings?: Record<string, string>;
+  /** Schemas of specific fields keyed by `collection.field`, e.g. for JSON columns: a Zod snippet, or the snippet and its TypeScript type */
+  fieldSchemas?: Record<string, string | FieldSchemaMapping>;
+  /** Type M2M fields as junction rows (default) or flatten them to the related items */
+  m2mMode?: 'junction' | 'flatten';
+  /** Type relation fields as primary keys, expanded items, or either (default) */
+  relationMode?: 'id-only' | 'expanded' | 'either';
+  /** Write one file per collection (default), everything to `schemaFileName`, or schemas and types to separate files */
+  outputLayout?: 'per-collection' | 'single-file' | 'schemas-and-types-split';
+  /** Prefixes, suffixes and casing of generated identifiers */
+  naming?: NamingStrategy;
+  /** Leave hidden fields out of Create and Update schemas and types, like readonly fields (default: false) */
+  omitHiddenFields?: boolean;
+  /** Write `form-layouts.ts` with the field groups, order and widths of each collection's form (default: false) */
+  generateFormLayouts?: boolean;
+  /** Roles to generate per-role variants for, by name; `Public` is the public role */
+  roles?: string[];
+}
+
+/**
+ * Zod schema and TypeScript type of a field, set in the `fieldSchemas` config
+ */
+export interface FieldSchemaMapping {
+  /** Zod snippet, e.g. `z.object({ theme: z.enum(['light', 'dark']) })` */
+  schema?: string;
+  /** TypeScript type, e.g. `{ theme: 'light' | 'dark' }` */
+  type?: string;
+}
+
+/**
+ * Naming of generated identifiers. With the defaults, `blog_posts` becomes
+ * `DrxBlogPostSchema`, `DrxBlogPostCreateSchema`, `DrsBlogPost`, `DrsBlogPostCreate` and so on.
+ */
+export interface NamingStrategy {
+  /** Prefix of schema names (default: `Drx`) */
+  schemaPrefix?: string;
+  /** Prefix of type names (default: `Drs`) */
+  typePrefix?: string;
+  /** Suffix of schema names (default: `Schema`) */
+  schemaSuffix?: string;
+  /** Suffix of Create schemas and types (default: `Create`) */
+  createSuffix?: string;
+  /** Suffix of Update schemas and types (default: `Update`) */
+  updateSuffix?: string;
+  /** Suffix of Get schemas and types (default: `Get`) */
+  getSuffix?: string;
+  /** Use the singular of the collection name, e.g. `BlogPost` for `blog_posts` (default: true) */
+  singularize?: boolean;
+  /** Singular forms of plural words, e.g. `{ news: 'news', criteria: 'criterion' }`. Checked before the built-in rules. */
+  irregularPlurals?: Record<string, string>;
+  /** Turn a collection name into the base of its identifiers (default: singular PascalCase) */
+  casing?: (collection: string) => string;
+  /** Base names of specific collections, e.g. `{ people: 'Person' }` */
+  overrides?: Record<string, string>;
+}
+
+/**
+ * What a generated schema or type refers to outside of its own file
+ */
+export interface SchemaReferences {
+  /** Collections whose schemas or types are referenced */
+  collections: string[];
+  /** Referenced collections whose schemas are only used inside z.lazy(), so they may be declared later */
+  deferred?: string[];
+  /** The file schemas and types from file-schemas.ts are referenced */
+  files: boolean;
 }
 
 /**
@@ -111,6 +344,67 @@ export interface GeneratedSchema {
   collectionName: string;
   schema?: string;
   type?: string;
+  /** What the schema and type refer to, used for imports and dependency ordering */
+  references?: SchemaReferences;
+}
+
+/**
+ * Options for watching the Directus schema
+ */
+export interface WatchOptions {
+  /** Polling interval in milliseconds (default: 5000) */
+  interval?: number;
+  onGenerate?: (results: GeneratedSchema[], changedCollections: string[]) => void;
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Handle returned by Zodirectus.watch()
+ */
+export interface SchemaWatcher {
+  stop(): void;
+}
+
+/**
+ * Generated file that differs from what is on disk
+ */
+export interface StaleFile {
+  filePath: string;
+  status: 'missing' | 'changed' | 'unexpected';
+  diff: string;
+}
+
+/**
+ * Directus schema state that can be compared with another one
+ */
+export interface SchemaState {
+  collections: DirectusCollectionWithFields[];
+  relations: DirectusRelation[];
+}
+
+/**
+ * Kind of change between two schema states
+ */
+export type SchemaChangeType =
+  | 'collection-added'
+  | 'collection-removed'
+  | 'field-added'
+  | 'field-removed'
+  | 'type-changed'
+  | 'nullability-changed'
+  | 'required-changed'
+  | 'choices-changed'
+  | 'relation-changed';
+
+/**
+ * Single change between two schema states, classified for consumers of the generated types
+ */
+export interface SchemaChange {
+  type: SchemaChangeType;
+  collection: string;
+  field?: string;
+  breaking: boolean;
+  message: string;
 }
 
 /**
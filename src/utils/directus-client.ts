@@ -1,18 +1,21 @@
 import axios, { AxiosInstance, AxiosResponse } from 'axios';
-import { ZodirectusConfig, DirectusCollection, DirectusCollectionWithFields } from '../types';
+import { ZodirectusConfig, DirectusCollection, DirectusCollectionWithFields, DirectusField, DirectusRelation, DirectusPermission, DirectusRole, DirectusAccess, SchemaSource } from '../types';
+import { ConfigUtils } from '../lib/config-utils';
 
 /**
  * Directus API Client for fetching collections and fields
  */
-export class DirectusClient {
+export class DirectusClient implements SchemaSource {
   private config: ZodirectusConfig;
   private axiosInstance: AxiosInstance;
   private accessToken?: string;
+  private accessTokenExpiresAt?: number;
 
   constructor(config: ZodirectusConfig) {
-    this.config = config;
+    // Fall back to DIRECTUS_URL / DIRECTUS_TOKEN / DIRECTUS_EMAIL / DIRECTUS_PASSWORD
+    this.config = ConfigUtils.applyEnvDefaults(config);
     this.axiosInstance = axios.create({
-      baseURL: config.directusUrl,
+      baseURL: this.config.directusUrl,
       timeout: 30000,
     });
 
@@ -26,22 +29,33 @@ export class DirectusClient {
   }
 
   /**
-   * Authenticate with Directus
+   * Authenticate with Directus. A login is reused until its access token is about to expire.
    */
   async authenticate(): Promise<void> {
+    if (!this.config.directusUrl) {
+      throw new Error('Directus URL must be provided (directusUrl or DIRECTUS_URL)');
+    }
+
     if (this.config.token) {
       this.accessToken = this.config.token;
       return;
     }
 
     if (this.config.email && this.config.password) {
+      if (this.accessToken && this.accessTokenExpiresAt && Date.now() < this.accessTokenExpiresAt) {
+        return;
+      }
+
       try {
         const response = await this.axiosInstance.post('/auth/login', {
           email: this.config.email,
           password: this.config.password,
         });
 
-        this.accessToken = response.data.data.access_token;
+        const { access_token, expires } = response.data.data;
+        this.accessToken = access_token;
+        // `expires` is the token lifetime in milliseconds; log in again a minute early
+        this.accessTokenExpiresAt = typeof expires === 'number' ? Date.now() + expires - 60000 : undefined;
       } catch (error) {
         throw new Error(`Authentication failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
@@ -84,6 +98,18 @@ export class DirectusClient {
     }
   }
 
+  /**
+   * Get the fields of all collections
+   */
+  async getFields(): Promise<DirectusField[]> {
+    try {
+      const response: AxiosResponse<{ data: DirectusField[] }> = await this.axiosInstance.get('/fields');
+      return response.data.data;
+    } catch (error) {
+      throw new Error(`Failed to fetch fields: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Test the connection to Directus
    */
@@ -112,26 +138,62 @@ export class DirectusClient {
   /**
    * Get relationship information for M2M fields
    */
-  async getRelationships(): Promise<any[]> {
+  async getRelationships(): Promise<DirectusRelation[]> {
     try {
       const response = await this.axiosInstance.get('/relations');
       return response.data.data || [];
     } catch (error) {
-      console.warn('Could not fetch relationships from Directus:', error instanceof Error ? error.message : 'Unknown error');
-      return [];
+      throw new Error(`Failed to fetch relationships: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get the permissions of all roles
+   */
+  async getPermissions(): Promise<DirectusPermission[]> {
+    try {
+      const response: AxiosResponse<{ data: DirectusPermission[] }> = await this.axiosInstance.get('/permissions', { params: { limit: -1 } });
+      return response.data.data;
+    } catch (error) {
+      throw new Error(`Failed to fetch permissions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get all roles, with the policies attached to them on Directus 11
+   */
+  async getRoles(): Promise<DirectusRole[]> {
+    try {
+      const response: AxiosResponse<{ data: DirectusRole[] }> = await this.axiosInstance.get('/roles', { params: { limit: -1, fields: '*,policies.policy' } });
+      return response.data.data;
+    } catch (error) {
+      throw new Error(`Failed to fetch roles: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get the policies attached to roles and users (Directus 11)
+   */
+  async getAccess(): Promise<DirectusAccess[]> {
+    try {
+      const response: AxiosResponse<{ data: DirectusAccess[] }> = await this.axiosInstance.get('/access', { params: { limit: -1 } });
+      return response.data.data;
+    } catch (error) {
+      throw new Error(`Failed to fetch access: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
    * Get relationship information for a specific collection
    */
-  async getCollectionRelationships(collectionName: string): Promise<any[]> {
+  async getCollectionRelationships(collectionName: string): Promise<DirectusRelation[]> {
     try {
       const allRelations = await this.getRelationships();
-      return allRelations.filter((relation: any) => 
-        relation.one_collection === collectionName || 
-        relation.many_collection === collectionName ||
-        relation.junction_collection === collectionName
+      return allRelations.filter(relation =>
+        relation.collection === collectionName ||
+        relation.related_collection === collectionName ||
+        relation.meta?.one_collection === collectionName ||
+        relation.meta?.many_collection === collectionName
       );
     } catch (error) {
       console.warn(`Could not fetch relationships for collection ${collectionName}:`, error instanceof Error ? error.message : 'Unknown error');
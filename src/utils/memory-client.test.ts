@@ -0,0 +1,79 @@
+import { MemoryClient } from './memory-client';
+import { ZodGenerator } from '../generators/zod-generator';
+
+describe('MemoryClient', () => {
+  const createClient = () => new MemoryClient({
+    collections: [
+      {
+        collection: 'articles',
+        fields: [
+          { field: 'id', type: 'integer', meta: { id: 1, collection: 'articles', field: 'id', required: true, readonly: false, hidden: false, sort: 1 } },
+          { field: 'author', type: 'integer', meta: { id: 2, collection: 'articles', field: 'author', special: ['m2o'], required: false, readonly: false, hidden: false, sort: 2 } },
+        ],
+      },
+      { collection: 'authors' },
+    ],
+    fields: [
+      { collection: 'authors', field: 'name', type: 'string' },
+    ],
+    relations: [
+      { collection: 'articles', field: 'author', related_collection: 'authors' },
+    ],
+  });
+
+  it('should return collections without their fields', async () => {
+    const collections = await createClient().getCollections();
+
+    expect(collections.map(c => c.collection)).toEqual(['articles', 'authors']);
+    expect(collections[0]).not.toHaveProperty('fields');
+  });
+
+  it('should return fields given inline with a collection', async () => {
+    const collection = await createClient().getCollectionWithFields('articles');
+
+    expect(collection.fields.map(f => f.field)).toEqual(['id', 'author']);
+    expect(collection.fields[0].collection).toBe('articles');
+  });
+
+  it('should return fields given separately from collections', async () => {
+    const collection = await createClient().getCollectionWithFields('authors');
+
+    expect(collection.fields.map(f => f.field)).toEqual(['name']);
+  });
+
+  it('should throw for unknown collections', async () => {
+    await expect(createClient().getCollectionWithFields('missing')).rejects.toThrow('Collection not found');
+  });
+
+  it('should return relations for a collection', async () => {
+    const client = createClient();
+
+    expect(await client.getRelationships()).toHaveLength(1);
+    expect(await client.getCollectionRelationships('authors')).toHaveLength(1);
+    expect(await client.getCollectionRelationships('tags')).toHaveLength(0);
+  });
+
+  it('should return permissions, roles and access, if any', async () => {
+    const client = new MemoryClient({
+      collections: [{ collection: 'articles' }],
+      roles: [{ id: 'role-editor', name: 'Editor' }],
+      permissions: [{ role: 'role-editor', collection: 'articles', action: 'read', fields: ['*'] }],
+      access: [{ role: null, user: null, policy: 'policy-public' }],
+    });
+
+    expect((await client.getRoles()).map(r => r.name)).toEqual(['Editor']);
+    expect(await client.getPermissions()).toHaveLength(1);
+    expect(await client.getAccess()).toEqual([{ role: null, user: null, policy: 'policy-public' }]);
+    expect(await createClient().getPermissions()).toEqual([]);
+  });
+
+  it('should feed relationships to the generators', async () => {
+    const client = createClient();
+    const getRelationships = jest.spyOn(client, 'getRelationships');
+    const generator = new ZodGenerator({}, client);
+
+    await generator.setRelationships();
+
+    expect(getRelationships).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,174 @@
+import {
+  SchemaSource,
+  DirectusCollection,
+  DirectusCollectionWithFields,
+  DirectusField,
+  DirectusRelation,
+  DirectusPermission,
+  DirectusRole,
+  DirectusAccess,
+} from '../types';
+
+/**
+ * Schema data held by a MemoryClient. Collections may carry their own fields,
+ * or fields can be listed separately with their `collection` set.
+ */
+export interface MemorySchema {
+  collections: Array<DirectusCollection | DirectusCollectionWithFields>;
+  fields?: DirectusField[];
+  relations?: DirectusRelation[];
+  permissions?: DirectusPermission[];
+  roles?: DirectusRole[];
+  access?: DirectusAccess[];
+}
+
+/**
+ * In-memory collections, fields and relations, shared by MemoryClient and SnapshotClient
+ */
+export class BaseMemoryClient implements SchemaSource {
+  protected collections: DirectusCollection[] = [];
+  protected fields: DirectusField[] = [];
+  protected relations: DirectusRelation[] = [];
+
+  /**
+   * Replace the schema data held by this client
+   */
+  setSchema(schema: MemorySchema): void {
+    this.collections = [];
+    this.fields = [...(schema.fields || [])];
+    this.relations = [...(schema.relations || [])];
+
+    for (const entry of schema.collections) {
+      if ('fields' in entry) {
+        const { fields, ...collection } = entry;
+        this.collections.push(collection);
+        this.fields.push(...fields.map(field => ({ ...field, collection: entry.collection })));
+      } else {
+        this.collections.push(entry);
+      }
+    }
+  }
+
+  /**
+   * Nothing to authenticate against for in-memory data
+   */
+  async authenticate(): Promise<void> {
+    return;
+  }
+
+  /**
+   * Get all collections
+   */
+  async getCollections(): Promise<DirectusCollection[]> {
+    await this.authenticate();
+    return this.collections;
+  }
+
+  /**
+   * Get a specific collection with its fields
+   */
+  async getCollectionWithFields(collectionName: string): Promise<DirectusCollectionWithFields> {
+    await this.authenticate();
+    const collection = this.collections.find(c => c.collection === collectionName);
+
+    if (!collection) {
+      throw new Error(`Failed to fetch collection ${collectionName}: Collection not found`);
+    }
+
+    // Keep the admin app field order, like the /fields endpoint does
+    const fields = this.fields
+      .filter(field => field.collection === collectionName)
+      .map((field, index) => ({ field, index }))
+      .sort((a, b) => {
+        const sortA = a.field.meta?.sort ?? Number.MAX_SAFE_INTEGER;
+        const sortB = b.field.meta?.sort ?? Number.MAX_SAFE_INTEGER;
+        return sortA - sortB || a.index - b.index;
+      })
+      .map(({ field }) => field);
+
+    return {
+      ...collection,
+      fields,
+    };
+  }
+
+  /**
+   * Get the fields of all collections
+   */
+  async getFields(): Promise<DirectusField[]> {
+    await this.authenticate();
+    return this.fields;
+  }
+
+  /**
+   * Get relationship information for M2M fields
+   */
+  async getRelationships(): Promise<DirectusRelation[]> {
+    await this.authenticate();
+    return this.relations;
+  }
+
+  /**
+   * Get relationship information for a specific collection
+   */
+  async getCollectionRelationships(collectionName: string): Promise<DirectusRelation[]> {
+    const allRelations = await this.getRelationships();
+    return allRelations.filter(relation =>
+      relation.collection === collectionName ||
+      relation.related_collection === collectionName ||
+      relation.meta?.one_collection === collectionName ||
+      relation.meta?.many_collection === collectionName
+    );
+  }
+}
+
+/**
+ * In-memory schema source, useful for fixtures in tests. Unlike schema snapshots,
+ * it can also hold roles and permissions.
+ */
+export class MemoryClient extends BaseMemoryClient {
+  protected permissions: DirectusPermission[] = [];
+  protected roles: DirectusRole[] = [];
+  protected access: DirectusAccess[] = [];
+
+  constructor(schema?: MemorySchema) {
+    super();
+    if (schema) {
+      this.setSchema(schema);
+    }
+  }
+
+  /**
+   * Replace the schema data held by this client
+   */
+  setSchema(schema: MemorySchema): void {
+    super.setSchema(schema);
+    this.permissions = [...(schema.permissions || [])];
+    this.roles = [...(schema.roles || [])];
+    this.access = [...(schema.access || [])];
+  }
+
+  /**
+   * Get the permissions of all roles
+   */
+  async getPermissions(): Promise<DirectusPermission[]> {
+    await this.authenticate();
+    return this.permissions;
+  }
+
+  /**
+   * Get all roles
+   */
+  async getRoles(): Promise<DirectusRole[]> {
+    await this.authenticate();
+    return this.roles;
+  }
+
+  /**
+   * Get the policies attached to roles and users
+   */
+  async getAccess(): Promise<DirectusAccess[]> {
+    await this.authenticate();
+    return this.access;
+  }
+}
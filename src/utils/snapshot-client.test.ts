@@ -0,0 +1,108 @@
+import { SnapshotClient } from './snapshot-client';
+import * as fs from 'fs';
+
+// Mock fs module
+jest.mock('fs');
+const mockedFs = fs as jest.Mocked<typeof fs>;
+
+describe('SnapshotClient', () => {
+  const snapshot = {
+    version: 1,
+    directus: '10.8.3',
+    vendor: 'postgres',
+    collections: [
+      { collection: 'articles', meta: { collection: 'articles', hidden: false, singleton: false }, schema: { name: 'articles' } },
+      { collection: 'authors', meta: { collection: 'authors', hidden: false, singleton: false }, schema: { name: 'authors' } },
+    ],
+    fields: [
+      { collection: 'articles', field: 'title', type: 'string', meta: { sort: 2 } },
+      { collection: 'articles', field: 'id', type: 'integer', meta: { sort: 1 } },
+      { collection: 'articles', field: 'author', type: 'integer', meta: { sort: 3, special: ['m2o'] } },
+      { collection: 'authors', field: 'id', type: 'integer', meta: { sort: 1 } },
+    ],
+    relations: [
+      { collection: 'articles', field: 'author', related_collection: 'authors', meta: null, schema: null },
+    ],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('parseSnapshot', () => {
+    it('should parse JSON snapshots', () => {
+      const result = SnapshotClient.parseSnapshot(JSON.stringify(snapshot), 'snapshot.json');
+
+      expect(result.collections).toHaveLength(2);
+      expect(result.relations).toHaveLength(1);
+    });
+
+    it('should parse YAML snapshots', () => {
+      const yaml = `version: 1
+directus: 10.8.3
+collections:
+  - collection: articles
+    meta: null
+fields:
+  - collection: articles
+    field: id
+    type: integer
+relations: []
+`;
+      const result = SnapshotClient.parseSnapshot(yaml, 'snapshot.yaml');
+
+      expect(result.collections[0].collection).toBe('articles');
+      expect(result.fields[0].field).toBe('id');
+    });
+
+    it('should reject files that are not snapshots', () => {
+      expect(() => SnapshotClient.parseSnapshot('{"data": []}', 'snapshot.json')).toThrow('not a Directus schema snapshot');
+    });
+  });
+
+  describe('reading collections', () => {
+    let client: SnapshotClient;
+
+    beforeEach(() => {
+      mockedFs.readFileSync.mockReturnValue(JSON.stringify(snapshot));
+      client = new SnapshotClient({ snapshotPath: './snapshot.json' });
+    });
+
+    it('should return collections from the snapshot', async () => {
+      const collections = await client.getCollections();
+
+      expect(collections.map(c => c.collection)).toEqual(['articles', 'authors']);
+      expect(mockedFs.readFileSync).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return a collection with its fields in sort order', async () => {
+      const collection = await client.getCollectionWithFields('articles');
+
+      expect(collection.collection).toBe('articles');
+      expect(collection.fields.map(f => f.field)).toEqual(['id', 'title', 'author']);
+    });
+
+    it('should throw for collections missing from the snapshot', async () => {
+      await expect(client.getCollectionWithFields('missing')).rejects.toThrow('Collection not found');
+    });
+
+    it('should return relations from the snapshot', async () => {
+      const relations = await client.getCollectionRelationships('authors');
+
+      expect(relations).toHaveLength(1);
+      expect(relations[0].field).toBe('author');
+    });
+
+    it('should not offer roles or permissions', () => {
+      expect('getRoles' in client).toBe(false);
+      expect('getPermissions' in client).toBe(false);
+      expect('getAccess' in client).toBe(false);
+    });
+
+    it('should throw when no snapshot path is configured', async () => {
+      const clientWithoutPath = new SnapshotClient({});
+
+      await expect(clientWithoutPath.getCollections()).rejects.toThrow('A snapshot path must be provided');
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { ZodirectusConfig, DirectusSchemaSnapshot } from '../types';
+import { BaseMemoryClient } from './memory-client';
+
+/**
+ * Snapshot-backed client that reads collections, fields and relations from a
+ * `directus schema snapshot` file instead of a running Directus instance
+ */
+export class SnapshotClient extends BaseMemoryClient {
+  private config: ZodirectusConfig;
+  private snapshot?: DirectusSchemaSnapshot;
+
+  constructor(config: ZodirectusConfig) {
+    super();
+    this.config = config;
+  }
+
+  /**
+   * Load the snapshot file (there is nothing to authenticate against)
+   */
+  async authenticate(): Promise<void> {
+    if (this.snapshot) {
+      return;
+    }
+
+    if (!this.config.snapshotPath) {
+      throw new Error('A snapshot path must be provided to read the schema from a snapshot file');
+    }
+
+    try {
+      this.snapshot = SnapshotClient.parseSnapshot(
+        fs.readFileSync(this.config.snapshotPath, 'utf8'),
+        this.config.snapshotPath
+      );
+    } catch (error) {
+      throw new Error(`Failed to read snapshot ${this.config.snapshotPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    this.setSchema(this.snapshot);
+  }
+
+  /**
+   * Parse snapshot file content, using the file extension to pick JSON or YAML
+   */
+  static parseSnapshot(content: string, filePath: string = ''): DirectusSchemaSnapshot {
+    const extension = path.extname(filePath).toLowerCase();
+    const isJson = extension === '.json' || (extension === '' && content.trimStart().startsWith('{'));
+    const snapshot = isJson ? JSON.parse(content) : parseYaml(content);
+
+    if (!snapshot || typeof snapshot !== 'object' || !Array.isArray(snapshot.collections)) {
+      throw new Error('File is not a Directus schema snapshot');
+    }
+
+    return {
+      ...snapshot,
+      collections: snapshot.collections,
+      fields: snapshot.fields || [],
+      relations: snapshot.relations || [],
+    };
+  }
+
+  /**
+   * Test that the snapshot can be read
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.authenticate();
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Get server information recorded in the snapshot
+   */
+  async getServerInfo(): Promise<any> {
+    await this.authenticate();
+    return {
+      version: this.snapshot!.directus,
+      vendor: this.snapshot!.vendor,
+    };
+  }
+}